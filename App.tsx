@@ -62,7 +62,8 @@ const App: React.FC = () => {
           avatar: userData.avatar || '👤',
           stats: userData.stats || {},
           history: userData.history || [],
-          achievements: userData.achievements || []
+          achievements: userData.achievements || [],
+          puzzles: userData.puzzles || {}
         });
         setView(AppView.DASHBOARD);
       }
@@ -84,9 +85,9 @@ const App: React.FC = () => {
     setView(AppView.DASHBOARD);
   };
 
-  const handleGameResult = (points: number, isWin?: boolean, details?: MatchDetails) => {
+  const handleGameResult = (points: number, isWin?: boolean, details?: MatchDetails, isDraw?: boolean) => {
     if (user && isWin !== undefined && activeGame !== GameType.NONE) {
-      const result = storage.updateGameStats(user.username, activeGame, isWin, points, details);
+      const result = storage.updateGameStats(user.username, activeGame, isWin, points, details, isDraw);
 
       if (result) {
           setUser(result.user);
@@ -0,0 +1,358 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { Button } from './ui/Button';
+import { MoveList } from './ui/MoveList';
+import { ChessPiece, GameType, RoundRecord } from '../types';
+import { playSound } from '../utils/sound';
+import {
+  ChessPosition, ChessVariant, VARIANT_NAMES, createInitialPosition, parseFen, getGameStatus, moveToSan, moveFromSan, applyMove
+} from '../utils/chess';
+import { ChessSearchRequest, ChessSearchResponse } from '../utils/chessAI';
+import {
+  XiangqiBoard, INITIAL_XIANGQI_FEN, parseXiangqiFen, applyXiangqiMove, moveFromIccs, moveToChinese, getXiangqiStatus
+} from '../utils/xiangqi';
+import { XiangqiSearchRequest, XiangqiSearchResponse } from '../utils/xiangqiAI';
+import { MoveJudgement, JUDGEMENT_SYMBOLS, JUDGEMENT_LABELS, MATE_THRESHOLD, judgeMove, winChance, formatEval } from '../utils/analysis';
+
+interface Props {
+  gameType: GameType; // CHESS or XIANGQI
+  rounds: RoundRecord[];
+  initialRound?: number;
+  playerNames?: [string, string]; // First player (white / red), second player
+  onClose: () => void;
+}
+
+type Square = { r: number, c: number };
+
+// One round replayed into positions; index i is the position before move i
+interface ReplayedLine {
+  boards: (ChessPiece | null)[][][];
+  firstToMove: boolean[];
+  notation: string[];
+  lastMoves: ({ from: Square, to: Square } | null)[];
+  terminal: (number | null)[]; // Evaluation of positions where the game is already decided
+  chessPositions: ChessPosition[];
+  firstNumber: number;
+  secondFirst: boolean;
+  error: string;
+}
+
+const ANALYSIS_DEPTH = 3;
+const MATE = 100000;
+
+const replayChess = (record: RoundRecord): ReplayedLine => {
+  const variant = (Object.keys(VARIANT_NAMES) as ChessVariant[]).find(v => VARIANT_NAMES[v] === record.variant) || 'STANDARD';
+  const start = record.start ? parseFen(record.start, variant) : { ...createInitialPosition(), variant };
+  const positions = [start];
+  const lastMoves: ({ from: Square, to: Square } | null)[] = [null];
+  let error = '';
+  for (const san of record.moves) {
+    const pos = positions[positions.length - 1];
+    const move = moveFromSan(pos, san);
+    if (!move) {
+      error = `着法无效: ${san}`;
+      break;
+    }
+    positions.push(applyMove(pos, move));
+    lastMoves.push(move);
+  }
+  return {
+    boards: positions.map(p => p.board),
+    firstToMove: positions.map(p => p.turn === 'white'),
+    notation: record.moves.slice(0, positions.length - 1),
+    lastMoves,
+    terminal: positions.map(p => {
+      const status = getGameStatus(p);
+      if (status === 'PLAYING') return null;
+      if (status === 'STALEMATE') return 0;
+      return p.turn === 'white' ? -MATE : MATE;
+    }),
+    chessPositions: positions,
+    firstNumber: start.fullmoveNumber,
+    secondFirst: start.turn === 'black',
+    error
+  };
+};
+
+const replayXiangqi = (record: RoundRecord): ReplayedLine => {
+  // Handicap games and puzzles start from their own position
+  const start = parseXiangqiFen(record.start || INITIAL_XIANGQI_FEN);
+  const boards: XiangqiBoard[] = [start.board];
+  const notation: string[] = [];
+  const lastMoves: ({ from: Square, to: Square } | null)[] = [null];
+  let error = '';
+  for (const iccs of record.moves) {
+    const move = moveFromIccs(iccs);
+    const board = boards[boards.length - 1];
+    if (!move || !board[move.from.r][move.from.c]) {
+      error = `着法无效: ${iccs}`;
+      break;
+    }
+    notation.push(moveToChinese(board, move.from, move.to));
+    boards.push(applyXiangqiMove(board, move));
+    lastMoves.push(move);
+  }
+  const redFirst = start.turn === 'red';
+  const firstToMove = boards.map((_, i) => (i % 2 === 0) === redFirst);
+  return {
+    boards,
+    firstToMove,
+    notation,
+    lastMoves,
+    // No legal move loses in xiangqi, stalemate included
+    terminal: boards.map((b, i) => getXiangqiStatus(b, firstToMove[i] ? 'red' : 'black') === 'PLAYING' ? null : (firstToMove[i] ? -MATE : MATE)),
+    chessPositions: [],
+    firstNumber: start.moveNumber,
+    secondFirst: !redFirst,
+    error
+  };
+};
+
+// Share of the bar belonging to the first player, in percent
+const barShare = (cp: number) => 50 + 50 * winChance(cp);
+
+export const GameAnalysis: React.FC<Props> = ({ gameType, rounds, initialRound, playerNames, onClose }) => {
+  const isChess = gameType === GameType.CHESS;
+  const [roundIndex, setRoundIndex] = useState(initialRound ?? rounds.length - 1);
+  const [ply, setPly] = useState(0);
+  const [evals, setEvals] = useState<(number | null)[]>([]);
+  const [bestMoves, setBestMoves] = useState<(string | null)[]>([]);
+
+  const line = useMemo(() => {
+    const record = rounds[roundIndex];
+    return isChess ? replayChess(record) : replayXiangqi(record);
+  }, [rounds, roundIndex, isChess]);
+
+  const names = playerNames || (isChess ? ['白方', '黑方'] : ['红方', '黑方']);
+
+  // Evaluate every position of the round one after another in a worker
+  useEffect(() => {
+    const count = line.boards.length;
+    const found: (number | null)[] = line.terminal.slice();
+    const best: (string | null)[] = Array(count).fill(null);
+    setEvals(found.slice());
+    setBestMoves(best.slice());
+    setPly(count - 1);
+
+    const worker = isChess
+      ? new Worker(new URL('../utils/chessAI.worker.ts', import.meta.url), { type: 'module' })
+      : new Worker(new URL('../utils/xiangqiAI.worker.ts', import.meta.url), { type: 'module' });
+
+    const next = (from: number) => {
+      const i = found.findIndex((e, k) => k >= from && e === null);
+      if (i < 0) return;
+      if (isChess) {
+        const request: ChessSearchRequest = { id: i, position: line.chessPositions[i], depth: ANALYSIS_DEPTH, noise: 0 };
+        worker.postMessage(request);
+      } else {
+        const request: XiangqiSearchRequest = { id: i, board: line.boards[i], turn: line.firstToMove[i] ? 'red' : 'black', depth: ANALYSIS_DEPTH, noise: 0 };
+        worker.postMessage(request);
+      }
+    };
+
+    worker.onmessage = (e: MessageEvent<ChessSearchResponse | XiangqiSearchResponse>) => {
+      const { id, score } = e.data;
+      // Scores come from the side to move; store them from the first player's side
+      found[id] = line.firstToMove[id] ? score : -score;
+      if (isChess) {
+        const { move } = e.data as ChessSearchResponse;
+        if (move) best[id] = moveToSan(line.chessPositions[id], move);
+      } else {
+        const { move } = e.data as XiangqiSearchResponse;
+        if (move) best[id] = moveToChinese(line.boards[id], move.from, move.to);
+      }
+      setEvals(found.slice());
+      setBestMoves(best.slice());
+      next(id + 1);
+    };
+    next(0);
+
+    return () => worker.terminate();
+  }, [line, isChess]);
+
+  const judgements: (MoveJudgement | null)[] = line.notation.map((_, i) =>
+    evals[i] != null && evals[i + 1] != null ? judgeMove(evals[i]!, evals[i + 1]!, line.firstToMove[i]) : null
+  );
+  const annotated = line.notation.map((n, i) => judgements[i] ? `${n}${JUDGEMENT_SYMBOLS[judgements[i]!]}` : n);
+  const done = evals.filter(e => e !== null).length;
+  const currentEval = evals[ply];
+
+  const summary = [true, false].map(first => {
+    const counts: Record<MoveJudgement, number> = { INACCURACY: 0, MISTAKE: 0, BLUNDER: 0 };
+    judgements.forEach((j, i) => {
+      if (j && line.firstToMove[i] === first) counts[j]++;
+    });
+    return counts;
+  });
+
+  const handleSelect = (plies: number) => {
+    setPly(plies);
+    playSound.move();
+  };
+
+  const lastMove = line.lastMoves[ply];
+  const isLastSquare = (r: number, c: number) =>
+    !!lastMove && ((lastMove.from.r === r && lastMove.from.c === c) || (lastMove.to.r === r && lastMove.to.c === c));
+  const board = line.boards[ply];
+  const moveJudgement = ply > 0 ? judgements[ply - 1] : null;
+
+  // Evaluation graph: one point per position, first player's winning chances on the y axis
+  const graphPoints = evals.map((e, i) => e === null ? null : `${(i / Math.max(1, evals.length - 1)) * 100},${50 - 50 * winChance(e)}`);
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-2 sm:p-4 bg-black/80 backdrop-blur-md animate-zoom-in" onClick={onClose}>
+      <div className="bg-slate-900 border border-cyan-500/30 rounded-2xl max-w-4xl w-full max-h-full overflow-y-auto shadow-[0_0_50px_rgba(6,182,212,0.2)] p-4" onClick={e => e.stopPropagation()}>
+        <div className="flex items-center justify-between mb-3">
+          <h3 className="text-sm font-bold text-slate-300 tracking-[0.2em]">对局分析 · {isChess ? '国际象棋' : '中国象棋'}</h3>
+          <button onClick={onClose} className="text-slate-500 hover:text-white">✕</button>
+        </div>
+
+        {rounds.length > 1 && (
+          <div className="flex gap-1 mb-3 flex-wrap">
+            {rounds.map((r, i) => (
+              <button
+                key={i}
+                onClick={() => { setRoundIndex(i); setPly(0); }}
+                className={`px-3 py-1 rounded text-xs border ${roundIndex === i ? 'bg-cyan-600 border-cyan-400 text-white' : 'bg-slate-800 border-slate-600 text-slate-400'}`}
+              >
+                第 {i + 1} 局 <span className="font-mono opacity-70">{r.result}</span>
+              </button>
+            ))}
+          </div>
+        )}
+
+        {line.error && <p className="text-red-400 text-xs mb-2">{line.error}</p>}
+
+        <div className="flex flex-col lg:flex-row gap-3 items-center lg:items-stretch">
+          <div className="flex gap-2">
+            {/* Evaluation Bar: first player's share from the bottom */}
+            <div className="relative w-4 rounded overflow-hidden bg-slate-950 border border-white/10" title={currentEval != null ? formatEval(currentEval) : ''}>
+              <div
+                className={`absolute bottom-0 left-0 right-0 transition-all duration-300 ${isChess ? 'bg-slate-100' : 'bg-red-500'}`}
+                style={{ height: `${currentEval != null ? barShare(currentEval) : 50}%` }}
+              />
+              <div className="absolute top-1/2 left-0 right-0 h-px bg-cyan-400/60" />
+            </div>
+
+            {isChess ? (
+              <div className="grid grid-cols-8 border-4 border-slate-700 rounded select-none">
+                {board.map((row, r) => row.map((cell, c) => (
+                  <div
+                    key={`${r}-${c}`}
+                    className={`w-8 h-8 sm:w-11 sm:h-11 flex items-center justify-center text-2xl sm:text-3xl relative
+                      ${(r + c) % 2 === 1 ? 'bg-slate-600' : 'bg-slate-300'}
+                      ${isLastSquare(r, c) ? 'bg-indigo-400/50' : ''}`}
+                  >
+                    {cell && <span className={`drop-shadow-lg ${cell.color === 'white' ? 'text-white' : 'text-black'}`}>{cell.label}</span>}
+                  </div>
+                )))}
+              </div>
+            ) : (
+              <svg viewBox="0 0 360 400" className="w-[288px] sm:w-[360px] bg-[#eecfa1] rounded border-4 border-[#8b4513] select-none">
+                {Array.from({ length: 10 }, (_, r) => (
+                  <line key={`h${r}`} x1={20} y1={20 + r * 40} x2={340} y2={20 + r * 40} stroke="black" strokeWidth={1} />
+                ))}
+                {Array.from({ length: 9 }, (_, c) => (c === 0 || c === 8) ? (
+                  <line key={`v${c}`} x1={20 + c * 40} y1={20} x2={20 + c * 40} y2={380} stroke="black" strokeWidth={1} />
+                ) : (
+                  <g key={`v${c}`}>
+                    <line x1={20 + c * 40} y1={20} x2={20 + c * 40} y2={180} stroke="black" strokeWidth={1} />
+                    <line x1={20 + c * 40} y1={220} x2={20 + c * 40} y2={380} stroke="black" strokeWidth={1} />
+                  </g>
+                ))}
+                {[[140, 20, 220, 100], [220, 20, 140, 100], [140, 300, 220, 380], [220, 300, 140, 380]].map(([x1, y1, x2, y2], i) => (
+                  <line key={`p${i}`} x1={x1} y1={y1} x2={x2} y2={y2} stroke="black" strokeWidth={1} opacity={0.6} />
+                ))}
+                <text x={100} y={207} fontSize={20} textAnchor="middle" opacity={0.4}>楚 河</text>
+                <text x={260} y={207} fontSize={20} textAnchor="middle" opacity={0.4}>漢 界</text>
+                {board.map((row, r) => row.map((cell, c) => (
+                  <g key={`${r}-${c}`}>
+                    {isLastSquare(r, c) && <circle cx={20 + c * 40} cy={20 + r * 40} r={19} fill="rgba(99,102,241,0.35)" />}
+                    {cell && (
+                      <>
+                        <circle cx={20 + c * 40} cy={20 + r * 40} r={16} fill="#f5deb3" stroke={cell.color === 'red' ? '#dc2626' : 'black'} strokeWidth={2} />
+                        <text x={20 + c * 40} y={20 + r * 40 + 6} fontSize={17} fontWeight="bold" textAnchor="middle" fill={cell.color === 'red' ? '#dc2626' : 'black'}>{cell.label}</text>
+                      </>
+                    )}
+                  </g>
+                )))}
+              </svg>
+            )}
+          </div>
+
+          <MoveList
+            moves={annotated}
+            current={ply}
+            onSelect={handleSelect}
+            firstNumber={line.firstNumber}
+            secondFirst={line.secondFirst}
+            accent="bg-cyan-600"
+            className="w-full max-w-md h-40 lg:h-auto lg:flex-1"
+          />
+        </div>
+
+        {/* Evaluation Graph */}
+        <svg
+          viewBox="0 0 100 100"
+          preserveAspectRatio="none"
+          className="w-full h-16 mt-3 bg-slate-950 rounded border border-white/10 cursor-pointer"
+          onClick={(e) => {
+            const rect = e.currentTarget.getBoundingClientRect();
+            handleSelect(Math.round(((e.clientX - rect.left) / rect.width) * (evals.length - 1)));
+          }}
+        >
+          <line x1={0} y1={50} x2={100} y2={50} stroke="rgba(34,211,238,0.3)" strokeWidth={0.5} vectorEffect="non-scaling-stroke" />
+          <polyline points={graphPoints.filter(Boolean).join(' ')} fill="none" stroke="#22d3ee" strokeWidth={1.5} vectorEffect="non-scaling-stroke" />
+          <line x1={(ply / Math.max(1, evals.length - 1)) * 100} y1={0} x2={(ply / Math.max(1, evals.length - 1)) * 100} y2={100} stroke="white" strokeWidth={1} vectorEffect="non-scaling-stroke" opacity={0.5} />
+        </svg>
+
+        <div className="mt-3 grid grid-cols-1 sm:grid-cols-2 gap-3 text-xs">
+          <div className="bg-white/5 rounded-lg p-3 border border-white/5 space-y-1">
+            <div className="flex justify-between">
+              <span className="text-slate-400">局面评估</span>
+              <span className="font-mono font-bold text-white">{currentEval != null ? formatEval(currentEval) : '计算中...'}</span>
+            </div>
+            {ply > 0 && (
+              <div className="flex justify-between">
+                <span className="text-slate-400">本步 {line.notation[ply - 1]}</span>
+                <span className={moveJudgement === 'BLUNDER' ? 'text-red-400 font-bold' : moveJudgement === 'MISTAKE' ? 'text-orange-400 font-bold' : moveJudgement === 'INACCURACY' ? 'text-yellow-400' : 'text-slate-500'}>
+                  {moveJudgement ? `${JUDGEMENT_LABELS[moveJudgement]} ${JUDGEMENT_SYMBOLS[moveJudgement]}` : '—'}
+                </span>
+              </div>
+            )}
+            {moveJudgement && bestMoves[ply - 1] && (
+              <div className="flex justify-between">
+                <span className="text-slate-400">更好的着法</span>
+                <span className="font-mono text-emerald-400">{bestMoves[ply - 1]}</span>
+              </div>
+            )}
+            {Math.abs(currentEval ?? 0) >= MATE_THRESHOLD && (
+              <p className="text-amber-400">{(currentEval ?? 0) > 0 ? names[0] : names[1]}已有强制胜势</p>
+            )}
+            <div className="text-slate-500">
+              {done < evals.length ? `引擎分析中 ${done}/${evals.length}` : `分析完成 · 深度 ${ANALYSIS_DEPTH}`}
+            </div>
+          </div>
+
+          <div className="bg-white/5 rounded-lg p-3 border border-white/5">
+            <div className="grid grid-cols-4 gap-1 text-center">
+              <span />
+              {(['INACCURACY', 'MISTAKE', 'BLUNDER'] as MoveJudgement[]).map(j => (
+                <span key={j} className="text-slate-400">{JUDGEMENT_LABELS[j]} {JUDGEMENT_SYMBOLS[j]}</span>
+              ))}
+              {summary.map((counts, i) => (
+                <React.Fragment key={i}>
+                  <span className="text-left text-slate-300 truncate">{names[i]}</span>
+                  <span className="font-mono text-yellow-400">{counts.INACCURACY}</span>
+                  <span className="font-mono text-orange-400">{counts.MISTAKE}</span>
+                  <span className="font-mono text-red-400">{counts.BLUNDER}</span>
+                </React.Fragment>
+              ))}
+            </div>
+          </div>
+        </div>
+
+        <Button onClick={onClose} className="w-full mt-3 bg-slate-800 hover:bg-slate-700 text-xs py-2">关闭分析</Button>
+      </div>
+    </div>
+  );
+};
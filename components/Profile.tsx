@@ -6,6 +6,7 @@ import { storage } from '../utils/storage';
 import { playSound } from '../utils/sound';
 import { ACHIEVEMENTS } from '../utils/achievements';
 import { getRank } from '../utils/rank';
+import { GameAnalysis } from './GameAnalysis';
 
 interface Props {
   user: User;
@@ -43,6 +44,7 @@ const formatFullDate = (timestamp: number) => {
 
 export const Profile: React.FC<Props> = ({ user, onLogout, onClose, onUpdateUser }) => {
   const [selectedMatch, setSelectedMatch] = useState<GameHistoryItem | null>(null);
+  const [analyzingMatch, setAnalyzingMatch] = useState<GameHistoryItem | null>(null);
   const [activeTab, setActiveTab] = useState<'stats' | 'achievements'>('stats');
   
   // Edit Mode State
@@ -347,7 +349,7 @@ export const Profile: React.FC<Props> = ({ user, onLogout, onClose, onUpdateUser
                              </div>
                              <div className="flex flex-col items-center">
                                 <div className="text-3xl font-black text-white font-mono italic">{selectedMatch.details?.score || '-'}</div>
-                                <div className={`text-[10px] font-bold px-2 py-0.5 rounded ${selectedMatch.result === 'WIN' ? 'bg-green-900 text-green-400' : 'bg-red-900 text-red-400'}`}>
+                                <div className={`text-[10px] font-bold px-2 py-0.5 rounded ${selectedMatch.result === 'WIN' ? 'bg-green-900 text-green-400' : selectedMatch.result === 'LOSS' ? 'bg-red-900 text-red-400' : 'bg-slate-700 text-slate-300'}`}>
                                     {selectedMatch.result}
                                 </div>
                              </div>
@@ -376,11 +378,33 @@ export const Profile: React.FC<Props> = ({ user, onLogout, onClose, onUpdateUser
                                 <span className="text-slate-300">{formatFullDate(selectedMatch.timestamp)}</span>
                             </div>
                         </div>
+                        {selectedMatch.details?.rounds?.some(r => r.termination) && (
+                            <div className="space-y-1 mb-4 text-[10px]">
+                                {selectedMatch.details.rounds.map((round, i) => (
+                                    <div key={i} className="flex justify-between gap-2">
+                                        <span className="text-slate-500 shrink-0">第 {i + 1} 局 · {round.result}</span>
+                                        <span className="text-slate-300 text-right">{round.termination || '-'}</span>
+                                    </div>
+                                ))}
+                            </div>
+                        )}
+                        {selectedMatch.details?.rounds?.length && (selectedMatch.gameType === GameType.CHESS || selectedMatch.gameType === GameType.XIANGQI) ? (
+                            <Button onClick={() => setAnalyzingMatch(selectedMatch)} className="w-full mb-2 bg-cyan-700 hover:bg-cyan-600 text-xs py-3">📈 对局分析</Button>
+                        ) : null}
                         <Button onClick={() => setSelectedMatch(null)} className="w-full bg-slate-800 hover:bg-slate-700 text-xs py-3">关闭战报</Button>
                     </div>
                 </div>
             </div>
       )}
+
+      {analyzingMatch?.details?.rounds && (
+          <GameAnalysis
+            gameType={analyzingMatch.gameType}
+            rounds={analyzingMatch.details.rounds}
+            playerNames={[user.username, analyzingMatch.details.opponent]}
+            onClose={() => setAnalyzingMatch(null)}
+          />
+      )}
     </div>
   );
 };
@@ -0,0 +1,263 @@
+import React, { useState } from 'react';
+import { Button } from '../ui/Button';
+import { User, MatchDetails } from '../../types';
+import { playSound } from '../../utils/sound';
+import { MoveList } from '../ui/MoveList';
+import { XiangqiColor } from '../../utils/xiangqi';
+import { BanqiBoard, BanqiAction, BANQI_DRAW_PLIES, createBanqiBoard, applyBanqiAction, getBanqiMoves, getBanqiStatus, countBanqiPieces, banqiActionText } from '../../utils/banqi';
+
+interface Props {
+  user: User;
+  player2?: User | null;
+  totalFrames: number;
+  pointsPerMatch: number;
+  onGameEnd: (points: number, isWin?: boolean, details?: MatchDetails, isDraw?: boolean) => void;
+  onExit: () => void;
+}
+
+type Seat = 'p1' | 'p2';
+
+const colorName = (color: XiangqiColor) => color === 'red' ? '红方' : '黑方';
+const otherColor = (color: XiangqiColor): XiangqiColor => color === 'red' ? 'black' : 'red';
+
+// 暗棋 match on one screen; the players take turns to open the rounds
+export const Banqi: React.FC<Props> = ({ user, player2, totalFrames, pointsPerMatch, onGameEnd, onExit }) => {
+  const [board, setBoard] = useState<BanqiBoard>(() => createBanqiBoard());
+  const [seat, setSeat] = useState<Seat>('p1');
+  const [p1Color, setP1Color] = useState<XiangqiColor | null>(null); // Decided by the first flip of the round
+  const [quietPlies, setQuietPlies] = useState(0);
+  const [selected, setSelected] = useState<{ r: number, c: number } | null>(null);
+  const [validMoves, setValidMoves] = useState<{ r: number, c: number }[]>([]);
+  const [lastAction, setLastAction] = useState<BanqiAction | null>(null);
+  const [notation, setNotation] = useState<string[]>([]);
+
+  const [gameState, setGameState] = useState<'PLAYING' | 'ROUND_OVER' | 'GAMEOVER'>('PLAYING');
+  const [matchScore, setMatchScore] = useState({ p1: 0, p2: 0 });
+  const [roundsPlayed, setRoundsPlayed] = useState(0);
+  const [winner, setWinner] = useState<Seat | 'draw' | null>(null);
+  const [roundMessage, setRoundMessage] = useState('');
+
+  const opponentName = player2 ? player2.username : 'Player 2';
+  const seatName = (s: Seat) => s === 'p1' ? user.username : opponentName;
+  const colorOf = (s: Seat): XiangqiColor | null => p1Color ? (s === 'p1' ? p1Color : otherColor(p1Color)) : null;
+  const turnColor = colorOf(seat);
+
+  const initRound = (starter: Seat) => {
+      setBoard(createBanqiBoard());
+      setSeat(starter);
+      setP1Color(null);
+      setQuietPlies(0);
+      setSelected(null);
+      setValidMoves([]);
+      setLastAction(null);
+      setNotation([]);
+      setRoundMessage('');
+      setGameState('PLAYING');
+  };
+
+  const handleRoundEnd = (roundWinner: Seat | null, reason: string) => {
+      playSound.win();
+      setRoundMessage(reason);
+
+      const played = roundsPlayed + 1;
+      const newScore = { ...matchScore };
+      if (roundWinner) newScore[roundWinner] += 1;
+      else {
+          newScore.p1 += 0.5;
+          newScore.p2 += 0.5;
+      }
+      setRoundsPlayed(played);
+      setMatchScore(newScore);
+
+      const half = totalFrames / 2;
+      if (newScore.p1 <= half && newScore.p2 <= half && played < totalFrames) {
+          setGameState('ROUND_OVER');
+          return;
+      }
+
+      const details: MatchDetails = {
+          opponent: opponentName,
+          opponentAvatar: player2?.avatar || '👤',
+          score: `${newScore.p1}-${newScore.p2}`,
+          matchTags: ['PVP', `BO${totalFrames}`, '暗棋']
+      };
+      setGameState('GAMEOVER');
+      if (newScore.p1 > newScore.p2) {
+          setWinner('p1');
+          onGameEnd(pointsPerMatch, true, details);
+      } else if (newScore.p2 > newScore.p1) {
+          setWinner('p2');
+          onGameEnd(-pointsPerMatch, false, details);
+      } else {
+          setWinner('draw');
+          onGameEnd(0, false, details, true);
+      }
+  };
+
+  const executeAction = (action: BanqiAction) => {
+      setNotation([...notation, banqiActionText(board, action)]);
+
+      let colors = p1Color;
+      let quiet = quietPlies + 1;
+      if (action.kind === 'flip') {
+          const piece = board[action.at.r][action.at.c]!;
+          if (!colors) {
+              colors = seat === 'p1' ? piece.color as XiangqiColor : otherColor(piece.color as XiangqiColor);
+              setP1Color(colors);
+          }
+          quiet = 0;
+          playSound.click();
+      } else if (board[action.to.r][action.to.c]) {
+          quiet = 0;
+          playSound.capture();
+      } else {
+          playSound.move();
+      }
+
+      const newBoard = applyBanqiAction(board, action);
+      const nextSeat: Seat = seat === 'p1' ? 'p2' : 'p1';
+      setBoard(newBoard);
+      setSeat(nextSeat);
+      setQuietPlies(quiet);
+      setLastAction(action);
+      setSelected(null);
+      setValidMoves([]);
+
+      const nextColor = colors ? (nextSeat === 'p1' ? colors : otherColor(colors)) : null;
+      const status = getBanqiStatus(newBoard, nextColor, quiet);
+      if (status === 'DRAW') {
+          handleRoundEnd(null, `连续 ${BANQI_DRAW_PLIES} 手未翻子或吃子, 判和`);
+      } else if (status !== 'PLAYING') {
+          const loserColor = nextColor ? colorName(nextColor) : '';
+          handleRoundEnd(seat, status === 'NO_PIECES' ? `${loserColor}棋子被吃光, ${seatName(seat)}获胜` : `${loserColor}无棋可走, ${seatName(seat)}获胜`);
+      }
+  };
+
+  const handleCellClick = (r: number, c: number) => {
+      if (gameState !== 'PLAYING') return;
+      const piece = board[r][c];
+
+      if (selected && validMoves.some(m => m.r === r && m.c === c)) {
+          executeAction({ kind: 'move', from: selected, to: { r, c } });
+          return;
+      }
+      if (piece?.hidden) {
+          executeAction({ kind: 'flip', at: { r, c } });
+          return;
+      }
+      if (piece && piece.color === turnColor) {
+          setSelected({ r, c });
+          setValidMoves(getBanqiMoves(board, r, c));
+          playSound.click();
+          return;
+      }
+      setSelected(null);
+      setValidMoves([]);
+  };
+
+  const isLast = (r: number, c: number) => !!lastAction && (lastAction.kind === 'flip'
+      ? lastAction.at.r === r && lastAction.at.c === c
+      : (lastAction.from.r === r && lastAction.from.c === c) || (lastAction.to.r === r && lastAction.to.c === c));
+
+  return (
+    <div className="flex flex-col items-center justify-center h-full p-2 overflow-y-auto">
+      <div className="w-full max-w-md mb-4 flex flex-col items-center relative animate-slide-up">
+          <div className="flex flex-col items-center bg-[#eecfa1]/10 px-8 py-2 rounded-2xl border border-amber-500/20 shadow-xl backdrop-blur-md">
+              <div className="text-[10px] text-amber-500/70 font-bold tracking-[0.2em] mb-1 uppercase">
+                暗棋 · BO{totalFrames} Match
+              </div>
+              <div className="flex items-center gap-6">
+                  {(['p1', 'p2'] as Seat[]).map((s, i) => {
+                      const color = colorOf(s);
+                      return (
+                          <React.Fragment key={s}>
+                              {i === 1 && <div className="text-amber-700/50 font-light text-2xl">:</div>}
+                              <div className={`flex flex-col items-center transition-all duration-300 ${seat === s ? 'scale-110 opacity-100' : 'opacity-60'}`}>
+                                 <span className={`text-[10px] font-bold tracking-wider ${color === 'red' ? 'text-red-400' : 'text-slate-400'}`}>
+                                     {color ? colorName(color) : '未定'} · {seatName(s)}
+                                 </span>
+                                 <span className="text-4xl font-black text-amber-100 leading-none drop-shadow-md">{matchScore[s]}</span>
+                                 {color && <span className="text-[10px] text-slate-500 mt-1">剩余 {countBanqiPieces(board, color)} 子</span>}
+                              </div>
+                          </React.Fragment>
+                      );
+                  })}
+              </div>
+          </div>
+      </div>
+
+      <div className="text-right w-full max-w-md mb-2 flex justify-between items-center px-1">
+          <div className="text-xs text-amber-600/80 font-bold">
+              当前: <span className={turnColor === 'red' ? 'text-red-500' : 'text-slate-300'}>{seatName(seat)}{turnColor ? ` (${colorName(turnColor)})` : ''}</span>
+              {!p1Color && <span className="ml-2 text-amber-400">翻开第一子决定执色</span>}
+              {quietPlies >= BANQI_DRAW_PLIES - 10 && <span className="ml-2 text-amber-400">{BANQI_DRAW_PLIES - quietPlies} 手后判和</span>}
+          </div>
+          <Button onClick={onExit} variant="secondary" className="text-xs py-1 mt-0 h-8 bg-slate-800/50 hover:bg-slate-700 backdrop-blur-md border border-white/10">重置</Button>
+      </div>
+
+      <div className="flex flex-col lg:flex-row items-center lg:items-start gap-3">
+      <div className="bg-[#eecfa1] p-4 rounded-lg shadow-2xl relative select-none border-4 border-[#8b4513]">
+        {gameState === 'ROUND_OVER' && (
+             <div className="absolute inset-0 z-50 bg-slate-900/80 backdrop-blur-sm flex flex-col items-center justify-center rounded-lg text-center p-4">
+                 <h3 className="text-2xl font-bold text-white mb-2">本局结束</h3>
+                 {roundMessage && <p className="text-red-400 font-bold mb-2">{roundMessage}</p>}
+                 <p className="text-amber-100 mb-4">比分 {matchScore.p1} : {matchScore.p2}</p>
+                 <Button onClick={() => initRound(roundsPlayed % 2 === 0 ? 'p1' : 'p2')}>下一局</Button>
+             </div>
+        )}
+
+        {gameState === 'GAMEOVER' && (
+            <div className="absolute inset-0 z-50 bg-slate-900/90 backdrop-blur-sm flex flex-col items-center justify-center rounded-lg text-center p-4">
+                <h3 className="text-3xl font-bold text-red-500 mb-4 tracking-widest">
+                    {winner === 'draw' ? '双方战平!' : `${seatName(winner === 'p1' ? 'p1' : 'p2')} 获得最终胜利!`}
+                </h3>
+                {roundMessage && <p className="text-red-400 font-bold mb-2">{roundMessage}</p>}
+                <p className="text-white mb-4">
+                    {winner === 'draw' ? `比分 ${matchScore.p1} : ${matchScore.p2}, 积分不变` : winner === 'p1' ? `获得 ${pointsPerMatch} 积分` : `扣除 ${pointsPerMatch} 积分`}
+                </p>
+                <Button onClick={onExit}>返回设置</Button>
+            </div>
+        )}
+
+        <div className="grid grid-cols-8 border-2 border-black bg-[#eecfa1]">
+            {board.map((row, r) => row.map((cell, c) => {
+                const isSelected = selected?.r === r && selected?.c === c;
+                const isValidMove = validMoves.some(m => m.r === r && m.c === c);
+                return (
+                    <div
+                      key={`${r}-${c}`}
+                      onClick={() => handleCellClick(r, c)}
+                      className={`w-10 h-10 sm:w-14 sm:h-14 border border-black/60 flex items-center justify-center relative cursor-pointer ${isLast(r, c) ? 'bg-indigo-500/20' : ''}`}
+                    >
+                        {cell && (
+                            <div className={`
+                              w-8 h-8 sm:w-12 sm:h-12 rounded-full border-2
+                              flex items-center justify-center text-lg sm:text-2xl font-bold shadow-md transition-all duration-200
+                              ${cell.hidden ? 'bg-[#8b5a2b] border-[#5c3a1a]' : `bg-[#f5deb3] ${cell.color === 'red' ? 'text-red-600 border-red-600' : 'text-black border-black'}`}
+                              ${isSelected ? 'scale-110 -translate-y-1 ring-4 ring-yellow-400 z-50' : ''}
+                              ${isValidMove ? 'ring-4 ring-red-500/50 z-40' : ''}
+                            `}>
+                                {cell.hidden ? '' : cell.label}
+                            </div>
+                        )}
+                        {isValidMove && !cell && (
+                            <div className="w-3 h-3 sm:w-4 sm:h-4 bg-green-600/50 rounded-full animate-pulse" />
+                        )}
+                    </div>
+                );
+            }))}
+        </div>
+      </div>
+
+      <MoveList
+        moves={notation}
+        current={notation.length}
+        onSelect={() => {}}
+        keyboard={false}
+        accent="bg-red-600"
+        className="w-full max-w-md h-40 lg:w-48 lg:h-[240px]"
+      />
+      </div>
+    </div>
+  );
+};
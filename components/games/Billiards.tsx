@@ -3,6 +3,23 @@ import { Button } from '../ui/Button';
 import { playSound } from '../../utils/sound';
 import { User, GameType, MatchDetails } from '../../types';
 import { StreakIndicator } from '../ui/StreakIndicator';
+import { storage } from '../../utils/storage';
+import {
+  Ball, BilliardsMode, Shot, ShotResult, Pocket, TableSize, FOOT_SPOT, MAX_POWER, FRAME_MS, SNOOKER_BAULK_X, SNOOKER_D_RADIUS, SNOOKER_SPOTS,
+  createRack, simulateShot, spotBall, isValidPlacement, tableFor
+} from '../../utils/billiardsEngine';
+import {
+  RackState, ShotCall, NO_CALL, HEAD_STRING_X, FOULS_TO_LOSE, createRackState, judgeShot, mustCallPocket
+} from '../../utils/billiardsRules';
+import {
+  SnookerState, SNOOKER_COLOUR_NAMES, createSnookerState, judgeSnookerShot, respotSnookerBall, isInSnookerD, isRed, snookerOnLabel,
+  snookerPointsRemaining
+} from '../../utils/snookerRules';
+import { AimAssist, AIM_ASSISTS, predictAim } from '../../utils/billiardsAim';
+import { BILLIARDS_BOT_LEVELS, BilliardsBotRequest, BilliardsBotResponse } from '../../utils/billiardsAI';
+import {
+  BilliardsDrill, BUILTIN_DRILLS, drillBallIds, drillToBalls, ballsToDrill, createDrillBall, encodeDrill, decodeDrill, drillProblem
+} from '../../utils/billiardsDrills';
 
 interface Props {
   user: User;
@@ -11,47 +28,35 @@ interface Props {
   onOpenP2Login?: () => void;
 }
 
-type BilliardsMode = '8BALL' | '9BALL';
-type GroupType = 'SOLIDS' | 'STRIPES' | null;
-
-// --- Physics Constants ---
-const TABLE_WIDTH = 800;
-const TABLE_HEIGHT = 400;
-const BALL_RADIUS = 12; 
-const POCKET_RADIUS = 28; 
-
-// Physics Parameters
-const SUB_STEPS = 8; 
-const DECELERATION = 0.045;
-const WALL_BOUNCE = 0.75;
-const BALL_RESTITUTION = 0.92; 
-const MAX_POWER = 45;
-const STOP_THRESHOLD = 0.08;
-
 const BALL_COLORS = [
   '#f0f0f0', '#fbbf24', '#2563eb', '#dc2626', '#7e22ce', '#f97316', '#16a34a', '#881337', 
   '#111111', '#fbbf24', '#2563eb', '#dc2626', '#7e22ce', '#f97316', '#16a34a', '#881337'
 ];
 
-// Pre-defined pocket locations
-const POCKETS = [
-  { x: 0, y: 0 }, { x: TABLE_WIDTH / 2, y: -8 }, { x: TABLE_WIDTH, y: 0 },
-  { x: 0, y: TABLE_HEIGHT }, { x: TABLE_WIDTH / 2, y: TABLE_HEIGHT + 8 }, { x: TABLE_WIDTH, y: TABLE_HEIGHT }
+// Snooker: cue ball, 15 reds, then yellow, green, brown, blue, pink, black
+const SNOOKER_COLORS = ['#f0f0f0', ...Array(15).fill('#b91c1c'), '#facc15', '#15803d', '#78350f', '#1d4ed8', '#f472b6', '#111111'];
+
+// How a ball is named in notes and the replay: by number in pool, as 红球 or its colour in snooker
+const ballName = (mode: BilliardsMode, id: number) => mode !== 'SNOOKER' ? `${id}号球` : isRed(id) ? '红球' : SNOOKER_COLOUR_NAMES[id];
+
+type GameMode = 'PVE' | 'PVP';
+
+const TABLE_SIZES: { id: TableSize, name: string, tag: string }[] = [
+  { id: '7FT', name: '7尺 酒吧台', tag: '7尺台' },
+  { id: '9FT', name: '9尺 职业台', tag: '9尺台' }
 ];
 
-interface Ball {
-  id: number;
-  x: number;
-  y: number;
-  vx: number;
-  vy: number;
-  active: boolean; 
-  type: 'CUE' | 'SOLID' | 'STRIPE' | 'EIGHT' | 'NINE';
-}
+// Where a pocket is drawn (and clicked): the hole just behind its shelf
+const pocketHole = (p: Pocket) => ({ x: p.x + p.axis.x * p.radius * 0.6, y: p.y + p.axis.y * p.radius * 0.6 });
+
+// The computer always plays as P2
+const BOT_PLAYER = 2;
 
 interface MatchConfig {
     totalFrames: number; 
     pointsPerMatch: number;
+    aimAssist: AimAssist;
+    tableSize: TableSize;
 }
 
 export const Billiards: React.FC<Props> = ({ user, onGameEnd, player2, onOpenP2Login }) => {
@@ -59,10 +64,12 @@ export const Billiards: React.FC<Props> = ({ user, onGameEnd, player2, onOpenP2L
   const containerRef = useRef<HTMLDivElement>(null);
 
   const [mode, setMode] = useState<BilliardsMode>('8BALL');
-  const [gameState, setGameState] = useState<'SETUP' | 'PLAYING' | 'ROUND_OVER' | 'GAMEOVER'>('SETUP');
+  const [gameMode, setGameMode] = useState<GameMode>('PVP');
+  const [botLevelId, setBotLevelId] = useState(BILLIARDS_BOT_LEVELS[1].id);
+  const [gameState, setGameState] = useState<'SETUP' | 'PLAYING' | 'ROUND_OVER' | 'GAMEOVER' | 'PRACTICE'>('SETUP');
   
   // Match State
-  const [matchConfig, setMatchConfig] = useState<MatchConfig>({ totalFrames: 3, pointsPerMatch: 100 });
+  const [matchConfig, setMatchConfig] = useState<MatchConfig>({ totalFrames: 3, pointsPerMatch: 100, aimAssist: 'FULL', tableSize: '7FT' });
   const [matchScore, setMatchScore] = useState<{p1: number, p2: number}>({ p1: 0, p2: 0 });
   
   const [turn, setTurn] = useState<1 | 2>(1);
@@ -73,37 +80,92 @@ export const Billiards: React.FC<Props> = ({ user, onGameEnd, player2, onOpenP2L
   const ballsRef = useRef<Ball[]>([]);
   const [isMoving, setIsMoving] = useState(false);
   
-  const [playerGroups, setPlayerGroups] = useState<{1: GroupType, 2: GroupType}>({ 1: null, 2: null });
+  const [rack, setRack] = useState<RackState>(createRackState());
+  const playerGroups = rack.groups;
+
+  // Declarations for the next shot: the pocket called for the 8, and a 9-ball push-out
+  const [calledPocket, setCalledPocket] = useState<number | null>(null);
+  const [pushOutDeclared, setPushOutDeclared] = useState(false);
+  // After a push-out the incoming player shoots or hands the table back to the player who pushed
+  const [pushOutBy, setPushOutBy] = useState<1 | 2 | null>(null);
   
   const [dragStart, setDragStart] = useState<{x: number, y: number} | null>(null);
   const [currentDrag, setCurrentDrag] = useState<{x: number, y: number} | null>(null);
   const [power, setPower] = useState(0);
 
+  // Where the cue tip meets the cue ball, x: left/right english, y: draw/follow, each -1..1 inside the unit circle
+  const [tip, setTip] = useState<{x: number, y: number}>({ x: 0, y: 0 });
+
   const [placingBall, setPlacingBall] = useState(false);
   const [validPlacement, setValidPlacement] = useState(true);
+  // Ball in hand after a break scratch: only behind the head string
+  const [kitchen, setKitchen] = useState(false);
 
   const [foulMessage, setFoulMessage] = useState<string | null>(null);
+  const [foulLog, setFoulLog] = useState<{ player: 1 | 2, reason: string }[]>([]);
+  const [roundReason, setRoundReason] = useState<string | null>(null);
+
+  // Snooker frame score and ball on; after a miss the incoming player may have the table put back and the shot replayed
+  const [snooker, setSnooker] = useState<SnookerState>(createSnookerState());
+  const [missChoice, setMissChoice] = useState<{ before: Ball[], state: SnookerState, offender: 1 | 2 } | null>(null);
+
+  // Practice: the drill the table resets to, the layout editor and the user's saved drills (as share codes)
+  const [drill, setDrill] = useState<BilliardsDrill | null>(null);
+  const [editing, setEditing] = useState(false);
+  const [selectedBallId, setSelectedBallId] = useState<number | null>(null); // On the table, or picked from the tray to add
+  const [draggingBallId, setDraggingBallId] = useState<number | null>(null);
+  const [savedDrills, setSavedDrills] = useState<string[]>([]);
+  const [drillName, setDrillName] = useState('');
+  const [importCode, setImportCode] = useState('');
+  const [practiceNote, setPracticeNote] = useState<string | null>(null);
 
   const requestRef = useRef<number>(0);
   const soundCooldowns = useRef<Record<string, number>>({}); 
 
-  const turnInfoRef = useRef<{
-      pottedThisTurn: boolean;
-      firstHitId: number | null;
-      nineBallPotted: boolean;
-  }>({ pottedThisTurn: false, firstHitId: null, nineBallPotted: false });
+  // The shot being played back: its simulated result, the table it was struck from and playback progress
+  const playbackRef = useRef<{
+      result: ShotResult;
+      before: Ball[];
+      startedAt: number;
+      frame: number;
+      eventIndex: number;
+      call: ShotCall;
+  } | null>(null);
+
+  // The last finished shot, and the replay of it when one is open (frame may be fractional in slow motion)
+  const [lastShot, setLastShot] = useState<{ result: ShotResult, before: Ball[], foul: string | null } | null>(null);
+  const [replay, setReplay] = useState<{ frame: number, speed: number, playing: boolean } | null>(null);
+
+  const workerRef = useRef<Worker | null>(null);
+  const botRequestIdRef = useRef(0);
+  const [botThinking, setBotThinking] = useState(false);
+
+  const botLevel = BILLIARDS_BOT_LEVELS.find(l => l.id === botLevelId) || BILLIARDS_BOT_LEVELS[0];
+  const isBotTurn = gameMode === 'PVE' && turn === BOT_PLAYER;
+  const opponentName = gameMode === 'PVE' ? `电脑 (${botLevel.name})` : (player2 ? player2.username : 'Player 2');
+  const opponentAvatar = gameMode === 'PVE' ? '🤖' : (player2?.avatar || '👤');
+  const matchPoints = gameMode === 'PVE' ? Math.round(matchConfig.pointsPerMatch * botLevel.pointsMultiplier) : matchConfig.pointsPerMatch;
+  const aimAssist = AIM_ASSISTS.find(a => a.id === matchConfig.aimAssist) || AIM_ASSISTS[0];
+  const tableSize = TABLE_SIZES.find(t => t.id === matchConfig.tableSize) || TABLE_SIZES[0];
+  const matchTags = [mode, gameMode, `BO${matchConfig.totalFrames}`, aimAssist.tag, ...(mode === 'SNOOKER' ? [] : [tableSize.tag])];
 
   // Refs for State in Game Loop
   const modeRef = useRef(mode);
   const turnRef = useRef(turn);
-  const playerGroupsRef = useRef(playerGroups);
+  const rackRef = useRef(rack);
   const placingBallRef = useRef(placingBall);
+  const snookerRef = useRef(snooker);
+  const practiceRef = useRef(false);
 
   // Sync refs
   useEffect(() => { modeRef.current = mode; }, [mode]);
   useEffect(() => { turnRef.current = turn; }, [turn]);
-  useEffect(() => { playerGroupsRef.current = playerGroups; }, [playerGroups]);
+  useEffect(() => { rackRef.current = rack; }, [rack]);
   useEffect(() => { placingBallRef.current = placingBall; }, [placingBall]);
+  useEffect(() => { snookerRef.current = snooker; }, [snooker]);
+  useEffect(() => { practiceRef.current = gameState === 'PRACTICE'; }, [gameState]);
+
+  const table = tableFor(mode, matchConfig.tableSize);
 
   // --- Mobile & Responsive Logic ---
   const [windowSize, setWindowSize] = useState({ w: 1000, h: 600 });
@@ -132,20 +194,20 @@ export const Billiards: React.FC<Props> = ({ user, onGameEnd, player2, onOpenP2L
       if (newScore.p1 >= targetWins) {
           setMatchWinner('P1');
           setGameState('GAMEOVER');
-          onGameEnd(matchConfig.pointsPerMatch, true, {
-              opponent: player2 ? player2.username : 'Player 2',
-              opponentAvatar: player2?.avatar || '👤',
+          onGameEnd(matchPoints, true, {
+              opponent: opponentName,
+              opponentAvatar,
               score: `${newScore.p1}-${newScore.p2}`,
-              matchTags: [`${mode}`, `BO${matchConfig.totalFrames}`]
+              matchTags
           });
       } else if (newScore.p2 >= targetWins) {
           setMatchWinner('P2');
           setGameState('GAMEOVER');
-          onGameEnd(-matchConfig.pointsPerMatch, false, {
-              opponent: player2 ? player2.username : 'Player 2',
-              opponentAvatar: player2?.avatar || '👤',
+          onGameEnd(-matchPoints, false, {
+              opponent: opponentName,
+              opponentAvatar,
               score: `${newScore.p1}-${newScore.p2}`,
-              matchTags: [`${mode}`, `BO${matchConfig.totalFrames}`]
+              matchTags
           });
       } else {
           setGameState('ROUND_OVER');
@@ -153,72 +215,30 @@ export const Billiards: React.FC<Props> = ({ user, onGameEnd, player2, onOpenP2L
   };
 
   const initRound = () => {
-    const newBalls: Ball[] = [];
-    
-    // Cue Ball
-    newBalls.push({ id: 0, x: 200, y: TABLE_HEIGHT / 2, vx: 0, vy: 0, active: true, type: 'CUE' });
-
-    const startX = 600;
-    const startY = TABLE_HEIGHT / 2;
-    const r = BALL_RADIUS;
-    const dist = Math.sqrt((2 * r) ** 2 - r ** 2) + 0.5;
-
-    if (mode === '8BALL') {
-        const pattern = [
-            [1], 
-            [2, 9], 
-            [3, 8, 10], 
-            [4, 15, 12, 5], 
-            [6, 7, 13, 14, 11]
-        ];
-        
-        pattern.forEach((row, colIndex) => {
-            row.forEach((id, rowIndex) => {
-                 const x = startX + colIndex * dist;
-                 const y = startY + (rowIndex * 2 * r) - (row.length - 1) * r;
-                 
-                 let type: Ball['type'] = 'SOLID';
-                 if (id > 8) type = 'STRIPE';
-                 if (id === 8) type = 'EIGHT';
-
-                 newBalls.push({ id, x: x + Math.random()*0.1, y: y + Math.random()*0.1, vx: 0, vy: 0, active: true, type });
-            });
-        });
-    } else {
-        const ids = [1, 2, 3, 9, 5, 6, 7, 8, 4];
-        const positions = [
-            { c: 0, r: 0 },
-            { c: 1, r: -0.5 }, { c: 1, r: 0.5 },
-            { c: 2, r: 0 }, 
-            { c: 2, r: -1 }, { c: 2, r: 1 },
-            { c: 3, r: -0.5 }, { c: 3, r: 0.5 },
-            { c: 4, r: 0 }
-        ];
-        
-        positions.forEach((pos, i) => {
-            const id = ids[i];
-            const x = startX + pos.c * dist;
-            const y = startY + pos.r * 2 * r;
-            newBalls.push({ 
-                id, x: x + Math.random()*0.1, y: y + Math.random()*0.1, vx: 0, vy: 0, active: true, 
-                type: id === 9 ? 'NINE' : 'SOLID' 
-            });
-        });
-    }
-
-    ballsRef.current = newBalls;
+    ballsRef.current = createRack(mode, Math.random, table);
     setGameState('PLAYING');
     setTurn(1); 
     setWinner(null);
-    setPlacingBall(false);
+    // Snooker breaks off from the D
+    setPlacingBall(mode === 'SNOOKER');
+    setKitchen(false);
     setFoulMessage(null);
-    setPlayerGroups({ 1: null, 2: null });
-    turnInfoRef.current = { pottedThisTurn: false, firstHitId: null, nineBallPotted: false };
+    setFoulLog([]);
+    setRoundReason(null);
+    setRack(createRackState());
+    setCalledPocket(null);
+    setPushOutDeclared(false);
+    setPushOutBy(null);
+    setSnooker(createSnookerState());
+    setMissChoice(null);
+    playbackRef.current = null;
+    setLastShot(null);
+    setReplay(null);
     soundCooldowns.current = {};
   };
 
   const startMatch = (selectedMode: BilliardsMode) => {
-    if (user.username !== '测试玩家' && !player2 && onOpenP2Login) {
+    if (gameMode === 'PVP' && user.username !== '测试玩家' && !player2 && onOpenP2Login) {
         onOpenP2Login();
         return;
     }
@@ -230,220 +250,334 @@ export const Billiards: React.FC<Props> = ({ user, onGameEnd, player2, onOpenP2L
     initRound();
 };
 
-  // --- Physics Engine ---
-  const checkPockets = (ball: Ball) => {
-      for (let p of POCKETS) {
-          const dx = ball.x - p.x;
-          const dy = ball.y - p.y;
-          if (dx*dx + dy*dy < (POCKET_RADIUS * 1.2)**2) return true;
+  // --- Practice ---
+  // Sets the table up as the drill, which from now on is what reset returns to
+  const loadDrill = (next: BilliardsDrill) => {
+    // Coordinates that fit one table size can overlap or run off the cloth on the other
+    const problem = drillProblem(next, tableFor(next.mode, matchConfig.tableSize));
+    if (problem) {
+      setPracticeNote(`当前球台摆不下「${next.name}」: ${problem}`);
+      playSound.wrong();
+      return;
+    }
+    setMode(next.mode);
+    setDrill(next);
+    setDrillName(next.name);
+    ballsRef.current = drillToBalls(next);
+    setGameState('PRACTICE');
+    setTurn(1);
+    setPlacingBall(false);
+    setKitchen(false);
+    setFoulMessage(null);
+    setFoulLog([]);
+    setRack(createRackState());
+    setCalledPocket(null);
+    setPushOutDeclared(false);
+    setPushOutBy(null);
+    setMissChoice(null);
+    setSelectedBallId(null);
+    setDraggingBallId(null);
+    setPracticeNote(null);
+    playbackRef.current = null;
+    setLastShot(null);
+    setReplay(null);
+    playSound.click();
+  };
+
+  const startPractice = () => {
+    setSavedDrills(storage.getDrills(user.username, GameType.BILLIARDS));
+    setEditing(false);
+    loadDrill(BUILTIN_DRILLS[0]);
+  };
+
+  // An empty table of the mode with only the cue ball, opened in the editor
+  const newLayout = (next: BilliardsMode) => {
+    const cue = createRack(next, Math.random, tableFor(next, matchConfig.tableSize)).filter(b => b.id === 0);
+    loadDrill(ballsToDrill('自定义布局', next, cue));
+    setEditing(true);
+  };
+
+  const resetDrill = () => {
+    if (!drill) return;
+    ballsRef.current = drillToBalls(drill);
+    setPlacingBall(false);
+    setSelectedBallId(null);
+    setPracticeNote(null);
+    playSound.click();
+  };
+
+  // Saves the table as it stands under the entered name, replacing a saved drill of the same name
+  const saveDrill = () => {
+    const name = drillName.trim() || drill?.name || '自定义布局';
+    const saved = ballsToDrill(name, mode, ballsRef.current);
+    // A cue ball still waiting to be placed is not on the cloth yet
+    const problem = placingBall ? '请先放置母球' : drillProblem(saved, table);
+    if (problem) {
+      setPracticeNote(`无法保存: ${problem}`);
+      playSound.wrong();
+      return;
+    }
+    const codes = [...savedDrills.filter(code => decodeDrill(code)?.name !== name), encodeDrill(saved)];
+    storage.saveDrills(user.username, GameType.BILLIARDS, codes);
+    setSavedDrills(codes);
+    setDrill(saved);
+    setDrillName(name);
+    setPracticeNote(`已保存「${name}」`);
+    playSound.click();
+  };
+
+  const deleteDrill = (code: string) => {
+    const codes = savedDrills.filter(c => c !== code);
+    storage.saveDrills(user.username, GameType.BILLIARDS, codes);
+    setSavedDrills(codes);
+  };
+
+  const importDrill = () => {
+    const imported = decodeDrill(importCode);
+    if (!imported) {
+      setPracticeNote('分享码无效');
+      playSound.wrong();
+      return;
+    }
+    setImportCode('');
+    setEditing(false);
+    loadDrill(imported);
+  };
+
+  const copyDrillCode = () => {
+    if (!drill) return;
+    navigator.clipboard?.writeText(encodeDrill(drill));
+    setPracticeNote('分享码已复制');
+    playSound.click();
+  };
+
+  const removeSelectedBall = () => {
+    if (selectedBallId === null || selectedBallId === 0) return;
+    ballsRef.current = ballsRef.current.filter(b => b.id !== selectedBallId);
+    setSelectedBallId(null);
+    playSound.click();
+  };
+
+  // --- Shot Playback ---
+  const playEventSound = (event: ShotResult['events'][number]) => {
+      const now = Date.now();
+      if (event.kind === 'POCKET') {
+          playSound.billiardPocket();
+      } else if (event.kind === 'RAIL' && event.speed > 0.5) {
+          const soundKey = `wall-${event.id}`;
+          if (!soundCooldowns.current[soundKey] || now - soundCooldowns.current[soundKey] > 50) {
+              playSound.billiardRail(event.speed);
+              soundCooldowns.current[soundKey] = now;
+          }
+      } else if (event.kind === 'HIT' && event.speed > 0.1) {
+          const pairId = event.a < event.b ? `${event.a}-${event.b}` : `${event.b}-${event.a}`;
+          if (!soundCooldowns.current[pairId] || now - soundCooldowns.current[pairId] > 30) {
+              playSound.billiardHit(event.speed);
+              soundCooldowns.current[pairId] = now;
+          }
       }
-      return false;
   };
 
-  const handlePotLogic = (ids: number[]) => {
-    if (ids.includes(0)) return;
-    
-    const currentMode = modeRef.current;
+  const reportFoul = (player: 1 | 2, message: string) => {
+      setFoulLog(log => [...log, { player, reason: message }]);
+      setFoulMessage(`犯规: ${message}`);
+      playSound.wrong();
+      setTimeout(() => setFoulMessage(null), 2000);
+  };
+
+  const handleSnookerTurnEnd = (result: ShotResult, before: Ball[]) => {
     const currentTurn = turnRef.current;
-    const currentGroups = playerGroupsRef.current;
-
-    if (currentMode === '8BALL' && currentGroups[1] === null) {
-        const firstBall = ids.find(id => id !== 0 && id !== 8);
-        if (firstBall) {
-            const isSolid = firstBall < 8;
-            const type: GroupType = isSolid ? 'SOLIDS' : 'STRIPES';
-            const otherType: GroupType = isSolid ? 'STRIPES' : 'SOLIDS';
-            setPlayerGroups({ 1: currentTurn === 1 ? type : otherType, 2: currentTurn === 2 ? type : otherType });
-        }
+    const state = snookerRef.current;
+    const verdict = judgeSnookerShot(currentTurn, state, before, result);
+
+    let balls = result.balls;
+    verdict.respot.forEach(id => { balls = respotSnookerBall(balls, id); });
+    balls = balls.map(b => b.id === 0 && !b.active ? { ...b, active: true } : b);
+    ballsRef.current = balls;
+    setSnooker(verdict.state);
+    setLastShot({ result, before, foul: verdict.foul });
+
+    if (verdict.winner) {
+        endRound(verdict.winner === 1 ? 'P1' : 'P2');
+        return;
     }
-    if (currentMode === '8BALL' && ids.includes(8)) {
-        const activeBalls = ballsRef.current.filter(b => b.active && b.id !== 0 && b.id !== 8);
-        // Win if all other balls potted, else lose
-        endRound(activeBalls.length === 0 && turnInfoRef.current.firstHitId ? (currentTurn === 1 ? 'P1' : 'P2') : (currentTurn === 1 ? 'P2' : 'P1'));
+
+    if (verdict.foul) {
+        reportFoul(currentTurn, `${verdict.foul} (罚${verdict.penalty}分)`);
+        if (verdict.miss) {
+            setMissChoice({ before, state: { ...verdict.state, on: state.on, freeBall: state.freeBall }, offender: currentTurn });
+        }
+    } else if (verdict.nextTurn === currentTurn) {
+        playSound.click();
     }
+    setPlacingBall(verdict.ballInHand);
+    setTurn(verdict.nextTurn);
   };
 
-  const handleTurnEnd = () => {
-    let foulReason: string | null = null;
-    const cue = ballsRef.current.find(b => b.id === 0);
-    const ninePotted = turnInfoRef.current.nineBallPotted;
-    
-    const currentMode = modeRef.current;
+  // Miss: put the balls back as they were and the offender plays the shot again
+  const replayMissedShot = () => {
+      if (!missChoice) return;
+      ballsRef.current = missChoice.before;
+      setSnooker(missChoice.state);
+      setTurn(missChoice.offender);
+      setPlacingBall(false);
+      setMissChoice(null);
+      playSound.click();
+  };
+
+  // Practice has no rules: the balls stay where they stopped and a pocketed cue ball comes back in hand
+  const handlePracticeTurnEnd = (result: ShotResult, before: Ball[]) => {
+    const cuePotted = result.potted.includes(0);
+    ballsRef.current = result.balls.map(b => b.id === 0 && !b.active ? { ...b, active: true } : b);
+    setLastShot({ result, before, foul: cuePotted ? '母球落袋' : null });
+    setPlacingBall(cuePotted);
+
+    const potted = result.potted.filter(id => id !== 0).map(id => ballName(modeRef.current, id));
+    setPracticeNote([potted.length > 0 ? `进球: ${potted.join('、')}` : '未进球', cuePotted ? '母球落袋' : ''].filter(Boolean).join(' · '));
+    if (potted.length > 0 && !cuePotted) playSound.click();
+  };
+
+  const handleTurnEnd = (result: ShotResult, before: Ball[], call: ShotCall) => {
+    setCalledPocket(null);
+    setPushOutDeclared(false);
+    if (practiceRef.current) {
+        handlePracticeTurnEnd(result, before);
+        return;
+    }
+    if (modeRef.current === 'SNOOKER') {
+        handleSnookerTurnEnd(result, before);
+        return;
+    }
     const currentTurn = turnRef.current;
-    const currentGroups = playerGroupsRef.current;
-
-    if (!cue || !cue.active) {
-        foulReason = "母球落袋";
-        if (cue) { cue.active = true; cue.vx = 0; cue.vy = 0; }
-        setPlacingBall(true);
-    } else if (turnInfoRef.current.firstHitId === null) {
-        foulReason = "未击中任何球";
-        setPlacingBall(true);
-    } else if (currentMode === '9BALL') {
-        const activeBalls = ballsRef.current.filter(b => b.active && b.id !== 0);
-        if (turnInfoRef.current.firstHitId !== null) {
-            // Lowest ball logic for 9-ball
-            const lowestTarget = ballsRef.current.reduce((minId, b) => {
-                if (b.id === 0) return minId;
-                if (b.active && b.id < minId) return b.id;
-                return minId;
-            }, 999);
-            
-             if (turnInfoRef.current.firstHitId !== lowestTarget) {
-                foulReason = "未击中最小号码球";
-                setPlacingBall(true);
-             }
-        }
-    } else if (currentMode === '8BALL') {
-        // 8-ball specific fouls (hitting wrong group)
-        const myGroup = currentGroups[currentTurn];
-        if (myGroup) {
-            const firstHit = ballsRef.current.find(b => b.id === turnInfoRef.current.firstHitId);
-            if (firstHit) {
-                let hitGroup: GroupType | 'EIGHT' = null;
-                if (firstHit.id < 8) hitGroup = 'SOLIDS';
-                else if (firstHit.id > 8) hitGroup = 'STRIPES';
-                else hitGroup = 'EIGHT'; // Hitting 8 first is allowed only if 8 is the target
-                
-                // If groups established, must hit own group.
-                // 8 ball is valid target ONLY if all own group balls are potted.
-                const myBalls = ballsRef.current.filter(b => b.active && b.id !== 0 && b.id !== 8 && ((b.id < 8 && myGroup === 'SOLIDS') || (b.id > 8 && myGroup === 'STRIPES')));
-                const onEight = myBalls.length === 0;
-
-                if (onEight) {
-                    if (firstHit.id !== 8) {
-                        foulReason = "必须击打黑8";
-                        setPlacingBall(true);
-                    }
-                } else {
-                    if (hitGroup !== myGroup) {
-                         foulReason = "未击中本方目标球";
-                         setPlacingBall(true);
-                    }
-                }
-            }
-        }
+    const verdict = judgeShot(modeRef.current, currentTurn, rackRef.current, before, result, call);
+
+    let balls = verdict.rerack ? createRack(modeRef.current, Math.random, table) : result.balls;
+    verdict.respot.forEach(id => { balls = spotBall(balls, id, FOOT_SPOT, table); });
+    // A pocketed cue ball comes back for the incoming player to place
+    balls = balls.map(b => b.id === 0 && !b.active ? { ...b, active: true } : b);
+    ballsRef.current = balls;
+    setRack(verdict.rack);
+    setLastShot({ result, before, foul: verdict.foul });
+
+    if (verdict.foul) reportFoul(currentTurn, verdict.foul);
+
+    if (verdict.winner) {
+        setRoundReason(verdict.winReason);
+        endRound(verdict.winner === 1 ? 'P1' : 'P2');
+        return;
     }
 
-    if (foulReason) {
-        setFoulMessage(`犯规: ${foulReason}`);
-        playSound.wrong();
-        // Turn passes on foul
-        setTurn(currentTurn === 1 ? 2 : 1);
-    } else {
-        // Valid shot
-        if (turnInfoRef.current.pottedThisTurn) {
-             // Stay on turn if valid pot
-             if (currentMode === '9BALL' && ninePotted) {
-                 endRound(currentTurn === 1 ? 'P1' : 'P2');
-                 return;
-             }
-             playSound.click(); 
-        } else {
-            setTurn(currentTurn === 1 ? 2 : 1);
-        }
+    if (verdict.rerack) {
+        setFoulMessage('开球不合规，重新摆球由对方开球');
+    } else if (!verdict.foul && verdict.nextTurn === currentTurn) {
+        playSound.click();
     }
-    
-    // Reset turn info
-    turnInfoRef.current = { pottedThisTurn: false, firstHitId: null, nineBallPotted: false };
-    if (foulReason) setTimeout(() => setFoulMessage(null), 2000);
+    // The computer always takes the table after a push-out
+    setPushOutBy(verdict.pushOut && !(gameMode === 'PVE' && verdict.nextTurn === BOT_PLAYER) ? currentTurn : null);
+    setPlacingBall(verdict.ballInHand);
+    setKitchen(verdict.kitchen);
+    setTurn(verdict.nextTurn);
   };
 
-  const updatePhysics = () => {
-      let isAnyBallMoving = false;
-      const balls = ballsRef.current;
-      const pottedInFrame: number[] = [];
-
-      for (let step = 0; step < SUB_STEPS; step++) {
-          balls.forEach(b => {
-              if (!b.active) return;
-              // Don't move cue ball if we are in placing mode
-              if (placingBallRef.current && b.id === 0) return;
-
-              b.x += b.vx / SUB_STEPS; b.y += b.vy / SUB_STEPS;
-              const speed = Math.sqrt(b.vx * b.vx + b.vy * b.vy);
-              if (speed > 0) {
-                  const friction = DECELERATION / SUB_STEPS;
-                  const newSpeed = Math.max(0, speed - friction);
-                  if (newSpeed < STOP_THRESHOLD) { b.vx = 0; b.vy = 0; } 
-                  else { const scale = newSpeed / speed; b.vx *= scale; b.vy *= scale; isAnyBallMoving = true; }
-              }
-              let wallHit = false;
-              if (b.x < BALL_RADIUS) { b.x = BALL_RADIUS; b.vx = Math.abs(b.vx) * WALL_BOUNCE; wallHit = true; }
-              if (b.x > TABLE_WIDTH - BALL_RADIUS) { b.x = TABLE_WIDTH - BALL_RADIUS; b.vx = -Math.abs(b.vx) * WALL_BOUNCE; wallHit = true; }
-              if (b.y < BALL_RADIUS) { b.y = BALL_RADIUS; b.vy = Math.abs(b.vy) * WALL_BOUNCE; wallHit = true; }
-              if (b.y > TABLE_HEIGHT - BALL_RADIUS) { b.y = TABLE_HEIGHT - BALL_RADIUS; b.vy = -Math.abs(b.vy) * WALL_BOUNCE; wallHit = true; }
-              
-              if (wallHit) {
-                  const impactSpeed = Math.sqrt(b.vx*b.vx + b.vy*b.vy);
-                  if (impactSpeed > 0.5) {
-                      const now = Date.now();
-                      const soundKey = `wall-${b.id}`;
-                      if (!soundCooldowns.current[soundKey] || now - soundCooldowns.current[soundKey] > 50) {
-                         playSound.billiardRail(impactSpeed);
-                         soundCooldowns.current[soundKey] = now;
-                      }
-                  }
-              }
+  // Push-out declined: the player who pushed has to shoot from there
+  const handBackAfterPushOut = () => {
+      if (!pushOutBy) return;
+      setTurn(pushOutBy);
+      setPushOutBy(null);
+      playSound.click();
+  };
 
-              if (checkPockets(b)) {
-                  b.active = false; b.vx = 0; b.vy = 0;
-                  if (!pottedInFrame.includes(b.id)) pottedInFrame.push(b.id);
-                  if (b.id === 9) turnInfoRef.current.nineBallPotted = true;
-                  playSound.billiardPocket();
-              }
-          });
+  // Shows the simulated shot in real time, one engine frame per FRAME_MS
+  const updatePlayback = () => {
+      const playback = playbackRef.current;
+      if (!playback) return;
+      const { result } = playback;
+      const lastFrame = result.frames.length - 1;
+      const frame = Math.min(lastFrame, Math.floor((Date.now() - playback.startedAt) / FRAME_MS));
+
+      while (playback.eventIndex < result.events.length && result.events[playback.eventIndex].frame <= frame) {
+          playEventSound(result.events[playback.eventIndex]);
+          playback.eventIndex++;
+      }
+      playback.frame = frame;
+      ballsRef.current = ballsRef.current.map((b, i) => ({ ...b, ...result.frames[frame][i] }));
 
-          for (let i = 0; i < balls.length; i++) {
-              for (let j = i + 1; j < balls.length; j++) {
-                  const b1 = balls[i]; const b2 = balls[j];
-                  if (!b1.active || !b2.active) continue;
-                  // Skip collision for cue ball if placing
-                  if (placingBallRef.current && (b1.id === 0 || b2.id === 0)) continue; 
-
-                  const dx = b2.x - b1.x; const dy = b2.y - b1.y;
-                  const distSq = dx*dx + dy*dy;
-                  if (distSq < (BALL_RADIUS * 2) ** 2) {
-                      const dist = Math.sqrt(distSq);
-                      const nx = dx / dist; const ny = dy / dist;
-                      const overlap = (BALL_RADIUS * 2) - dist;
-                      const correction = overlap * 0.5; 
-                      b1.x -= nx * correction; b1.y -= ny * correction;
-                      b2.x += nx * correction; b2.y += ny * correction;
-                      
-                      const v1n = b1.vx * nx + b1.vy * ny; const v2n = b2.vx * nx + b2.vy * ny;
-                      const tx = -ny; const ty = nx;
-                      const v1t = b1.vx * tx + b1.vy * ty; const v2t = b2.vx * tx + b2.vy * ty;
-                      const e = BALL_RESTITUTION;
-                      const v1n_new = (v1n * (1 - e) + v2n * (1 + e)) / 2;
-                      const v2n_new = (v1n * (1 + e) + v2n * (1 - e)) / 2;
-                      b1.vx = v1n_new * nx + v1t * tx; b1.vy = v1n_new * ny + v1t * ty;
-                      b2.vx = v2n_new * nx + v2t * tx; b2.vy = v2n_new * ny + v2t * ty;
-                      
-                      const impactForce = Math.abs(v1n - v2n);
-                      if (impactForce > 0.1) {
-                          const now = Date.now();
-                          const pairId = b1.id < b2.id ? `${b1.id}-${b2.id}` : `${b2.id}-${b1.id}`;
-                          if (!soundCooldowns.current[pairId] || now - soundCooldowns.current[pairId] > 30) {
-                              playSound.billiardHit(impactForce);
-                              soundCooldowns.current[pairId] = now;
-                          }
-                      }
-                      if (b1.id === 0 && turnInfoRef.current.firstHitId === null) turnInfoRef.current.firstHitId = b2.id;
-                      if (b2.id === 0 && turnInfoRef.current.firstHitId === null) turnInfoRef.current.firstHitId = b1.id;
-                  }
-              }
-          }
+      if (frame >= lastFrame) {
+          playbackRef.current = null;
+          setIsMoving(false);
+          handleTurnEnd(result, playback.before, playback.call);
       }
+  };
+
+  // Strikes the cue ball: the whole shot is simulated up front, then played back frame by frame
+  const takeShot = (shot: Shot, call: ShotCall = NO_CALL) => {
+      const before = ballsRef.current;
+      playbackRef.current = { result: simulateShot(before, shot, true, table), before, startedAt: Date.now(), frame: 0, eventIndex: 0, call };
+      setMissChoice(null);
+      setPushOutBy(null);
+      setIsMoving(true);
+      playSound.billiardShot(shot.power);
+  };
+
+  // --- Computer Opponent ---
+  // Terminate the bot worker when leaving the game
+  useEffect(() => {
+      return () => {
+          workerRef.current?.terminate();
+          workerRef.current = null;
+      };
+  }, []);
 
-      if (pottedInFrame.length > 0) {
-          turnInfoRef.current.pottedThisTurn = true;
-          handlePotLogic(pottedInFrame);
+  // Asks the worker for the bot's next step; answers for a table that changed meanwhile are ignored
+  const requestBotTurn = () => {
+      if (!workerRef.current) {
+          workerRef.current = new Worker(new URL('../../utils/billiardsAI.worker.ts', import.meta.url), { type: 'module' });
       }
-      setIsMoving(isAnyBallMoving);
-      if (!isAnyBallMoving && isMoving) { handleTurnEnd(); }
+      const worker = workerRef.current;
+      const id = ++botRequestIdRef.current;
+
+      worker.onmessage = (e: MessageEvent<BilliardsBotResponse>) => {
+          if (e.data.id !== botRequestIdRef.current) return;
+          setBotThinking(false);
+          const { placement, shot, calledPocket: botCall } = e.data;
+          if (placement) {
+              // Placing ends ball in hand, which asks the bot again for the shot itself
+              ballsRef.current = ballsRef.current.map(b => b.id === 0 ? { ...b, x: placement.x, y: placement.y } : b);
+              setPlacingBall(false);
+              playSound.click();
+          } else if (shot) {
+              setCalledPocket(botCall);
+              takeShot(shot, { calledPocket: botCall, pushOut: false, kitchen });
+          }
+      };
+
+      setBotThinking(true);
+      const request: BilliardsBotRequest = {
+          id,
+          balls: ballsRef.current,
+          mode,
+          table,
+          rack,
+          turn,
+          placing: placingBall,
+          kitchen,
+          levelId: botLevel.id,
+          seed: Math.floor(Math.random() * 0x7fffffff)
+      };
+      worker.postMessage(request);
   };
 
+  // Let the table settle for a moment, then have the bot play whenever it is its turn
+  useEffect(() => {
+      if (gameState !== 'PLAYING' || !isBotTurn || isMoving || replay) return;
+      const timer = setTimeout(requestBotTurn, 600);
+      return () => {
+          clearTimeout(timer);
+          botRequestIdRef.current++;
+          setBotThinking(false);
+      };
+  }, [gameState, isBotTurn, isMoving, placingBall, !!replay]);
+
   // --- Rendering & Loop ---
   const render = useCallback(() => {
       const canvas = canvasRef.current;
@@ -451,16 +585,19 @@ export const Billiards: React.FC<Props> = ({ user, onGameEnd, player2, onOpenP2L
       const ctx = canvas.getContext('2d');
       if (!ctx) return;
       
-      // Use ballsRef directly for rendering to avoid React state lag
-      const balls = ballsRef.current;
+      // Use ballsRef directly for rendering to avoid React state lag; a replay shows the recorded frame instead
+      const replayFrame = replay && lastShot ? Math.min(Math.floor(replay.frame), lastShot.result.frames.length - 1) : null;
+      const balls = replayFrame !== null && lastShot
+          ? lastShot.before.map((b, i) => ({ ...b, ...lastShot.result.frames[replayFrame][i] }))
+          : ballsRef.current;
 
       // Reset transform
       ctx.setTransform(1, 0, 0, 1, 0, 0);
       
       // Calculate Scale
-      const scale = Math.min(canvas.width / TABLE_WIDTH, canvas.height / TABLE_HEIGHT);
-      const offsetX = (canvas.width - TABLE_WIDTH * scale) / 2;
-      const offsetY = (canvas.height - TABLE_HEIGHT * scale) / 2;
+      const scale = Math.min(canvas.width / table.width, canvas.height / table.height);
+      const offsetX = (canvas.width - table.width * scale) / 2;
+      const offsetY = (canvas.height - table.height * scale) / 2;
 
       // Draw Table Felt
       ctx.fillStyle = '#15803d'; // Green felt
@@ -473,23 +610,96 @@ export const Billiards: React.FC<Props> = ({ user, onGameEnd, player2, onOpenP2L
       // Draw Rails
       ctx.strokeStyle = '#3f2c22'; // Dark wood
       ctx.lineWidth = 20;
-      ctx.strokeRect(-10, -10, TABLE_WIDTH + 20, TABLE_HEIGHT + 20);
+      ctx.strokeRect(-10, -10, table.width + 20, table.height + 20);
 
-      // Draw Pockets
+      // Draw Pockets: the opening between the jaws and the hole behind the shelf
       ctx.fillStyle = '#111';
-      POCKETS.forEach(p => {
+      table.pockets.forEach(p => {
+          const [first, second] = p.jaws;
+          const hole = pocketHole(p);
+          ctx.beginPath();
+          ctx.moveTo(first.a.x, first.a.y);
+          ctx.lineTo(first.b.x, first.b.y);
+          ctx.lineTo(second.b.x, second.b.y);
+          ctx.lineTo(second.a.x, second.a.y);
+          ctx.fill();
           ctx.beginPath();
-          ctx.arc(p.x, p.y, POCKET_RADIUS, 0, Math.PI * 2);
+          ctx.arc(hole.x, hole.y, p.radius, 0, Math.PI * 2);
           ctx.fill();
       });
 
+      // Cushion rubber along the rails and the pocket jaws
+      ctx.strokeStyle = '#166534';
+      ctx.lineWidth = 3;
+      ctx.beginPath();
+      [...table.cushions, ...table.pockets.flatMap(p => p.jaws)].forEach(c => {
+          ctx.moveTo(c.a.x, c.a.y);
+          ctx.lineTo(c.b.x, c.b.y);
+      });
+      ctx.stroke();
+
+      // The pocket called for the 8
+      if (calledPocket !== null && !replay) {
+          const p = table.pockets[calledPocket];
+          const hole = pocketHole(p);
+          ctx.beginPath();
+          ctx.arc(hole.x, hole.y, p.radius + 3, 0, Math.PI * 2);
+          ctx.strokeStyle = '#facc15';
+          ctx.lineWidth = 3;
+          ctx.stroke();
+      }
+
+      // Snooker markings: baulk line, the D and the colour spots
+      if (mode === 'SNOOKER') {
+          ctx.strokeStyle = 'rgba(255, 255, 255, 0.4)';
+          ctx.lineWidth = 1;
+          ctx.beginPath();
+          ctx.moveTo(SNOOKER_BAULK_X, 0);
+          ctx.lineTo(SNOOKER_BAULK_X, table.height);
+          ctx.stroke();
+          ctx.beginPath();
+          ctx.arc(SNOOKER_BAULK_X, table.height / 2, SNOOKER_D_RADIUS, Math.PI / 2, Math.PI * 1.5);
+          ctx.stroke();
+          ctx.fillStyle = 'rgba(255, 255, 255, 0.4)';
+          Object.values(SNOOKER_SPOTS).forEach(spot => {
+              ctx.beginPath();
+              ctx.arc(spot.x, spot.y, 1.5, 0, Math.PI * 2);
+              ctx.fill();
+          });
+      }
+
+      // Replay: the cue ball's path so far and where it first touched a ball
+      if (replayFrame !== null && lastShot) {
+          const { frames, events } = lastShot.result;
+          const cueIndex = lastShot.before.findIndex(b => b.id === 0);
+          ctx.beginPath();
+          frames.slice(0, replayFrame + 1).forEach((f, i) => {
+              if (i === 0) ctx.moveTo(f[cueIndex].x, f[cueIndex].y);
+              else if (f[cueIndex].active) ctx.lineTo(f[cueIndex].x, f[cueIndex].y);
+          });
+          ctx.strokeStyle = 'rgba(255, 255, 255, 0.35)';
+          ctx.lineWidth = 2;
+          ctx.stroke();
+
+          const firstHit = events.find(e => e.kind === 'HIT' && (e.a === 0 || e.b === 0));
+          if (firstHit && firstHit.frame <= replayFrame) {
+              const at = frames[firstHit.frame][cueIndex];
+              ctx.beginPath();
+              ctx.arc(at.x, at.y, table.ballRadius + 3, 0, Math.PI * 2);
+              ctx.strokeStyle = '#facc15';
+              ctx.setLineDash([3, 3]);
+              ctx.stroke();
+              ctx.setLineDash([]);
+          }
+      }
+
       // Draw Balls
       balls.forEach(b => {
           if (!b.active) return;
           
           ctx.beginPath();
-          ctx.arc(b.x, b.y, BALL_RADIUS, 0, Math.PI * 2);
-          ctx.fillStyle = BALL_COLORS[b.id];
+          ctx.arc(b.x, b.y, table.ballRadius, 0, Math.PI * 2);
+          ctx.fillStyle = mode === 'SNOOKER' ? SNOOKER_COLORS[b.id] : BALL_COLORS[b.id];
           ctx.fill();
           
           // Glossy Shine
@@ -498,10 +708,13 @@ export const Billiards: React.FC<Props> = ({ user, onGameEnd, player2, onOpenP2L
           ctx.fillStyle = 'rgba(255,255,255,0.3)';
           ctx.fill();
 
+          // Snooker balls are plain
+          if (mode === 'SNOOKER') return;
+
           // Stripes for striped balls
           if (b.id > 8) {
               ctx.beginPath();
-              ctx.arc(b.x, b.y, BALL_RADIUS * 0.7, 0, Math.PI * 2);
+              ctx.arc(b.x, b.y, table.ballRadius * 0.7, 0, Math.PI * 2);
               ctx.fillStyle = '#fff';
               ctx.fill();
           }
@@ -521,10 +734,68 @@ export const Billiards: React.FC<Props> = ({ user, onGameEnd, player2, onOpenP2L
           }
       });
 
+      // Practice editor: the selected ball
+      if (editing && selectedBallId !== null && !replay) {
+          const selected = balls.find(b => b.active && b.id === selectedBallId);
+          if (selected) {
+              ctx.beginPath();
+              ctx.arc(selected.x, selected.y, table.ballRadius + 4, 0, Math.PI * 2);
+              ctx.strokeStyle = '#22d3ee';
+              ctx.lineWidth = 2;
+              ctx.setLineDash([3, 3]);
+              ctx.stroke();
+              ctx.setLineDash([]);
+          }
+      }
+
       // Drag Line
       // We read state for drag because it updates on interaction, not frame
-      if (dragStart && currentDrag) {
+      if (dragStart && currentDrag && !replay) {
           const cue = balls.find(b => b.id === 0);
+          const pullX = dragStart.x - currentDrag.x; const pullY = dragStart.y - currentDrag.y;
+          const prediction = aimAssist.id !== 'NONE' && (pullX !== 0 || pullY !== 0)
+              ? predictAim(balls, Math.atan2(pullY, pullX), tip.y, table)
+              : null;
+          if (prediction && cue) {
+              ctx.strokeStyle = 'rgba(255, 255, 255, 0.5)';
+              ctx.lineWidth = 1;
+              ctx.beginPath();
+              ctx.moveTo(cue.x, cue.y);
+              ctx.lineTo(prediction.contact.x, prediction.contact.y);
+              ctx.stroke();
+
+              // Ghost ball at first contact
+              ctx.beginPath();
+              ctx.arc(prediction.contact.x, prediction.contact.y, table.ballRadius, 0, Math.PI * 2);
+              ctx.strokeStyle = 'rgba(255, 255, 255, 0.8)';
+              ctx.setLineDash([2, 2]);
+              ctx.stroke();
+              ctx.setLineDash([]);
+
+              // Object ball direction: a short stub for partial assist, the run to the cushion for full
+              if (prediction.objectPath.length === 2) {
+                  const [from, to] = prediction.objectPath;
+                  const runX = to.x - from.x; const runY = to.y - from.y;
+                  const run = Math.sqrt(runX * runX + runY * runY);
+                  const shown = aimAssist.id === 'FULL' ? 1 : Math.min(1, 40 / Math.max(run, 1));
+                  ctx.beginPath();
+                  ctx.moveTo(from.x, from.y);
+                  ctx.lineTo(from.x + runX * shown, from.y + runY * shown);
+                  ctx.strokeStyle = '#facc15';
+                  ctx.lineWidth = 2;
+                  ctx.stroke();
+              }
+
+              if (aimAssist.id === 'FULL' && prediction.cuePath.length > 1) {
+                  ctx.beginPath();
+                  prediction.cuePath.forEach((p, i) => i === 0 ? ctx.moveTo(p.x, p.y) : ctx.lineTo(p.x, p.y));
+                  ctx.strokeStyle = 'rgba(125, 211, 252, 0.7)';
+                  ctx.lineWidth = 1.5;
+                  ctx.setLineDash([4, 4]);
+                  ctx.stroke();
+                  ctx.setLineDash([]);
+              }
+          }
           if (cue && cue.active) {
               ctx.beginPath();
               ctx.moveTo(cue.x, cue.y);
@@ -538,20 +809,30 @@ export const Billiards: React.FC<Props> = ({ user, onGameEnd, player2, onOpenP2L
       }
       
       // Highlight placing area
-      if (placingBall) {
+      if (placingBall && kitchen && !replay) {
+          ctx.fillStyle = 'rgba(255, 255, 255, 0.06)';
+          ctx.fillRect(0, 0, HEAD_STRING_X, table.height);
+          ctx.strokeStyle = 'rgba(255, 255, 255, 0.4)';
+          ctx.lineWidth = 1;
+          ctx.beginPath();
+          ctx.moveTo(HEAD_STRING_X, 0);
+          ctx.lineTo(HEAD_STRING_X, table.height);
+          ctx.stroke();
+      }
+      if (placingBall && !replay) {
           ctx.strokeStyle = validPlacement ? '#4ade80' : '#ef4444';
           ctx.lineWidth = 2;
           ctx.beginPath();
           const cue = balls.find(b => b.id === 0);
           if (cue) {
-             ctx.arc(cue.x, cue.y, BALL_RADIUS + 4, 0, Math.PI * 2);
+             ctx.arc(cue.x, cue.y, table.ballRadius + 4, 0, Math.PI * 2);
              ctx.stroke();
           }
       }
-  }, [dragStart, currentDrag, placingBall, validPlacement, power]);
+  }, [dragStart, currentDrag, placingBall, validPlacement, power, replay, lastShot, mode, aimAssist, tip, calledPocket, kitchen, editing, selectedBallId, table]);
 
   const loop = useCallback(() => {
-      updatePhysics();
+      updatePlayback();
       render();
       requestRef.current = requestAnimationFrame(loop);
   }, [render]); // Loop depends on render
@@ -562,6 +843,33 @@ export const Billiards: React.FC<Props> = ({ user, onGameEnd, player2, onOpenP2L
       return () => cancelAnimationFrame(requestRef.current);
   }, [loop]);
 
+  // Advance a playing replay at its speed; it pauses on the last frame
+  useEffect(() => {
+      if (!replay?.playing || !lastShot) return;
+      const lastFrame = lastShot.result.frames.length - 1;
+      let prev = Date.now();
+      const timer = setInterval(() => {
+          const now = Date.now();
+          const advance = (now - prev) / FRAME_MS * replay.speed;
+          prev = now;
+          setReplay(r => {
+              if (!r) return r;
+              const frame = Math.min(lastFrame, r.frame + advance);
+              return { ...r, frame, playing: frame < lastFrame };
+          });
+      }, FRAME_MS);
+      return () => clearInterval(timer);
+  }, [replay?.playing, replay?.speed, lastShot]);
+
+  const startReplay = () => {
+      setDragStart(null);
+      setCurrentDrag(null);
+      setReplay({ frame: 0, speed: 1, playing: true });
+      playSound.click();
+  };
+
+  const replayFirstHit = lastShot?.result.firstHitId;
+
   // Input Handling
   const getTablePos = (clientX: number, clientY: number) => {
       const canvas = canvasRef.current;
@@ -569,9 +877,9 @@ export const Billiards: React.FC<Props> = ({ user, onGameEnd, player2, onOpenP2L
       const rect = canvas.getBoundingClientRect();
       const scaleX = canvas.width / rect.width;
       const scaleY = canvas.height / rect.height;
-      const scale = Math.min(canvas.width / TABLE_WIDTH, canvas.height / TABLE_HEIGHT);
-      const offsetX = (canvas.width - TABLE_WIDTH * scale) / 2;
-      const offsetY = (canvas.height - TABLE_HEIGHT * scale) / 2;
+      const scale = Math.min(canvas.width / table.width, canvas.height / table.height);
+      const offsetX = (canvas.width - table.width * scale) / 2;
+      const offsetY = (canvas.height - table.height * scale) / 2;
 
       const rawX = (clientX - rect.left) * scaleX;
       const rawY = (clientY - rect.top) * scaleY;
@@ -582,26 +890,46 @@ export const Billiards: React.FC<Props> = ({ user, onGameEnd, player2, onOpenP2L
       };
   };
 
+  // Ball in hand goes anywhere free; in snooker only inside the D (except in practice), after a break scratch only behind the head string
+  const canPlaceCue = (balls: Ball[], x: number, y: number) =>
+      isValidPlacement(balls, 0, x, y, table) && (mode !== 'SNOOKER' || gameState === 'PRACTICE' || isInSnookerD(x, y)) && (!kitchen || x <= HEAD_STRING_X);
+
+  // Practice editor: grab the ball under the pointer, or put down the ball picked from the tray
+  const editTableAt = (pos: { x: number, y: number }) => {
+      const balls = ballsRef.current;
+      const hit = balls.find(b => b.active && (b.x - pos.x) ** 2 + (b.y - pos.y) ** 2 <= (table.ballRadius * 1.2) ** 2);
+      if (hit) {
+          setSelectedBallId(hit.id);
+          setDraggingBallId(hit.id);
+          return;
+      }
+      if (selectedBallId !== null && !balls.some(b => b.active && b.id === selectedBallId)) {
+          if (!isValidPlacement(balls, selectedBallId, pos.x, pos.y, table)) {
+              playSound.wrong();
+              return;
+          }
+          ballsRef.current = [...balls.filter(b => b.id !== selectedBallId), createDrillBall(mode, selectedBallId, pos.x, pos.y)];
+          playSound.click();
+      }
+      setSelectedBallId(null);
+  };
+
+  const needsCall = gameState === 'PLAYING' && mustCallPocket(mode, ballsRef.current, rack, turn);
+
   const handleMouseDown = (e: React.MouseEvent | React.TouchEvent) => {
-      if (isMoving || gameState !== 'PLAYING') return;
+      if (isMoving || replay || isBotTurn || (gameState !== 'PLAYING' && gameState !== 'PRACTICE')) return;
       const clientX = 'touches' in e ? e.touches[0].clientX : e.clientX;
       const clientY = 'touches' in e ? e.touches[0].clientY : e.clientY;
       const pos = getTablePos(clientX, clientY);
 
+      if (editing) {
+          editTableAt(pos);
+          return;
+      }
+
       if (placingBall) {
-          // Check placement validity
-          let valid = true;
-          // Check bounds
-          if (pos.x < BALL_RADIUS || pos.x > TABLE_WIDTH - BALL_RADIUS || pos.y < BALL_RADIUS || pos.y > TABLE_HEIGHT - BALL_RADIUS) valid = false;
-          // Check overlaps
           const balls = ballsRef.current;
-          for (let b of balls) {
-              if (b.id !== 0 && b.active) {
-                  const dx = b.x - pos.x; const dy = b.y - pos.y;
-                  if (dx*dx + dy*dy < (BALL_RADIUS*2)**2) valid = false;
-              }
-          }
-          if (valid) {
+          if (canPlaceCue(balls, pos.x, pos.y)) {
               const cue = balls.find(b => b.id === 0);
               if (cue) {
                   cue.x = pos.x; cue.y = pos.y;
@@ -614,28 +942,47 @@ export const Billiards: React.FC<Props> = ({ user, onGameEnd, player2, onOpenP2L
           return;
       }
 
+      // On the 8, a click on a pocket calls it; there is no shot until one is called
+      if (needsCall) {
+          const pocket = table.pockets.findIndex(p => {
+              const hole = pocketHole(p);
+              return (hole.x - pos.x) ** 2 + (hole.y - pos.y) ** 2 < (p.radius * 1.8) ** 2;
+          });
+          if (pocket !== -1) {
+              setCalledPocket(pocket);
+              playSound.click();
+              return;
+          }
+          if (calledPocket === null) {
+              playSound.wrong();
+              return;
+          }
+      }
+
       setDragStart(pos);
       setCurrentDrag(pos);
       setPower(0);
   };
 
   const handleMouseMove = (e: React.MouseEvent | React.TouchEvent) => {
-    if (placingBall) {
+    if (replay || isBotTurn) return;
+    if (draggingBallId !== null) {
+        const clientX = 'touches' in e ? e.touches[0].clientX : e.clientX;
+        const clientY = 'touches' in e ? e.touches[0].clientY : e.clientY;
+        const pos = getTablePos(clientX, clientY);
+        // A dragged ball only follows to free spots, so it never ends up overlapping another
+        if (isValidPlacement(ballsRef.current, draggingBallId, pos.x, pos.y, table)) {
+            ballsRef.current = ballsRef.current.map(b => b.id === draggingBallId ? { ...b, x: pos.x, y: pos.y } : b);
+        }
+        return;
+    }
+    if (placingBall && !editing) {
         const clientX = 'touches' in e ? e.touches[0].clientX : e.clientX;
         const clientY = 'touches' in e ? e.touches[0].clientY : e.clientY;
         const pos = getTablePos(clientX, clientY);
         const balls = ballsRef.current;
         const cue = balls.find(b => b.id === 0);
-        
-        let valid = true;
-        if (pos.x < BALL_RADIUS || pos.x > TABLE_WIDTH - BALL_RADIUS || pos.y < BALL_RADIUS || pos.y > TABLE_HEIGHT - BALL_RADIUS) valid = false;
-        for (let b of balls) {
-              if (b.id !== 0 && b.active) {
-                  const dx = b.x - pos.x; const dy = b.y - pos.y;
-                  if (dx*dx + dy*dy < (BALL_RADIUS*2)**2) valid = false;
-              }
-        }
-        setValidPlacement(valid);
+        setValidPlacement(canPlaceCue(balls, pos.x, pos.y));
         
         if (cue) {
              cue.x = pos.x; cue.y = pos.y;
@@ -656,6 +1003,10 @@ export const Billiards: React.FC<Props> = ({ user, onGameEnd, player2, onOpenP2L
   };
 
   const handleMouseUp = () => {
+    if (draggingBallId !== null) {
+        setDraggingBallId(null);
+        return;
+    }
     if (placingBall) return;
     if (!dragStart || !currentDrag) return;
 
@@ -666,14 +1017,7 @@ export const Billiards: React.FC<Props> = ({ user, onGameEnd, player2, onOpenP2L
     if (dist > 5) { // Minimum pull
         const p = Math.min(dist * 0.25, MAX_POWER);
         const angle = Math.atan2(dy, dx);
-        
-        const balls = ballsRef.current;
-        const cue = balls.find(b => b.id === 0);
-        if (cue) {
-            cue.vx = Math.cos(angle) * p;
-            cue.vy = Math.sin(angle) * p;
-            playSound.billiardShot(p);
-        }
+        takeShot({ angle, power: p, tipX: tip.x, tipY: tip.y }, { calledPocket, pushOut: pushOutDeclared && rack.pushOutAvailable, kitchen });
     }
     
     setDragStart(null);
@@ -681,6 +1025,22 @@ export const Billiards: React.FC<Props> = ({ user, onGameEnd, player2, onOpenP2L
     setPower(0);
   };
 
+  const handleTipSelect = (e: React.MouseEvent<HTMLDivElement>) => {
+      const rect = e.currentTarget.getBoundingClientRect();
+      let x = ((e.clientX - rect.left) / rect.width) * 2 - 1;
+      let y = 1 - ((e.clientY - rect.top) / rect.height) * 2;
+      const len = Math.sqrt(x * x + y * y);
+      if (len > 1) { x /= len; y /= len; }
+      // Snap near the centre so a plain centre-ball hit is easy to pick
+      setTip(len < 0.15 ? { x: 0, y: 0 } : { x, y });
+      playSound.click();
+  };
+
+  const tipLabel = [
+      tip.y > 0.15 ? '高杆' : tip.y < -0.15 ? '低杆' : '',
+      tip.x > 0.15 ? '右塞' : tip.x < -0.15 ? '左塞' : ''
+  ].filter(Boolean).join(' · ') || '中杆';
+
   // --- High DPI ---
   useEffect(() => {
      const canvas = canvasRef.current;
@@ -710,9 +1070,66 @@ export const Billiards: React.FC<Props> = ({ user, onGameEnd, player2, onOpenP2L
                        <button onClick={() => setMode('9BALL')} className={`flex-1 py-2 rounded-lg border transition-all ${mode === '9BALL' ? 'bg-orange-600 border-orange-400 text-white' : 'bg-slate-800 border-slate-600 text-slate-400'}`}>
                            9️⃣ 九球
                        </button>
+                       <button onClick={() => { setMode('SNOOKER'); setGameMode('PVP'); }} className={`flex-1 py-2 rounded-lg border transition-all ${mode === 'SNOOKER' ? 'bg-rose-700 border-rose-500 text-white' : 'bg-slate-800 border-slate-600 text-slate-400'}`}>
+                           🔴 斯诺克
+                       </button>
                    </div>
+                   {mode === 'SNOOKER' && (
+                       <p className="text-[10px] text-slate-500 mt-2">12尺大台，15红6彩，红彩交替，犯规罚分，含自由球与复位重打规则。按单局得分决定胜负。</p>
+                   )}
                </div>
                
+               <div className="mb-4">
+                   <label className="block text-xs text-slate-500 mb-2">对战模式</label>
+                   <div className="flex gap-4">
+                       <button onClick={() => setGameMode('PVE')} disabled={mode === 'SNOOKER'} className={`flex-1 py-2 rounded-lg border transition-all disabled:opacity-40 ${gameMode === 'PVE' ? 'bg-cyan-600 border-cyan-400 text-white' : 'bg-slate-800 border-slate-600 text-slate-400'}`}>
+                           👤 人机对战
+                       </button>
+                       <button onClick={() => setGameMode('PVP')} className={`flex-1 py-2 rounded-lg border transition-all ${gameMode === 'PVP' ? 'bg-cyan-600 border-cyan-400 text-white' : 'bg-slate-800 border-slate-600 text-slate-400'}`}>
+                           👥 双人对战
+                       </button>
+                   </div>
+               </div>
+
+               <div className="mb-4">
+                   <label className="block text-xs text-slate-500 mb-1">球台规格</label>
+                   {mode === 'SNOOKER' ? (
+                       <div className="py-1 text-xs text-slate-400">12尺斯诺克球台</div>
+                   ) : (
+                       <div className="flex gap-2">
+                           {TABLE_SIZES.map(size => (
+                               <button
+                                key={size.id}
+                                onClick={() => setMatchConfig({...matchConfig, tableSize: size.id})}
+                                className={`flex-1 py-1 rounded border text-xs ${matchConfig.tableSize === size.id ? 'bg-indigo-600 border-indigo-400 text-white' : 'bg-slate-800 border-slate-600 text-slate-400'}`}
+                               >
+                                   {size.name}
+                               </button>
+                           ))}
+                       </div>
+                   )}
+                   {mode !== 'SNOOKER' && matchConfig.tableSize === '9FT' && (
+                       <p className="text-[10px] text-slate-500 mt-1">球台更长、袋口更窄，袋角处的球容易在袋口弹出。</p>
+                   )}
+               </div>
+
+               {gameMode === 'PVE' && (
+                   <div className="mb-4">
+                       <label className="block text-xs text-slate-500 mb-1">电脑难度 (积分 x倍率)</label>
+                       <div className="flex gap-2">
+                           {BILLIARDS_BOT_LEVELS.map(level => (
+                               <button
+                                key={level.id}
+                                onClick={() => setBotLevelId(level.id)}
+                                className={`flex-1 py-1 rounded border text-xs ${botLevelId === level.id ? 'bg-cyan-600 border-cyan-400 text-white' : 'bg-slate-800 border-slate-600 text-slate-400'}`}
+                               >
+                                   {level.name} x{level.pointsMultiplier}
+                               </button>
+                           ))}
+                       </div>
+                   </div>
+               )}
+
                <div className="mb-4">
                    <label className="block text-xs text-slate-500 mb-1">总局数 (奇数)</label>
                    <div className="flex gap-2">
@@ -728,6 +1145,21 @@ export const Billiards: React.FC<Props> = ({ user, onGameEnd, player2, onOpenP2L
                    </div>
                </div>
 
+               <div className="mb-4">
+                   <label className="block text-xs text-slate-500 mb-1">瞄准辅助 (计入比赛标签)</label>
+                   <div className="flex gap-2">
+                       {AIM_ASSISTS.map(assist => (
+                           <button
+                            key={assist.id}
+                            onClick={() => setMatchConfig({...matchConfig, aimAssist: assist.id})}
+                            className={`flex-1 py-1 rounded border ${matchConfig.aimAssist === assist.id ? 'bg-indigo-600 border-indigo-400 text-white' : 'bg-slate-800 border-slate-600 text-slate-400'}`}
+                           >
+                               {assist.name}
+                           </button>
+                       ))}
+                   </div>
+               </div>
+
                <div>
                    <label className="block text-xs text-slate-500 mb-1">押注积分</label>
                    <input 
@@ -743,15 +1175,18 @@ export const Billiards: React.FC<Props> = ({ user, onGameEnd, player2, onOpenP2L
                <div className="pt-2 border-t border-white/5 mt-4">
                     <div className="flex justify-between items-center text-xs">
                         <span className="text-slate-400">对手 (P2)</span>
-                        <span className={`font-bold ${player2 ? 'text-white' : 'text-slate-500'}`}>
-                            {player2 ? player2.username : (user.username === '测试玩家' ? '测试路人' : '未登录')}
+                        <span className={`font-bold ${player2 || gameMode === 'PVE' ? 'text-white' : 'text-slate-500'}`}>
+                            {gameMode === 'PVE' ? `🤖 ${opponentName}` : (player2 ? player2.username : (user.username === '测试玩家' ? '测试路人' : '未登录'))}
                         </span>
                     </div>
                 </div>
            </div>
 
           <Button onClick={() => startMatch(mode)} className="w-full py-3 text-lg bg-cyan-600 hover:bg-cyan-500">
-              {user.username !== '测试玩家' && !player2 ? '登录 2P 并开始' : '开始比赛'}
+              {gameMode === 'PVP' && user.username !== '测试玩家' && !player2 ? '登录 2P 并开始' : '开始比赛'}
+          </Button>
+          <Button onClick={startPractice} variant="secondary" className="w-full mt-2 py-2">
+              🎯 练习模式 (自由摆球 · 球型训练)
           </Button>
         </div>
       </div>
@@ -762,49 +1197,140 @@ export const Billiards: React.FC<Props> = ({ user, onGameEnd, player2, onOpenP2L
     <div className="flex flex-col items-center justify-center h-full w-full p-2 overflow-hidden select-none">
        {/* Game Header */}
        <div className="w-full max-w-2xl mb-2 flex justify-between items-end px-2">
-          <div className="flex items-center gap-4">
-             <div className={`flex flex-col items-center ${turn === 1 ? 'scale-110 opacity-100' : 'opacity-60'}`}>
-                 <div className="relative">
-                    <div className="w-8 h-8 rounded-full bg-indigo-600 border border-white/20 overflow-hidden mb-1">
-                        {user.avatar?.startsWith('data:') ? <img src={user.avatar} className="w-full h-full object-cover"/> : (user.avatar || '👤')}
-                    </div>
-                    <StreakIndicator streak={user.stats?.[GameType.BILLIARDS]?.streak || 0} className="absolute -top-3 -right-3 scale-50" />
-                 </div>
-                 <div className="flex items-center gap-1">
-                     <span className="text-xs font-bold text-slate-300">P1</span>
-                     <span className="text-lg font-black text-white">{matchScore.p1}</span>
-                 </div>
-                 {mode === '8BALL' && playerGroups[1] && (
-                     <span className={`text-[10px] px-1 rounded ${playerGroups[1] === 'SOLIDS' ? 'bg-red-500 text-white' : 'bg-white text-black'}`}>
-                         {playerGroups[1] === 'SOLIDS' ? '全色' : '花色'}
-                     </span>
-                 )}
+          {gameState === 'PRACTICE' ? (
+            <div className="flex flex-col">
+                <span className="text-[10px] text-slate-500">练习模式</span>
+                <span className="text-lg font-bold text-white">{drill?.name}</span>
+                {drill?.description && <span className="text-[10px] text-slate-400">{drill.description}</span>}
+            </div>
+          ) : (
+            <div className="flex items-center gap-4">
+               <div className={`flex flex-col items-center ${turn === 1 ? 'scale-110 opacity-100' : 'opacity-60'}`}>
+                   <div className="relative">
+                      <div className="w-8 h-8 rounded-full bg-indigo-600 border border-white/20 overflow-hidden mb-1">
+                          {user.avatar?.startsWith('data:') ? <img src={user.avatar} className="w-full h-full object-cover"/> : (user.avatar || '👤')}
+                      </div>
+                      <StreakIndicator streak={user.stats?.[GameType.BILLIARDS]?.streak || 0} className="absolute -top-3 -right-3 scale-50" />
+                   </div>
+                   <div className="flex items-center gap-1">
+                       <span className="text-xs font-bold text-slate-300">P1</span>
+                       <span className="text-lg font-black text-white">{matchScore.p1}</span>
+                   </div>
+                   {mode === 'SNOOKER' && (
+                       <span className="text-[10px] px-1 rounded bg-rose-700 text-white font-mono">{snooker.scores[1]}分</span>
+                   )}
+                   {mode !== 'SNOOKER' && rack.fouls[1] > 0 && (
+                       <span className={`text-[10px] font-bold ${rack.fouls[1] >= FOULS_TO_LOSE - 1 ? 'text-red-400 animate-pulse' : 'text-red-300'}`}>犯规×{rack.fouls[1]}</span>
+                   )}
+                   {mode === '8BALL' && playerGroups[1] && (
+                       <span className={`text-[10px] px-1 rounded ${playerGroups[1] === 'SOLIDS' ? 'bg-red-500 text-white' : 'bg-white text-black'}`}>
+                           {playerGroups[1] === 'SOLIDS' ? '全色' : '花色'}
+                       </span>
+                   )}
+               </div>
+               <div className="text-xs font-bold text-slate-500 pb-2">VS</div>
+               <div className={`flex flex-col items-center ${turn === 2 ? 'scale-110 opacity-100' : 'opacity-60'}`}>
+                   <div className="w-8 h-8 rounded-full bg-slate-700 border border-white/20 flex items-center justify-center mb-1 overflow-hidden">
+                      {opponentAvatar.startsWith('data:') ? <img src={opponentAvatar} className="w-full h-full object-cover"/> : opponentAvatar}
+                   </div>
+                   <div className="flex items-center gap-1">
+                       <span className="text-xs font-bold text-slate-300">P2</span>
+                       <span className="text-lg font-black text-white">{matchScore.p2}</span>
+                   </div>
+                   {mode === 'SNOOKER' && (
+                       <span className="text-[10px] px-1 rounded bg-rose-700 text-white font-mono">{snooker.scores[2]}分</span>
+                   )}
+                   {mode !== 'SNOOKER' && rack.fouls[2] > 0 && (
+                       <span className={`text-[10px] font-bold ${rack.fouls[2] >= FOULS_TO_LOSE - 1 ? 'text-red-400 animate-pulse' : 'text-red-300'}`}>犯规×{rack.fouls[2]}</span>
+                   )}
+                   {mode === '8BALL' && playerGroups[2] && (
+                       <span className={`text-[10px] px-1 rounded ${playerGroups[2] === 'SOLIDS' ? 'bg-red-500 text-white' : 'bg-white text-black'}`}>
+                           {playerGroups[2] === 'SOLIDS' ? '全色' : '花色'}
+                       </span>
+                   )}
+               </div>
+            </div>
+          )}
+
+          <div className="flex items-center gap-2" title="点击母球选择击球点">
+             <div
+               onClick={handleTipSelect}
+               className="relative w-10 h-10 rounded-full bg-slate-100 border-2 border-slate-400 cursor-pointer shadow-inner"
+             >
+                 <div className="absolute left-1/2 top-0 bottom-0 border-l border-slate-300 pointer-events-none" />
+                 <div className="absolute top-1/2 left-0 right-0 border-t border-slate-300 pointer-events-none" />
+                 <div
+                   className="absolute w-2.5 h-2.5 rounded-full bg-red-600 -translate-x-1/2 -translate-y-1/2 pointer-events-none"
+                   style={{ left: `${50 + tip.x * 40}%`, top: `${50 - tip.y * 40}%` }}
+                 />
              </div>
-             <div className="text-xs font-bold text-slate-500 pb-2">VS</div>
-             <div className={`flex flex-col items-center ${turn === 2 ? 'scale-110 opacity-100' : 'opacity-60'}`}>
-                 <div className="w-8 h-8 rounded-full bg-slate-700 border border-white/20 flex items-center justify-center mb-1 overflow-hidden">
-                    {player2?.avatar?.startsWith('data:') ? <img src={player2.avatar} className="w-full h-full object-cover"/> : (player2?.avatar || '👤')}
-                 </div>
-                 <div className="flex items-center gap-1">
-                     <span className="text-xs font-bold text-slate-300">P2</span>
-                     <span className="text-lg font-black text-white">{matchScore.p2}</span>
-                 </div>
-                 {mode === '8BALL' && playerGroups[2] && (
-                     <span className={`text-[10px] px-1 rounded ${playerGroups[2] === 'SOLIDS' ? 'bg-red-500 text-white' : 'bg-white text-black'}`}>
-                         {playerGroups[2] === 'SOLIDS' ? '全色' : '花色'}
-                     </span>
-                 )}
+             <div className="flex flex-col items-start">
+                 <span className="text-[10px] text-slate-500">杆法</span>
+                 <span className="text-xs font-bold text-cyan-400">{tipLabel}</span>
              </div>
           </div>
-          
+
           <div className="flex flex-col items-end">
              {foulMessage && (
                  <div className="text-red-400 font-bold text-sm animate-bounce mb-1">{foulMessage}</div>
              )}
-             {placingBall && (
-                 <div className="text-green-400 font-bold text-xs animate-pulse mb-1">自由球：点击放置母球</div>
+             {isBotTurn && botThinking && (
+                 <div className="text-cyan-400 font-bold text-xs animate-pulse mb-1">电脑思考中...</div>
+             )}
+             {gameState === 'PRACTICE' && practiceNote && (
+                 <div className="text-cyan-300 font-bold text-xs mb-1">{practiceNote}</div>
+             )}
+             {placingBall && !isBotTurn && !editing && (
+                 <div className="text-green-400 font-bold text-xs animate-pulse mb-1">
+                     {mode === 'SNOOKER' && gameState !== 'PRACTICE' ? '母球手中：在D区内放置' : '自由球：点击放置母球'}
+                 </div>
+             )}
+             {mode === 'SNOOKER' && gameState !== 'PRACTICE' && (
+                 <div className="text-[10px] text-slate-400 mb-1">
+                     目标 <span className="font-bold text-white">{snookerOnLabel(snooker.on)}</span>
+                     {snooker.freeBall && <span className="ml-1 px-1 rounded bg-green-600 text-white font-bold">自由球</span>}
+                     <span className="ml-2">单杆 {snooker.breakScore}</span>
+                     <span className="ml-2">台面剩余 {snookerPointsRemaining(ballsRef.current, snooker.on)}</span>
+                 </div>
+             )}
+             {needsCall && !isBotTurn && !isMoving && (
+                 <div className={`font-bold text-xs mb-1 ${calledPocket === null ? 'text-yellow-400 animate-pulse' : 'text-yellow-200'}`}>
+                     {calledPocket === null ? '打黑8：先点击球袋指定落袋' : '已指定落袋 (点击其他球袋可更改)'}
+                 </div>
+             )}
+             {mode === '9BALL' && rack.pushOutAvailable && !isBotTurn && !isMoving && (
+                 <button
+                   onClick={() => { setPushOutDeclared(!pushOutDeclared); playSound.click(); }}
+                   className={`text-[10px] px-2 py-0.5 rounded border mb-1 ${pushOutDeclared ? 'bg-orange-600 border-orange-400 text-white' : 'bg-slate-800 border-slate-600 text-slate-400'}`}
+                 >
+                     {pushOutDeclared ? '✓ 本杆推杆 (Push-out)' : '声明推杆 (Push-out)'}
+                 </button>
+             )}
+             {pushOutBy && !isMoving && (
+                 <div className="flex items-center gap-1 mb-1 text-[10px]">
+                     <span className="text-orange-400 font-bold">对方推杆</span>
+                     <Button onClick={() => setPushOutBy(null)} variant="secondary" className="text-[10px] py-0.5 h-5">接受并击球</Button>
+                     <Button onClick={handBackAfterPushOut} variant="secondary" className="text-[10px] py-0.5 h-5">让对方击球</Button>
+                 </div>
+             )}
+             {missChoice && !isMoving && (
+                 <div className="flex items-center gap-1 mb-1 text-[10px]">
+                     <span className="text-yellow-400 font-bold">Miss</span>
+                     <Button onClick={replayMissedShot} variant="secondary" className="text-[10px] py-0.5 h-5">复位让对方重打</Button>
+                     <Button onClick={() => setMissChoice(null)} variant="secondary" className="text-[10px] py-0.5 h-5">继续击球</Button>
+                 </div>
              )}
-             <Button onClick={() => setGameState('SETUP')} variant="secondary" className="text-xs py-1 h-6">结束比赛</Button>
+             <div className="flex gap-2">
+                 <Button onClick={startReplay} variant="secondary" className="text-xs py-1 h-6" disabled={!lastShot || isMoving || !!replay}>🎬 回放</Button>
+                 {gameState === 'PRACTICE' ? (
+                     <>
+                         <Button onClick={resetDrill} variant="secondary" className="text-xs py-1 h-6" disabled={isMoving || !!replay}>↺ 重置</Button>
+                         <Button onClick={() => setGameState('SETUP')} variant="secondary" className="text-xs py-1 h-6">退出练习</Button>
+                     </>
+                 ) : (
+                     <Button onClick={() => setGameState('SETUP')} variant="secondary" className="text-xs py-1 h-6">结束比赛</Button>
+                 )}
+             </div>
           </div>
        </div>
 
@@ -821,11 +1347,49 @@ export const Billiards: React.FC<Props> = ({ user, onGameEnd, player2, onOpenP2L
                onTouchEnd={handleMouseUp}
            />
 
-           {gameState === 'ROUND_OVER' && (
+           {replay && lastShot && (
+             <div className="absolute bottom-0 left-0 right-0 z-40 bg-slate-900/80 backdrop-blur-sm px-3 py-2 flex items-center gap-2 text-xs">
+                 <span className="text-yellow-400 font-bold shrink-0">回放</span>
+                 <button
+                   onClick={() => setReplay({ ...replay, playing: !replay.playing, frame: replay.frame >= lastShot.result.frames.length - 1 ? 0 : replay.frame })}
+                   className="w-7 h-7 rounded bg-slate-700 hover:bg-slate-600 text-white shrink-0"
+                 >
+                     {replay.playing ? '⏸' : '▶'}
+                 </button>
+                 <input
+                   type="range"
+                   min={0}
+                   max={lastShot.result.frames.length - 1}
+                   value={Math.floor(replay.frame)}
+                   onChange={(e) => setReplay({ ...replay, frame: parseInt(e.target.value), playing: false })}
+                   className="flex-1 accent-cyan-500"
+                 />
+                 {[1, 0.5, 0.25].map(speed => (
+                     <button
+                       key={speed}
+                       onClick={() => setReplay({ ...replay, speed })}
+                       className={`px-1.5 py-1 rounded shrink-0 ${replay.speed === speed ? 'bg-cyan-600 text-white' : 'bg-slate-800 text-slate-400'}`}
+                     >
+                         {speed}x
+                     </button>
+                 ))}
+                 <span className="text-slate-300 shrink-0 hidden sm:inline">
+                     首碰: {replayFirstHit === null || replayFirstHit === undefined ? '无' : ballName(mode, replayFirstHit)}
+                     {lastShot.foul && <span className="text-red-400 ml-1">({lastShot.foul})</span>}
+                 </span>
+                 <button onClick={() => setReplay(null)} className="px-2 py-1 rounded bg-slate-700 hover:bg-slate-600 text-white shrink-0">退出</button>
+             </div>
+           )}
+
+           {gameState === 'ROUND_OVER' && !replay && (
              <div className="absolute inset-0 z-50 bg-slate-900/80 backdrop-blur-sm flex flex-col items-center justify-center text-center p-4 animate-fade-in">
                  <h3 className="text-2xl font-bold text-white mb-2">本局结束</h3>
-                 <p className="text-cyan-400 mb-6 font-bold text-lg">{winner === 'P1' ? user.username : (player2?.username || 'P2')} 获胜</p>
-                 <Button onClick={initRound} className="bg-cyan-600 hover:bg-cyan-500">下一局</Button>
+                 <p className={`text-cyan-400 font-bold text-lg ${roundReason ? 'mb-1' : 'mb-6'}`}>{winner === 'P1' ? user.username : opponentName} 获胜</p>
+                 {roundReason && <p className="text-slate-400 text-sm mb-6">({winner === 'P1' ? opponentName : user.username} {roundReason})</p>}
+                 <div className="flex gap-2">
+                     {lastShot && <Button variant="secondary" onClick={startReplay}>🎬 回放上一杆</Button>}
+                     <Button onClick={initRound} className="bg-cyan-600 hover:bg-cyan-500">下一局</Button>
+                 </div>
              </div>
            )}
 
@@ -834,7 +1398,7 @@ export const Billiards: React.FC<Props> = ({ user, onGameEnd, player2, onOpenP2L
                  <div className="text-6xl mb-4">🏆</div>
                  <h3 className="text-4xl font-bold text-yellow-400 mb-2">MATCH WINNER</h3>
                  <p className="text-white text-2xl font-bold mb-6">
-                    {matchWinner === 'P1' ? user.username : (player2?.username || 'P2')}
+                    {matchWinner === 'P1' ? user.username : opponentName}
                  </p>
                  <div className="flex gap-4">
                      <Button onClick={() => setGameState('SETUP')}>返回大厅</Button>
@@ -842,6 +1406,107 @@ export const Billiards: React.FC<Props> = ({ user, onGameEnd, player2, onOpenP2L
              </div>
            )}
        </div>
+
+       {/* Practice: drills, layout editor and sharing */}
+       {gameState === 'PRACTICE' && drill && (
+         <div className="w-full max-w-4xl mt-2 px-2 flex flex-col gap-1.5 text-[10px]">
+             <div className="flex flex-wrap items-center gap-1">
+                 <span className="text-slate-500 shrink-0 mr-1">练习布局</span>
+                 {BUILTIN_DRILLS.map(d => (
+                     <button
+                       key={d.name}
+                       onClick={() => loadDrill(d)}
+                       disabled={isMoving}
+                       title={d.description}
+                       className={`px-2 py-0.5 rounded border ${drill.name === d.name ? 'bg-cyan-600 border-cyan-400 text-white' : 'bg-slate-800 border-slate-600 text-slate-300'}`}
+                     >
+                         {d.name}
+                     </button>
+                 ))}
+                 {savedDrills.map(code => {
+                     const saved = decodeDrill(code);
+                     if (!saved) return null;
+                     return (
+                         <span key={code} className={`flex items-center rounded border ${drill.name === saved.name ? 'bg-indigo-600 border-indigo-400 text-white' : 'bg-slate-800 border-slate-600 text-slate-300'}`}>
+                             <button onClick={() => loadDrill(saved)} disabled={isMoving} className="pl-2 pr-1 py-0.5">{saved.name}</button>
+                             <button onClick={() => deleteDrill(code)} className="pr-1.5 text-slate-400 hover:text-red-400" title="删除">×</button>
+                         </span>
+                     );
+                 })}
+                 <span className="text-slate-600 mx-1">|</span>
+                 <button onClick={() => newLayout('8BALL')} disabled={isMoving} className="px-2 py-0.5 rounded border border-dashed border-slate-600 text-slate-400">+ 空球台</button>
+                 <button onClick={() => newLayout('SNOOKER')} disabled={isMoving} className="px-2 py-0.5 rounded border border-dashed border-slate-600 text-slate-400">+ 斯诺克台</button>
+             </div>
+
+             <div className="flex flex-wrap items-center gap-1">
+                 <button
+                   onClick={() => { setEditing(!editing); setSelectedBallId(null); playSound.click(); }}
+                   disabled={isMoving || !!replay}
+                   className={`px-2 py-0.5 rounded border ${editing ? 'bg-orange-600 border-orange-400 text-white' : 'bg-slate-800 border-slate-600 text-slate-300'}`}
+                 >
+                     {editing ? '✓ 完成摆球' : '✏️ 摆球'}
+                 </button>
+                 {editing && (
+                     <>
+                         <span className="text-slate-500 ml-1">拖动台上的球移动；选取下方的球后点击球台放置</span>
+                         {drillBallIds(mode).filter(id => !ballsRef.current.some(b => b.active && b.id === id)).map(id => (
+                             <button
+                               key={id}
+                               onClick={() => setSelectedBallId(selectedBallId === id ? null : id)}
+                               className={`w-5 h-5 rounded-full border-2 font-bold text-[8px] leading-none ${selectedBallId === id ? 'border-cyan-400' : 'border-transparent'}`}
+                               style={{ background: mode === 'SNOOKER' ? SNOOKER_COLORS[id] : BALL_COLORS[id], color: id === 8 || (mode === 'SNOOKER' && id === 21) ? '#fff' : '#000' }}
+                             >
+                                 {mode === 'SNOOKER' ? '' : id}
+                             </button>
+                         ))}
+                         {selectedBallId !== null && selectedBallId !== 0 && ballsRef.current.some(b => b.active && b.id === selectedBallId) && (
+                             <Button onClick={removeSelectedBall} variant="secondary" className="text-[10px] py-0.5 h-5">移除选中的球</Button>
+                         )}
+                     </>
+                 )}
+             </div>
+
+             <div className="flex flex-wrap items-center gap-1">
+                 <input
+                   value={drillName}
+                   onChange={(e) => setDrillName(e.target.value)}
+                   placeholder="布局名称"
+                   maxLength={20}
+                   className="w-28 bg-slate-950 border border-slate-600 rounded px-2 py-0.5 text-white"
+                 />
+                 <Button onClick={saveDrill} variant="secondary" className="text-[10px] py-0.5 h-5" disabled={isMoving}>💾 保存当前台面</Button>
+                 <span className="text-slate-500 ml-2">分享码</span>
+                 <input
+                   readOnly
+                   value={encodeDrill(drill)}
+                   onFocus={(e) => e.target.select()}
+                   className="flex-1 min-w-[8rem] bg-slate-950 border border-slate-700 rounded px-2 py-0.5 text-slate-400 font-mono"
+                 />
+                 <Button onClick={copyDrillCode} variant="secondary" className="text-[10px] py-0.5 h-5">复制</Button>
+                 <input
+                   value={importCode}
+                   onChange={(e) => setImportCode(e.target.value)}
+                   placeholder="粘贴分享码"
+                   className="w-28 bg-slate-950 border border-slate-600 rounded px-2 py-0.5 text-white font-mono"
+                 />
+                 <Button onClick={importDrill} variant="secondary" className="text-[10px] py-0.5 h-5" disabled={!importCode.trim() || isMoving}>导入</Button>
+             </div>
+         </div>
+       )}
+
+       {/* Foul Log */}
+       {foulLog.length > 0 && (
+         <div className="w-full max-w-4xl mt-2 px-2 flex items-start gap-2 text-[10px]">
+             <span className="text-slate-500 shrink-0 py-0.5">本局犯规</span>
+             <div className="flex flex-wrap gap-1 max-h-10 overflow-y-auto">
+                 {foulLog.map((entry, i) => (
+                     <span key={i} className="px-1.5 py-0.5 rounded bg-red-900/40 border border-red-800/50 text-red-200">
+                         {entry.player === 1 ? 'P1' : 'P2'} · {entry.reason}
+                     </span>
+                 ))}
+             </div>
+         </div>
+       )}
     </div>
   );
 };
\ No newline at end of file
@@ -1,140 +1,271 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef, useMemo } from 'react';
 import { Button } from '../ui/Button';
-import { ChessPiece, User, GameType, MatchDetails } from '../../types';
+import { ChessPiece, User, GameType, MatchDetails, RoundRecord } from '../../types';
 import { playSound } from '../../utils/sound';
 import { StreakIndicator } from '../ui/StreakIndicator';
-
-// Initial Board State
-const initialBoard: (ChessPiece | null)[][] = [
-  [
-    { type: 'R', color: 'black', label: '♜' }, { type: 'N', color: 'black', label: '♞' }, { type: 'B', color: 'black', label: '♝' }, { type: 'Q', color: 'black', label: '♛' },
-    { type: 'K', color: 'black', label: '♚' }, { type: 'B', color: 'black', label: '♝' }, { type: 'N', color: 'black', label: '♞' }, { type: 'R', color: 'black', label: '♜' }
-  ],
-  Array(8).fill({ type: 'P', color: 'black', label: '♟' }),
-  Array(8).fill(null),
-  Array(8).fill(null),
-  Array(8).fill(null),
-  Array(8).fill(null),
-  Array(8).fill({ type: 'P', color: 'white', label: '♙' }),
-  [
-    { type: 'R', color: 'white', label: '♖' }, { type: 'N', color: 'white', label: '♘' }, { type: 'B', color: 'white', label: '♗' }, { type: 'Q', color: 'white', label: '♕' },
-    { type: 'K', color: 'white', label: '♔' }, { type: 'B', color: 'white', label: '♗' }, { type: 'N', color: 'white', label: '♘' }, { type: 'R', color: 'white', label: '♖' }
-  ]
-];
+import {
+  ChessBoard, ChessColor, ChessMove, Square, PromotionType, CastlingRights,
+  ChessPosition, createInitialPosition, getLegalMoves, applyMove, getGameStatus, isInCheck, findKing, makePiece, moveToSan,
+  positionToFen, parseFen, deriveCastlingRights, validatePosition, positionKey, getDrawReason, canStillMate, DrawReason, opponentOf,
+  ChessVariant, VARIANT_NAMES, findRookFiles, isMateOnlyVariant, STANDARD_ROOK_FILES
+} from '../../utils/chess';
+import { PgnGame, PgnResult, buildPgn, parsePgn, replayPgnMoves, formatPgnDate } from '../../utils/pgn';
+import { CHESS_BOT_LEVELS, ChessSearchRequest, ChessSearchResponse, evaluateBoard } from '../../utils/chessAI';
+import { ClockState, ClockSide, TIME_CONTROLS, createClock, tickClock, completeMove } from '../../utils/clock';
+import { GameClock } from '../ui/GameClock';
+import { MoveList } from '../ui/MoveList';
+import { GameAnalysis } from '../GameAnalysis';
 
 interface Props {
   user: User;
-  onGameEnd: (points: number, isWin?: boolean, details?: MatchDetails) => void;
+  onGameEnd: (points: number, isWin?: boolean, details?: MatchDetails, isDraw?: boolean) => void;
   player2?: User | null;
   onOpenP2Login?: () => void;
 }
 
+type GameMode = 'PVE' | 'PVP';
+
 interface MatchConfig {
     totalFrames: number;
     pointsPerMatch: number;
+    timeControlId: string | null; // null = untimed
+    variant: ChessVariant;
 }
 
+interface ReviewState {
+  tags: Record<string, string>;
+  sans: string[];
+  positions: ChessPosition[];
+  moves: ChessMove[];
+  result: PgnResult;
+  index: number; // Index into positions
+}
+
+// In PVE the user always plays white against the bot
+const BOT_COLOR: ChessColor = 'black';
+
+// Piece codes used by the board editor palette, e.g. 'wK' or 'bP'
+const EDITOR_PIECES = ['K', 'Q', 'R', 'B', 'N', 'P'];
+
+// Castling rights the board editor can switch on and off
+const EDITOR_CASTLING: { key: keyof CastlingRights, label: string }[] = [
+  { key: 'whiteKingSide', label: '白 O-O' },
+  { key: 'whiteQueenSide', label: '白 O-O-O' },
+  { key: 'blackKingSide', label: '黑 O-O' },
+  { key: 'blackQueenSide', label: '黑 O-O-O' }
+];
+const NO_CASTLING: CastlingRights = { whiteKingSide: false, whiteQueenSide: false, blackKingSide: false, blackQueenSide: false };
+
+// The position carries castling rights, the en-passant square and move counters, so undo restores them too
 interface HistoryState {
-  board: (ChessPiece | null)[][];
-  turn: 'white' | 'black';
-  lastMove: { from: { r: number, c: number }, to: { r: number, c: number } } | null;
+  position: ChessPosition;
+  lastMove: { from: Square, to: Square } | null;
+  clock: ClockState | null;
 }
 
+const clockSideOf = (color: ChessColor): ClockSide => color === 'white' ? 'p1' : 'p2';
+
+const colorName = (color: ChessColor) => color === 'white' ? '白方' : '黑方';
+
+const VARIANT_LABELS: Record<ChessVariant, string> = {
+  STANDARD: '标准',
+  CHESS960: 'Chess960',
+  KING_OF_THE_HILL: '山丘之王',
+  THREE_CHECK: '三次将军'
+};
+
+const VARIANT_HINTS: Record<ChessVariant, string> = {
+  STANDARD: '',
+  CHESS960: '底线棋子随机排列, 王在两车之间; 易位时点击王再点击车',
+  KING_OF_THE_HILL: '将杀对方, 或把己方的王走到中心四格 (d4 e4 d5 e5) 即获胜',
+  THREE_CHECK: '将杀对方, 或累计将军三次即获胜'
+};
+
+// Applies the match variant to a start position from the board editor, dropping castling rights the variant
+// does not allow with that placement (a Chess960 king off the e-file in a standard game)
+const withVariant = (pos: ChessPosition, variant: ChessVariant): ChessPosition => {
+  const allowed = deriveCastlingRights(pos.board, variant);
+  return {
+    ...pos,
+    variant,
+    castling: {
+      whiteKingSide: pos.castling.whiteKingSide && allowed.whiteKingSide,
+      whiteQueenSide: pos.castling.whiteQueenSide && allowed.whiteQueenSide,
+      blackKingSide: pos.castling.blackKingSide && allowed.blackKingSide,
+      blackQueenSide: pos.castling.blackQueenSide && allowed.blackQueenSide
+    },
+    rookFiles: variant === 'CHESS960' ? findRookFiles(pos.board) : STANDARD_ROOK_FILES,
+    checksGiven: { white: 0, black: 0 }
+  };
+};
+
+const toRoundRecord = (game: PgnGame): RoundRecord => ({
+  moves: game.moves,
+  start: game.tags.FEN,
+  variant: game.tags.Variant,
+  result: game.result
+});
+
+const DRAW_MESSAGES: Record<DrawReason, string> = {
+  THREEFOLD: '三次重复局面, 和棋',
+  FIFTY_MOVES: '五十回合规则, 和棋',
+  INSUFFICIENT_MATERIAL: '子力不足以将杀, 和棋'
+};
+
 export const Chess: React.FC<Props> = ({ user, onGameEnd, player2, onOpenP2Login }) => {
-  const [board, setBoard] = useState<(ChessPiece | null)[][]>(initialBoard);
+  const [position, setPosition] = useState<ChessPosition>(createInitialPosition);
+  const { board, turn } = position;
   const [selected, setSelected] = useState<{ r: number, c: number } | null>(null);
-  const [validMoves, setValidMoves] = useState<{ r: number, c: number }[]>([]);
-  const [turn, setTurn] = useState<'white' | 'black'>('white');
+  const [validMoves, setValidMoves] = useState<ChessMove[]>([]);
+  const [pendingPromotion, setPendingPromotion] = useState<{ from: Square, to: Square } | null>(null);
+  const [roundMessage, setRoundMessage] = useState('');
   const [lastMove, setLastMove] = useState<{ from: { r: number, c: number }, to: { r: number, c: number } } | null>(null);
   const [captureAnim, setCaptureAnim] = useState<{ r: number, c: number, piece: ChessPiece } | null>(null);
   
   // Game & Match State
-  const [gameState, setGameState] = useState<'SETUP' | 'PLAYING' | 'ROUND_OVER' | 'GAMEOVER'>('SETUP');
-  const [matchConfig, setMatchConfig] = useState<MatchConfig>({ totalFrames: 3, pointsPerMatch: 100 });
-  const [matchScore, setMatchScore] = useState<{p1: number, p2: number}>({ p1: 0, p2: 0 }); // p1=White, p2=Black
-  const [winner, setWinner] = useState<'white' | 'black' | null>(null); // Match winner
+  const [gameState, setGameState] = useState<'SETUP' | 'PLAYING' | 'ROUND_OVER' | 'GAMEOVER' | 'REVIEW' | 'EDITOR'>('SETUP');
+  const [matchConfig, setMatchConfig] = useState<MatchConfig>({ totalFrames: 3, pointsPerMatch: 100, timeControlId: null, variant: 'STANDARD' });
+  const [matchScore, setMatchScore] = useState<{p1: number, p2: number}>({ p1: 0, p2: 0 }); // p1=White, p2=Black; a drawn frame scores 0.5 each
+  const [winner, setWinner] = useState<'white' | 'black' | 'draw' | null>(null); // Match winner
+  const [drawOffer, setDrawOffer] = useState<ChessColor | null>(null); // Side that offered a draw, awaiting an answer
+  const [notice, setNotice] = useState('');
   
   const [history, setHistory] = useState<HistoryState[]>([]);
 
-  // Helper: Check bounds
-  const isValidPos = (r: number, c: number) => r >= 0 && r < 8 && c >= 0 && c < 8;
-
-  // Helper: Calculate valid moves for a piece
-  const getValidMoves = (currentBoard: (ChessPiece | null)[][], piece: ChessPiece, r: number, c: number) => {
-    const moves: { r: number, c: number }[] = [];
-    const isWhite = piece.color === 'white';
-    
-    // Pawn Logic
-    if (piece.type === 'P') {
-      const direction = isWhite ? -1 : 1;
-      const startRow = isWhite ? 6 : 1;
-
-      // Forward 1
-      if (isValidPos(r + direction, c) && !currentBoard[r + direction][c]) {
-        moves.push({ r: r + direction, c });
-        // Forward 2
-        if (r === startRow && isValidPos(r + direction * 2, c) && !currentBoard[r + direction * 2][c]) {
-          moves.push({ r: r + direction * 2, c });
-        }
+  // Move Record (SAN) for the current round and PGN of finished rounds
+  const [sanMoves, setSanMoves] = useState<string[]>([]);
+  const [roundStartedAt, setRoundStartedAt] = useState(Date.now());
+  const [roundRecords, setRoundRecords] = useState<PgnGame[]>([]);
+  const [showAnalysis, setShowAnalysis] = useState(false);
+  const [viewPly, setViewPly] = useState<number | null>(null); // Earlier position shown read-only; null = live board
+
+  // PGN Import / Review State
+  const [showPgnImport, setShowPgnImport] = useState(false);
+  const [pgnText, setPgnText] = useState('');
+  const [pgnError, setPgnError] = useState('');
+  const [review, setReview] = useState<ReviewState | null>(null);
+  const pgnFileRef = useRef<HTMLInputElement>(null);
+
+  // Custom Start Position (null = standard) and Board Editor State
+  const [startPosition, setStartPosition] = useState<ChessPosition | null>(null);
+  const [editorBoard, setEditorBoard] = useState<ChessBoard>(() => createInitialPosition().board);
+  const [editorTurn, setEditorTurn] = useState<ChessColor>('white');
+  const [editorCastling, setEditorCastling] = useState<CastlingRights>(() => createInitialPosition().castling);
+  const [editorTool, setEditorTool] = useState<string | null>(null); // Piece code, 'erase' or null
+  const [fenInput, setFenInput] = useState('');
+  const [editorError, setEditorError] = useState('');
+
+  // Clock State
+  const [clock, setClock] = useState<ClockState | null>(null);
+  const clockRef = useRef<ClockState | null>(null); // Up to date even inside the bot worker's callback
+  const lastTickRef = useRef(Date.now());
+
+  // PVE State
+  const [mode, setMode] = useState<GameMode>('PVP');
+  const [botLevelId, setBotLevelId] = useState(CHESS_BOT_LEVELS[1].id);
+  const [botThinking, setBotThinking] = useState(false);
+  const workerRef = useRef<Worker | null>(null);
+  const searchIdRef = useRef(0);
+
+  const botLevel = CHESS_BOT_LEVELS.find(l => l.id === botLevelId) || CHESS_BOT_LEVELS[0];
+  const isBotTurn = mode === 'PVE' && turn === BOT_COLOR;
+  const opponentName = mode === 'PVE' ? `电脑 (${botLevel.name})` : (player2 ? player2.username : 'Player 2');
+  const opponentAvatar = mode === 'PVE' ? '🤖' : (player2?.avatar || '👤');
+  const matchPoints = mode === 'PVE' ? Math.round(matchConfig.pointsPerMatch * botLevel.pointsMultiplier) : matchConfig.pointsPerMatch;
+  const timeControl = TIME_CONTROLS.find(tc => tc.id === matchConfig.timeControlId) || null;
+  const matchTags = [
+      mode,
+      `BO${matchConfig.totalFrames}`,
+      ...(timeControl ? [timeControl.label] : []),
+      ...(matchConfig.variant !== 'STANDARD' ? [VARIANT_NAMES[matchConfig.variant]] : [])
+  ];
+
+  // The board on screen: the live game, an earlier position of it, or the position being reviewed
+  const reviewPos = gameState === 'REVIEW' && review ? review.positions[review.index] : null;
+  const browsed = gameState !== 'REVIEW' && viewPly !== null && viewPly < history.length ? history[viewPly] : null;
+  const viewBoard = reviewPos ? reviewPos.board : browsed ? browsed.position.board : board;
+  const viewTurn = reviewPos ? reviewPos.turn : browsed ? browsed.position.turn : turn;
+  const viewVariant = reviewPos ? reviewPos.variant : position.variant;
+  const viewLastMove = reviewPos ? (review!.index > 0 ? review!.moves[review!.index - 1] : null) : browsed ? browsed.lastMove : lastMove;
+  const roundStart = history[0]?.position || position;
+  const analysisRounds = useMemo(() => roundRecords.map(toRoundRecord), [roundRecords]);
+  const firstPosition = reviewPos ? review!.positions[0] : roundStart;
+  const checkedKing = isInCheck(viewBoard, viewTurn) ? findKing(viewBoard, viewTurn) : null;
+
+  // Terminate the search worker when leaving the game
+  useEffect(() => {
+      return () => {
+          workerRef.current?.terminate();
+          workerRef.current = null;
+      };
+  }, []);
+
+  // Ask the worker for a move whenever it is the bot's turn
+  useEffect(() => {
+      if (gameState !== 'PLAYING' || !isBotTurn || pendingPromotion) return;
+
+      if (!workerRef.current) {
+          workerRef.current = new Worker(new URL('../../utils/chessAI.worker.ts', import.meta.url), { type: 'module' });
       }
-      // Captures
-      const captureOffsets = [-1, 1];
-      captureOffsets.forEach(offset => {
-        if (isValidPos(r + direction, c + offset)) {
-          const target = currentBoard[r + direction][c + offset];
-          if (target && target.color !== piece.color) {
-            moves.push({ r: r + direction, c: c + offset });
-          }
-        }
-      });
-    } 
-    // Other Pieces
-    else {
-      const directions: Record<string, number[][]> = {
-        'R': [[0, 1], [0, -1], [1, 0], [-1, 0]],
-        'B': [[1, 1], [1, -1], [-1, 1], [-1, -1]],
-        'N': [[1, 2], [1, -2], [-1, 2], [-1, -2], [2, 1], [2, -1], [-2, 1], [-2, -1]],
-        'Q': [[0, 1], [0, -1], [1, 0], [-1, 0], [1, 1], [1, -1], [-1, 1], [-1, -1]],
-        'K': [[0, 1], [0, -1], [1, 0], [-1, 0], [1, 1], [1, -1], [-1, 1], [-1, -1]],
+      const worker = workerRef.current;
+      const id = ++searchIdRef.current;
+
+      worker.onmessage = (e: MessageEvent<ChessSearchResponse>) => {
+          // Ignore answers for positions that were undone or reset meanwhile
+          if (e.data.id !== searchIdRef.current) return;
+          setBotThinking(false);
+          if (e.data.move) executeMove(e.data.move);
       };
 
-      const movesDirs = directions[piece.type];
-      const isSliding = ['R', 'B', 'Q'].includes(piece.type);
-
-      movesDirs.forEach(([dr, dc]) => {
-        let nr = r + dr;
-        let nc = c + dc;
-
-        if (isSliding) {
-          while (isValidPos(nr, nc)) {
-            const target = currentBoard[nr][nc];
-            if (!target) {
-              moves.push({ r: nr, c: nc });
-            } else {
-              if (target.color !== piece.color) {
-                moves.push({ r: nr, c: nc });
-              }
-              break; // Blocked
-            }
-            nr += dr;
-            nc += dc;
-          }
-        } else {
-          // Stepping (Knight, King)
-          if (isValidPos(nr, nc)) {
-            const target = currentBoard[nr][nc];
-            if (!target || target.color !== piece.color) {
-              moves.push({ r: nr, c: nc });
-            }
+      setBotThinking(true);
+      const request: ChessSearchRequest = { id, position, depth: botLevel.depth, noise: botLevel.noise };
+      worker.postMessage(request);
+
+      return () => {
+          searchIdRef.current++;
+          setBotThinking(false);
+      };
+  }, [gameState, isBotTurn, board]);
+
+  // Run the clock of the side to move
+  useEffect(() => {
+      if (gameState !== 'PLAYING' || !timeControl) return;
+      lastTickRef.current = Date.now();
+      const timer = setInterval(() => {
+          const now = Date.now();
+          const elapsed = now - lastTickRef.current;
+          lastTickRef.current = now;
+          if (clockRef.current) updateClock(tickClock(clockRef.current, clockSideOf(turn), elapsed, timeControl).clock);
+      }, 100);
+      return () => clearInterval(timer);
+  }, [gameState, turn, timeControl]);
+
+  // Loss on flag: the side to move has used up all its time
+  useEffect(() => {
+      if (gameState !== 'PLAYING' || !clock) return;
+      const side = clock[clockSideOf(turn)];
+      if (side.mainMs <= 0 && side.periods <= 0) {
+          setSelected(null);
+          setValidMoves([]);
+          setPendingPromotion(null);
+          // Flagging is only a loss when the opponent could still possibly win
+          if (!isMateOnlyVariant(position.variant) || canStillMate(board, opponentOf(turn))) {
+              setRoundMessage(`${colorName(turn)}超时判负`);
+              handleRoundEnd(opponentOf(turn), sanMoves);
+          } else {
+              setRoundMessage(`${colorName(turn)}超时, 但对方子力不足, 和棋`);
+              handleRoundEnd(null, sanMoves);
           }
-        }
-      });
-    }
-    return moves;
+      }
+  }, [clock]);
+
+  const updateClock = (next: ClockState | null) => {
+      clockRef.current = next;
+      setClock(next);
   };
 
   const startMatch = () => {
-      if (user.username !== '测试玩家' && !player2 && onOpenP2Login) {
+      if (mode === 'PVP' && user.username !== '测试玩家' && !player2 && onOpenP2Login) {
           onOpenP2Login();
           return;
       }
@@ -142,78 +273,161 @@ export const Chess: React.FC<Props> = ({ user, onGameEnd, player2, onOpenP2Login
       playSound.click();
       setMatchScore({ p1: 0, p2: 0 });
       setWinner(null);
+      setRoundRecords([]);
       initRound();
   };
 
   const initRound = () => {
-      setBoard(initialBoard);
-      setTurn('white');
+      // Chess960 draws a fresh back rank every round
+      setPosition(startPosition ? withVariant(startPosition, matchConfig.variant) : createInitialPosition(matchConfig.variant));
+      setDrawOffer(null);
+      setNotice('');
+      updateClock(timeControl ? createClock(timeControl) : null);
+      lastTickRef.current = Date.now();
+      setPendingPromotion(null);
+      setRoundMessage('');
       setSelected(null);
       setValidMoves([]);
       setLastMove(null);
       setHistory([]);
+      setSanMoves([]);
+      setViewPly(null);
+      setRoundStartedAt(Date.now());
       setGameState('PLAYING');
   };
 
-  const handleSquareClick = (r: number, c: number) => {
-    if (gameState !== 'PLAYING') return;
+  const executeMove = (move: ChessMove) => {
+    // --- SAVE HISTORY BEFORE MOVE ---
+    const clockBefore = clockRef.current;
+    setHistory(prev => [...prev, { position, lastMove, clock: clockBefore }]);
 
-    // If a piece is selected
-    if (selected) {
-      // Check if clicked square is a valid move
-      const move = validMoves.find(m => m.r === r && m.c === c);
+    // Charge the time since the last tick, then add the increment (or reset the byo-yomi period)
+    if (clockBefore && timeControl) {
+      const side = clockSideOf(turn);
+      const ticked = tickClock(clockBefore, side, Date.now() - lastTickRef.current, timeControl).clock;
+      updateClock(completeMove(ticked, side, timeControl));
+      lastTickRef.current = Date.now();
+    }
 
-      if (move) {
-        // --- SAVE HISTORY BEFORE MOVE ---
-        setHistory(prev => [...prev, {
-            board: board.map(row => [...row]),
-            turn,
-            lastMove
-        }]);
-
-        const piece = board[selected.r][selected.c];
-        const target = board[r][c];
+    const captured = move.enPassant ? board[move.from.r][move.to.c] : board[move.to.r][move.to.c];
+    const next = applyMove(position, move);
+    const nextSans = [...sanMoves, moveToSan(position, move)];
+
+    // Sound & Animation
+    if (captured) {
+      setCaptureAnim({ r: move.to.r, c: move.to.c, piece: captured });
+      setTimeout(() => setCaptureAnim(null), 600); // Slightly longer for explosion
+      playSound.capture();
+    } else {
+      playSound.move(); // Play normal move sound
+    }
+
+    setPosition(next);
+    setLastMove({ from: move.from, to: move.to });
+    setSanMoves(nextSans);
+    setSelected(null);
+    setValidMoves([]);
+    setPendingPromotion(null);
+    setDrawOffer(null);
+
+    // The side to move has no legal reply: checkmate or stalemate
+    const status = getGameStatus(next);
+    const drawReason = getDrawReason(next, [...history.map(h => positionKey(h.position)), positionKey(position)]);
+    if (status === 'CHECKMATE') {
+      setRoundMessage(`将杀! ${colorName(turn)}获胜`);
+      handleRoundEnd(turn, nextSans);
+    } else if (status === 'KING_OF_THE_HILL') {
+      setRoundMessage(`${colorName(turn)}的王登上山顶, ${colorName(turn)}获胜`);
+      handleRoundEnd(turn, nextSans);
+    } else if (status === 'THREE_CHECK') {
+      setRoundMessage(`${colorName(turn)}完成三次将军, ${colorName(turn)}获胜`);
+      handleRoundEnd(turn, nextSans);
+    } else if (status === 'STALEMATE') {
+      setRoundMessage('逼和! 本局和棋');
+      handleRoundEnd(null, nextSans);
+    } else if (drawReason) {
+      setRoundMessage(DRAW_MESSAGES[drawReason]);
+      handleRoundEnd(null, nextSans);
+    }
+  };
+
+  const showNotice = (text: string) => {
+      setNotice(text);
+      setTimeout(() => setNotice(''), 2500);
+  };
 
-        // Sound & Animation & Scoring
-        if (target) {
-          setCaptureAnim({ r, c, piece: target });
-          setTimeout(() => setCaptureAnim(null), 600); // Slightly longer for explosion
+  const handleResign = (color: ChessColor) => {
+      if (gameState !== 'PLAYING') return;
+      if (!window.confirm(`确定${colorName(color)}认输吗?`)) return;
+      setSelected(null);
+      setValidMoves([]);
+      setPendingPromotion(null);
+      setDrawOffer(null);
+      setRoundMessage(`${colorName(color)}认输`);
+      handleRoundEnd(opponentOf(color), sanMoves);
+  };
 
-          if (target.type === 'K') {
-             // King Captured - Round Over
-             handleRoundEnd(turn); // Winner is current turn player
-             return;
+  const handleOfferDraw = () => {
+      if (gameState !== 'PLAYING' || drawOffer) return;
+      if (mode === 'PVE') {
+          // The bot (black) accepts unless it thinks it is clearly better
+          const botAdvantage = -evaluateBoard(board);
+          if (botAdvantage < 50) {
+              setRoundMessage('电脑接受和棋');
+              handleRoundEnd(null, sanMoves);
           } else {
-             // Normal Capture
-             playSound.capture();
+              showNotice('电脑拒绝了和棋');
           }
-        } else {
-          playSound.move(); // Play normal move sound
-        }
+          return;
+      }
+      setDrawOffer(turn);
+  };
 
-        // Execute Move
-        const newBoard = board.map(row => [...row]);
-        newBoard[r][c] = piece;
-        newBoard[selected.r][selected.c] = null;
-        
-        // Auto-Promote Pawn to Queen for simplicity
-        if (piece?.type === 'P' && (r === 0 || r === 7)) {
-           newBoard[r][c] = { ...piece, type: 'Q', label: piece.color === 'white' ? '♕' : '♛' };
-        }
+  const handleDrawAnswer = (accept: boolean) => {
+      if (!drawOffer) return;
+      if (accept) {
+          setRoundMessage('双方同意和棋');
+          handleRoundEnd(null, sanMoves);
+      } else {
+          showNotice(`${colorName(opponentOf(drawOffer))}拒绝了和棋`);
+      }
+      setDrawOffer(null);
+  };
+
+  const handlePromotionChoice = (type: PromotionType) => {
+    if (!pendingPromotion) return;
+    const move = validMoves.find(m =>
+      m.to.r === pendingPromotion.to.r && m.to.c === pendingPromotion.to.c && m.promotion === type
+    );
+    if (move) executeMove(move);
+  };
+
+  const handleSquareClick = (r: number, c: number) => {
+    if (gameState !== 'PLAYING' || pendingPromotion || isBotTurn) return;
+    // Clicking the board while looking at an earlier position returns to the live game
+    if (viewPly !== null) {
+      setViewPly(null);
+      return;
+    }
 
-        setBoard(newBoard);
-        setLastMove({ from: selected, to: { r, c } });
-        setTurn(turn === 'white' ? 'black' : 'white');
-        
-        // Deselect
-        setSelected(null);
-        setValidMoves([]);
+    // If a piece is selected
+    if (selected) {
+      // Check if clicked square is a valid move
+      const move = validMoves.find(m => m.to.r === r && m.to.c === c);
+
+      if (move) {
+        // Pawn reaching the last rank: let the player pick the promotion piece
+        if (move.promotion) {
+          setPendingPromotion({ from: move.from, to: move.to });
+          return;
+        }
+        executeMove(move);
       } else {
         // If clicking on another friendly piece, select it instead
         const target = board[r][c];
         if (target && target.color === turn) {
           setSelected({ r, c });
-          setValidMoves(getValidMoves(board, target, r, c));
+          setValidMoves(getLegalMoves(position, r, c));
         } else {
           // Deselect
           setSelected(null);
@@ -225,56 +439,280 @@ export const Chess: React.FC<Props> = ({ user, onGameEnd, player2, onOpenP2Login
       const piece = board[r][c];
       if (piece && piece.color === turn) {
         setSelected({ r, c });
-        setValidMoves(getValidMoves(board, piece, r, c));
+        setValidMoves(getLegalMoves(position, r, c));
       }
     }
   };
 
-  const handleRoundEnd = (roundWinner: 'white' | 'black') => {
+  const buildRoundPgn = (moves: string[], result: PgnResult, round: number, startedAt: number): PgnGame => ({
+      tags: {
+          Event: `Game Center BO${matchConfig.totalFrames}`,
+          Site: 'Game Center',
+          Date: formatPgnDate(startedAt),
+          Round: String(round),
+          White: user.username,
+          Black: opponentName,
+          MatchTags: matchTags.join(' '),
+          // PGN has no notation for byo-yomi, so those games keep the control only in MatchTags
+          ...(timeControl && !timeControl.byoyomi ? { TimeControl: `${timeControl.initialMs / 1000}+${timeControl.incrementMs / 1000}` } : {}),
+          ...(roundStart.variant !== 'STANDARD' ? { Variant: VARIANT_NAMES[roundStart.variant] } : {}),
+          ...(startPosition || roundStart.variant === 'CHESS960' ? { SetUp: '1', FEN: positionToFen(roundStart) } : {})
+      },
+      moves,
+      result
+  });
+
+  // roundWinner is null for a drawn round (e.g. stalemate)
+  const handleRoundEnd = (roundWinner: 'white' | 'black' | null, moves: string[]) => {
       playSound.win();
+
+      const result: PgnResult = roundWinner === 'white' ? '1-0' : roundWinner === 'black' ? '0-1' : '1/2-1/2';
+      const games = [...roundRecords, buildRoundPgn(moves, result, roundRecords.length + 1, roundStartedAt)];
+      setRoundRecords(games);
       
       const newScore = { ...matchScore };
       if (roundWinner === 'white') newScore.p1 += 1;
-      else newScore.p2 += 1;
+      else if (roundWinner === 'black') newScore.p2 += 1;
+      else {
+          newScore.p1 += 0.5;
+          newScore.p2 += 0.5;
+      }
       
       setMatchScore(newScore);
 
-      const targetWins = Math.ceil(matchConfig.totalFrames / 2);
+      // The series ends once a side has clinched more than half the frames, or all frames are played
+      const framesPlayed = games.length;
+      const half = matchConfig.totalFrames / 2;
+      const seriesOver = newScore.p1 > half || newScore.p2 > half || framesPlayed >= matchConfig.totalFrames;
 
-      if (newScore.p1 >= targetWins) {
+      if (!seriesOver) {
+          setGameState('ROUND_OVER');
+      } else if (newScore.p1 > newScore.p2) {
           setWinner('white');
           setGameState('GAMEOVER');
-          onGameEnd(matchConfig.pointsPerMatch, true, {
-              opponent: player2 ? player2.username : 'Player 2',
-              opponentAvatar: player2?.avatar || '👤',
+          onGameEnd(matchPoints, true, {
+              opponent: opponentName,
+              opponentAvatar,
               score: `${newScore.p1}-${newScore.p2}`,
-              matchTags: [`BO${matchConfig.totalFrames}`]
+              matchTags,
+              rounds: games.map(toRoundRecord)
           });
-      } else if (newScore.p2 >= targetWins) {
+      } else if (newScore.p2 > newScore.p1) {
           setWinner('black');
           setGameState('GAMEOVER');
-          onGameEnd(-matchConfig.pointsPerMatch, false, {
-              opponent: player2 ? player2.username : 'Player 2',
-              opponentAvatar: player2?.avatar || '👤',
+          onGameEnd(-matchPoints, false, {
+              opponent: opponentName,
+              opponentAvatar,
               score: `${newScore.p1}-${newScore.p2}`,
-              matchTags: [`BO${matchConfig.totalFrames}`]
+              matchTags,
+              rounds: games.map(toRoundRecord)
           });
       } else {
-          setGameState('ROUND_OVER');
+          setWinner('draw');
+          setGameState('GAMEOVER');
+          onGameEnd(0, false, {
+              opponent: opponentName,
+              opponentAvatar,
+              score: `${newScore.p1}-${newScore.p2}`,
+              matchTags,
+              rounds: games.map(toRoundRecord)
+          }, true);
       }
   };
 
   const handleUndo = () => {
       if (history.length === 0) return;
-      const prev = history[history.length - 1];
-      const newHistory = history.slice(0, -1);
+      // In PVE, undo back to the user's own turn (takes back the bot's reply as well)
+      let steps = 1;
+      if (mode === 'PVE' && history[history.length - 1].position.turn === BOT_COLOR && history.length > 1) steps = 2;
+      const prev = history[history.length - steps];
+      const newHistory = history.slice(0, -steps);
       
-      setBoard(prev.board);
-      setTurn(prev.turn);
+      setPosition(prev.position);
       setLastMove(prev.lastMove);
+      setDrawOffer(null);
+      updateClock(prev.clock);
+      lastTickRef.current = Date.now();
       setHistory(newHistory);
+      setSanMoves(prevSans => prevSans.slice(0, -steps));
+      setViewPly(null);
+      setSelected(null);
+      setValidMoves([]);
+      setPendingPromotion(null);
+      playSound.click();
+  };
+
+  // Downloads every finished round of the match, plus the round in progress, as one PGN file
+  const handleExportPgn = () => {
+      const games = [...roundRecords];
+      if (gameState === 'PLAYING' && sanMoves.length > 0) {
+          games.push(buildRoundPgn(sanMoves, '*', roundRecords.length + 1, roundStartedAt));
+      }
+      if (games.length === 0) return;
+
+      const text = games.map(buildPgn).join('\n');
+      const blob = new Blob([text], { type: 'application/x-chess-pgn' });
+      const url = URL.createObjectURL(blob);
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = `chess_${user.username}_${formatPgnDate(Date.now()).replace(/\./g, '')}.pgn`;
+      a.click();
+      URL.revokeObjectURL(url);
+      playSound.click();
+  };
+
+  const handlePgnFile = (e: React.ChangeEvent<HTMLInputElement>) => {
+      const file = e.target.files?.[0];
+      if (!file) return;
+      const reader = new FileReader();
+      reader.onload = (readerEvent) => setPgnText((readerEvent.target?.result as string) || '');
+      reader.readAsText(file);
+      e.target.value = '';
+  };
+
+  const handleLoadPgn = () => {
+      const games = parsePgn(pgnText);
+      if (games.length === 0) {
+          setPgnError('未找到有效的 PGN 对局');
+          playSound.wrong();
+          return;
+      }
+      // Only the first game of a multi-game file is loaded
+      const game = games[0];
+      const variant = (Object.keys(VARIANT_NAMES) as ChessVariant[])
+          .find(v => VARIANT_NAMES[v].toLowerCase() === (game.tags.Variant || '').toLowerCase()) || 'STANDARD';
+      try {
+          const start = game.tags.FEN ? parseFen(game.tags.FEN, variant) : { ...createInitialPosition(), variant };
+          const replayed = replayPgnMoves(game.moves, start);
+          setReview({ tags: game.tags, sans: game.moves, positions: replayed.positions, moves: replayed.moves, result: game.result, index: 0 });
+          setPgnError('');
+          setShowPgnImport(false);
+          setGameState('REVIEW');
+          playSound.click();
+      } catch (err) {
+          setPgnError((err as Error).message);
+          playSound.wrong();
+      }
+  };
+
+  const stepReview = (index: number) => {
+      if (!review) return;
+      const next = Math.max(0, Math.min(review.positions.length - 1, index));
+      if (next !== review.index) playSound.move();
+      setReview({ ...review, index: next });
+  };
+
+  // Jumps to the position after the given number of plies of the live game, read-only
+  const handleBrowse = (plies: number) => {
+      setViewPly(plies >= sanMoves.length ? null : plies);
       setSelected(null);
       setValidMoves([]);
+      playSound.move();
+  };
+
+  // --- Board Editor ---
+  const openEditor = () => {
+      const base = startPosition || createInitialPosition();
+      setEditorBoard(base.board.map(row => [...row]));
+      setEditorTurn(base.turn);
+      setEditorCastling(base.castling);
+      setFenInput(positionToFen(base));
+      setEditorTool(null);
+      setEditorError('');
+      setGameState('EDITOR');
+      playSound.click();
+  };
+
+  // Castling rights are set by hand and checked against the placement by validatePosition. Chess960 positions are
+  // edited as such, so their castling rights and FEN use the Chess960 rules
+  const editorPosition = (): ChessPosition => {
+      const variant: ChessVariant = matchConfig.variant === 'CHESS960' ? 'CHESS960' : 'STANDARD';
+      return {
+          board: editorBoard,
+          turn: editorTurn,
+          castling: editorCastling,
+          enPassant: null,
+          halfmoveClock: 0,
+          fullmoveNumber: 1,
+          variant,
+          rookFiles: variant === 'CHESS960' ? findRookFiles(editorBoard) : STANDARD_ROOK_FILES,
+          checksGiven: { white: 0, black: 0 }
+      };
+  };
+
+  const placeOnEditor = (r: number, c: number, code: string | null) => {
+      const next = editorBoard.map(row => [...row]);
+      next[r][c] = code && code !== 'erase' ? makePiece(code[1], code[0] === 'w' ? 'white' : 'black') : null;
+      setEditorBoard(next);
+      setEditorError('');
+  };
+
+  const handleEditorSquareClick = (r: number, c: number) => {
+      if (!editorTool) return;
+      // Clicking the same piece again clears the square
+      const current = editorBoard[r][c];
+      const sameAsTool = current && editorTool === `${current.color === 'white' ? 'w' : 'b'}${current.type}`;
+      placeOnEditor(r, c, sameAsTool ? null : editorTool);
+      playSound.click();
+  };
+
+  // Drag data is either a palette piece code ("wK") or a board square ("sq:r,c") being moved
+  const handleEditorDrop = (e: React.DragEvent, r: number, c: number) => {
+      e.preventDefault();
+      const data = e.dataTransfer.getData('text/plain');
+      if (data.startsWith('sq:')) {
+          const [fr, fc] = data.slice(3).split(',').map(Number);
+          const next = editorBoard.map(row => [...row]);
+          next[r][c] = next[fr][fc];
+          if (fr !== r || fc !== c) next[fr][fc] = null;
+          setEditorBoard(next);
+          setEditorError('');
+      } else if (data) {
+          placeOnEditor(r, c, data);
+      }
+      playSound.move();
+  };
+
+  // Dropping a board piece outside the board removes it
+  const handleEditorDropOutside = (e: React.DragEvent) => {
+      e.preventDefault();
+      const data = e.dataTransfer.getData('text/plain');
+      if (!data.startsWith('sq:')) return;
+      const [fr, fc] = data.slice(3).split(',').map(Number);
+      placeOnEditor(fr, fc, null);
+  };
+
+  const handleLoadFen = () => {
+      try {
+          const pos = parseFen(fenInput);
+          setEditorBoard(pos.board);
+          setEditorTurn(pos.turn);
+          setEditorCastling(pos.castling);
+          setEditorError('');
+          playSound.click();
+      } catch (err) {
+          setEditorError((err as Error).message);
+          playSound.wrong();
+      }
+  };
+
+  const handleCopyFen = () => {
+      const fen = positionToFen(editorPosition());
+      setFenInput(fen);
+      navigator.clipboard?.writeText(fen).catch(() => {});
+      playSound.click();
+  };
+
+  const handleUseEditorPosition = () => {
+      const pos = editorPosition();
+      const error = validatePosition(pos);
+      if (error) {
+          setEditorError(error);
+          playSound.wrong();
+          return;
+      }
+      setStartPosition(pos);
+      setGameState('SETUP');
       playSound.click();
   };
 
@@ -284,8 +722,56 @@ export const Chess: React.FC<Props> = ({ user, onGameEnd, player2, onOpenP2Login
         <div className="flex flex-col items-center justify-center h-full max-w-lg mx-auto p-4">
         <div className="bg-slate-900/60 backdrop-blur-xl p-8 rounded-2xl shadow-xl border border-white/5 w-full animate-zoom-in">
           <h2 className="text-3xl font-bold text-center mb-6 text-emerald-400">国际象棋 - 赛制设置</h2>
+
+          <div className="flex gap-4 mb-4">
+              <button
+                onClick={() => setMode('PVE')}
+                className={`flex-1 py-3 rounded-xl border-2 transition-all ${mode === 'PVE' ? 'border-emerald-500 bg-emerald-500/20 text-white' : 'border-slate-600 bg-black/20 text-slate-400'}`}
+              >
+                👤 人机对弈
+              </button>
+              <button
+                onClick={() => setMode('PVP')}
+                className={`flex-1 py-3 rounded-xl border-2 transition-all ${mode === 'PVP' ? 'border-emerald-500 bg-emerald-500/20 text-white' : 'border-slate-600 bg-black/20 text-slate-400'}`}
+              >
+                👥 双人对战
+              </button>
+          </div>
           
           <div className="bg-black/20 p-4 rounded-xl mb-6 border border-white/5">
+               {mode === 'PVE' && (
+                   <div className="mb-4">
+                       <label className="block text-xs text-slate-500 mb-1">电脑难度 (积分 x倍率)</label>
+                       <div className="flex gap-2">
+                           {CHESS_BOT_LEVELS.map(level => (
+                               <button
+                                key={level.id}
+                                onClick={() => setBotLevelId(level.id)}
+                                className={`flex-1 py-1 rounded border text-xs ${botLevelId === level.id ? 'bg-emerald-600 border-emerald-400 text-white' : 'bg-slate-800 border-slate-600 text-slate-400'}`}
+                               >
+                                   {level.name} x{level.pointsMultiplier}
+                               </button>
+                           ))}
+                       </div>
+                   </div>
+               )}
+
+               <div className="mb-4">
+                   <label className="block text-xs text-slate-500 mb-1">变体</label>
+                   <div className="flex gap-2">
+                       {(Object.keys(VARIANT_LABELS) as ChessVariant[]).map(variant => (
+                           <button
+                            key={variant}
+                            onClick={() => setMatchConfig({...matchConfig, variant})}
+                            className={`flex-1 py-1 rounded border text-xs whitespace-nowrap ${matchConfig.variant === variant ? 'bg-emerald-600 border-emerald-400 text-white' : 'bg-slate-800 border-slate-600 text-slate-400'}`}
+                           >
+                               {VARIANT_LABELS[variant]}
+                           </button>
+                       ))}
+                   </div>
+                   {VARIANT_HINTS[matchConfig.variant] && <p className="text-[10px] text-slate-500 mt-1">{VARIANT_HINTS[matchConfig.variant]}</p>}
+               </div>
+
                <div className="mb-4">
                    <label className="block text-xs text-slate-500 mb-1">总局数 (奇数)</label>
                    <div className="flex gap-2">
@@ -301,6 +787,21 @@ export const Chess: React.FC<Props> = ({ user, onGameEnd, player2, onOpenP2Login
                    </div>
                </div>
 
+               <div className="mb-4">
+                   <label className="block text-xs text-slate-500 mb-1">时限</label>
+                   <div className="flex flex-wrap gap-2">
+                       {[null, ...TIME_CONTROLS].map(tc => (
+                           <button
+                            key={tc ? tc.id : 'none'}
+                            onClick={() => setMatchConfig({...matchConfig, timeControlId: tc ? tc.id : null})}
+                            className={`flex-1 py-1 px-2 rounded border text-xs whitespace-nowrap ${matchConfig.timeControlId === (tc ? tc.id : null) ? 'bg-emerald-600 border-emerald-400 text-white' : 'bg-slate-800 border-slate-600 text-slate-400'}`}
+                           >
+                               {tc ? tc.label : '不限时'}
+                           </button>
+                       ))}
+                   </div>
+               </div>
+
                <div>
                    <label className="block text-xs text-slate-500 mb-1">押注积分</label>
                    <input 
@@ -313,31 +814,203 @@ export const Chess: React.FC<Props> = ({ user, onGameEnd, player2, onOpenP2Login
                    />
                </div>
 
-               <div className="pt-2 border-t border-white/5">
+               {startPosition && (
+                   <div className="mt-4 flex items-center justify-between gap-2 text-xs bg-emerald-900/20 border border-emerald-500/20 rounded px-2 py-1">
+                       <span className="text-emerald-300 shrink-0">自定义局面</span>
+                       <span className="font-mono text-slate-400 truncate" title={positionToFen(startPosition)}>{positionToFen(startPosition)}</span>
+                       <button onClick={() => setStartPosition(null)} className="text-slate-500 hover:text-white">✕</button>
+                   </div>
+               )}
+
+               <div className="mt-4 pt-2 border-t border-white/5">
                     <div className="flex justify-between items-center text-xs">
                         <span className="text-slate-400">黑方 (P2)</span>
-                        <span className={`font-bold ${player2 ? 'text-white' : 'text-slate-500'}`}>
-                            {player2 ? player2.username : (user.username === '测试玩家' ? '测试路人' : '未登录')}
+                        <span className={`font-bold ${player2 || mode === 'PVE' ? 'text-white' : 'text-slate-500'}`}>
+                            {mode === 'PVE' ? `🤖 ${opponentName}` : (player2 ? player2.username : (user.username === '测试玩家' ? '测试路人' : '未登录'))}
                         </span>
                     </div>
                 </div>
            </div>
 
           <Button onClick={startMatch} className="w-full py-3 text-lg bg-emerald-600 hover:bg-emerald-500">
-              {user.username !== '测试玩家' && !player2 ? '登录 2P 并开始' : '开始对弈'}
+              {mode === 'PVP' && user.username !== '测试玩家' && !player2 ? '登录 2P 并开始' : '开始对弈'}
           </Button>
+
+          <div className="flex mt-3">
+              <button
+                onClick={openEditor}
+                className="flex-1 text-xs text-slate-400 hover:text-emerald-400 transition-colors"
+              >
+                  🧩 局面编辑器
+              </button>
+              <button
+                onClick={() => { setShowPgnImport(!showPgnImport); setPgnError(''); }}
+                className="flex-1 text-xs text-slate-400 hover:text-emerald-400 transition-colors"
+              >
+                  📂 导入 PGN 复盘
+              </button>
+          </div>
+
+          {showPgnImport && (
+              <div className="mt-3 bg-black/20 p-4 rounded-xl border border-white/5 animate-slide-up">
+                  <textarea
+                    value={pgnText}
+                    onChange={(e) => setPgnText(e.target.value)}
+                    placeholder={'[White "..."]\n\n1. e4 e5 2. Nf3 ...'}
+                    className="w-full h-32 bg-slate-950 border border-slate-600 rounded px-2 py-1 text-white text-xs font-mono"
+                  />
+                  {pgnError && <p className="text-red-400 text-xs mt-1">{pgnError}</p>}
+                  <div className="flex gap-2 mt-2">
+                      <input type="file" accept=".pgn,text/plain" ref={pgnFileRef} onChange={handlePgnFile} className="hidden" />
+                      <Button variant="secondary" onClick={() => pgnFileRef.current?.click()} className="flex-1 text-xs py-1">选择文件</Button>
+                      <Button onClick={handleLoadPgn} disabled={!pgnText.trim()} className="flex-1 text-xs py-1 bg-emerald-600 hover:bg-emerald-500">载入棋谱</Button>
+                  </div>
+              </div>
+          )}
         </div>
       </div>
       );
   }
 
+  // Board Editor UI
+  if (gameState === 'EDITOR') {
+      const renderPalette = (color: ChessColor) => (
+          <div className="flex gap-1 justify-center">
+              {EDITOR_PIECES.map(type => {
+                  const code = `${color === 'white' ? 'w' : 'b'}${type}`;
+                  return (
+                      <button
+                        key={code}
+                        draggable
+                        onDragStart={(e) => e.dataTransfer.setData('text/plain', code)}
+                        onClick={() => setEditorTool(editorTool === code ? null : code)}
+                        className={`w-9 h-9 sm:w-11 sm:h-11 text-2xl sm:text-3xl rounded bg-slate-500 hover:bg-slate-400 ${color === 'white' ? 'text-white' : 'text-black'} ${editorTool === code ? 'ring-4 ring-yellow-400' : ''}`}
+                      >
+                          {makePiece(type, color).label}
+                      </button>
+                  );
+              })}
+          </div>
+      );
+
+      return (
+        <div
+          className="flex flex-col items-center justify-center h-full p-4 overflow-y-auto"
+          onDragOver={(e) => e.preventDefault()}
+          onDrop={handleEditorDropOutside}
+        >
+          <h2 className="text-xl font-bold text-emerald-400 mb-3">局面编辑器</h2>
+
+          <div className="mb-2">{renderPalette('black')}</div>
+
+          <div className="bg-slate-800 p-2 rounded-lg shadow-2xl border-4 border-slate-700">
+            <div className="grid grid-cols-8 gap-0 bg-slate-400 select-none">
+              {editorBoard.map((row, r) => row.map((cell, c) => {
+                  const isBlackSquare = (r + c) % 2 === 1;
+                  return (
+                    <div
+                      key={`${r}-${c}`}
+                      onClick={() => handleEditorSquareClick(r, c)}
+                      onDragOver={(e) => e.preventDefault()}
+                      onDrop={(e) => { e.stopPropagation(); handleEditorDrop(e, r, c); }}
+                      className={`w-10 h-10 sm:w-12 sm:h-12 flex items-center justify-center text-3xl sm:text-4xl cursor-pointer relative ${isBlackSquare ? 'bg-slate-600' : 'bg-slate-300'}`}
+                    >
+                      {c === 0 && <span className={`absolute left-0.5 top-0.5 text-[0.6rem] font-bold ${isBlackSquare ? 'text-slate-400' : 'text-slate-500'}`}>{8 - r}</span>}
+                      {r === 7 && <span className={`absolute right-0.5 bottom-0 text-[0.6rem] font-bold ${isBlackSquare ? 'text-slate-400' : 'text-slate-500'}`}>{String.fromCharCode(97 + c)}</span>}
+                      {cell && (
+                        <span
+                          draggable
+                          onDragStart={(e) => e.dataTransfer.setData('text/plain', `sq:${r},${c}`)}
+                          className={`drop-shadow-lg cursor-grab ${cell.color === 'white' ? 'text-white' : 'text-black'}`}
+                        >
+                          {cell.label}
+                        </span>
+                      )}
+                    </div>
+                  );
+              }))}
+            </div>
+          </div>
+
+          <div className="mt-2">{renderPalette('white')}</div>
+
+          <div className="w-full max-w-md mt-4 bg-slate-900/60 backdrop-blur-xl p-4 rounded-xl border border-white/5 space-y-3">
+              <div className="flex items-center gap-2 text-xs">
+                  <span className="text-slate-400">走子方</span>
+                  {(['white', 'black'] as ChessColor[]).map(color => (
+                      <button
+                        key={color}
+                        onClick={() => setEditorTurn(color)}
+                        className={`flex-1 py-1 rounded border ${editorTurn === color ? 'bg-emerald-600 border-emerald-400 text-white' : 'bg-slate-800 border-slate-600 text-slate-400'}`}
+                      >
+                          {color === 'white' ? '白方先走' : '黑方先走'}
+                      </button>
+                  ))}
+                  <button
+                    onClick={() => setEditorTool(editorTool === 'erase' ? null : 'erase')}
+                    className={`px-2 py-1 rounded border ${editorTool === 'erase' ? 'bg-red-600 border-red-400 text-white' : 'bg-slate-800 border-slate-600 text-slate-400'}`}
+                  >
+                      橡皮
+                  </button>
+              </div>
+
+              <div className="flex items-center gap-2 text-xs">
+                  <span className="text-slate-400">易位权</span>
+                  {EDITOR_CASTLING.map(({ key, label }) => (
+                      <button
+                        key={key}
+                        onClick={() => { setEditorCastling({ ...editorCastling, [key]: !editorCastling[key] }); setEditorError(''); }}
+                        className={`flex-1 py-1 rounded border font-mono ${editorCastling[key] ? 'bg-emerald-600 border-emerald-400 text-white' : 'bg-slate-800 border-slate-600 text-slate-400'}`}
+                      >
+                          {label}
+                      </button>
+                  ))}
+              </div>
+
+              <div className="flex gap-2">
+                  <input
+                    value={fenInput}
+                    onChange={(e) => setFenInput(e.target.value)}
+                    placeholder="FEN"
+                    className="flex-1 bg-slate-950 border border-slate-600 rounded px-2 py-1 text-white text-xs font-mono"
+                  />
+                  <Button variant="secondary" onClick={handleLoadFen} className="text-xs py-1">载入</Button>
+                  <Button variant="secondary" onClick={handleCopyFen} className="text-xs py-1">复制</Button>
+              </div>
+              {editorError && <p className="text-red-400 text-xs">{editorError}</p>}
+
+              <div className="flex gap-2">
+                  <Button variant="secondary" onClick={() => { setEditorBoard(Array(8).fill(null).map(() => Array(8).fill(null))); setEditorCastling(NO_CASTLING); }} className="flex-1 text-xs py-1">清空</Button>
+                  <Button variant="secondary" onClick={() => { setEditorBoard(createInitialPosition().board); setEditorTurn('white'); setEditorCastling(createInitialPosition().castling); }} className="flex-1 text-xs py-1">初始局面</Button>
+                  <Button variant="secondary" onClick={() => setGameState('SETUP')} className="flex-1 text-xs py-1">取消</Button>
+              </div>
+              <Button onClick={handleUseEditorPosition} className="w-full py-2 bg-emerald-600 hover:bg-emerald-500">使用此局面</Button>
+          </div>
+        </div>
+      );
+  }
+
   return (
     <div className="flex flex-col items-center justify-center h-full p-4">
       {/* Centered Game Header */}
+      {gameState === 'REVIEW' && review ? (
+      <div className="w-full max-w-md mb-4 flex flex-col items-center relative animate-slide-up">
+          <div className="flex flex-col items-center bg-slate-900/60 backdrop-blur-xl px-8 py-2 rounded-2xl border border-white/10 shadow-xl">
+              <div className="text-[10px] text-slate-400 font-bold tracking-[0.2em] mb-1">
+                PGN REVIEW {review.tags.Date ? `· ${review.tags.Date}` : ''}
+              </div>
+              <div className="flex items-center gap-4 text-sm font-bold">
+                  <span className="text-white">♔ {review.tags.White || '?'}</span>
+                  <span className="text-emerald-400 font-mono">{review.result}</span>
+                  <span className="text-slate-400">♚ {review.tags.Black || '?'}</span>
+              </div>
+          </div>
+      </div>
+      ) : (
       <div className="w-full max-w-md mb-4 flex flex-col items-center relative animate-slide-up">
           <div className="flex flex-col items-center bg-slate-900/60 backdrop-blur-xl px-8 py-2 rounded-2xl border border-white/10 shadow-xl">
               <div className="text-[10px] text-slate-400 font-bold tracking-[0.2em] mb-1">
-                BO{matchConfig.totalFrames} MATCH
+                BO{matchConfig.totalFrames} MATCH{timeControl ? ` · ${timeControl.label}` : ''}{matchConfig.variant !== 'STANDARD' ? ` · ${VARIANT_NAMES[matchConfig.variant].toUpperCase()}` : ''}
               </div>
               <div className="flex items-center gap-6">
                   <div className={`flex flex-col items-center transition-opacity duration-300 relative ${turn === 'white' ? 'opacity-100 scale-110' : 'opacity-50'}`}>
@@ -351,7 +1024,7 @@ export const Chess: React.FC<Props> = ({ user, onGameEnd, player2, onOpenP2Login
                   <div className="text-slate-600 font-light text-2xl">:</div>
                   <div className={`flex flex-col items-center transition-opacity duration-300 ${turn === 'black' ? 'opacity-100 scale-110' : 'opacity-50'}`}>
                      <div className="w-8 h-8 rounded-full bg-black border border-slate-600 flex items-center justify-center text-sm mb-1 overflow-hidden">
-                        {player2?.avatar?.startsWith('data:') ? <img src={player2.avatar} className="w-full h-full object-cover"/> : (player2?.avatar || '👤')}
+                        {opponentAvatar.startsWith('data:') ? <img src={opponentAvatar} className="w-full h-full object-cover"/> : opponentAvatar}
                      </div>
                      <span className="text-[10px] font-bold text-slate-400 tracking-wider">黑方</span>
                      <span className="text-4xl font-black text-white leading-none">{matchScore.p2}</span>
@@ -359,10 +1032,38 @@ export const Chess: React.FC<Props> = ({ user, onGameEnd, player2, onOpenP2Login
               </div>
           </div>
       </div>
+      )}
+
+      {clock && gameState !== 'REVIEW' && (
+          <GameClock
+            clock={clock}
+            active={gameState === 'PLAYING' ? clockSideOf(turn) : null}
+            labels={{ p1: `白方 · ${user.username}`, p2: `黑方 · ${opponentName}` }}
+            className="max-w-md mb-2"
+          />
+      )}
 
+      {gameState === 'REVIEW' && review ? (
+      <div className="text-right w-full max-w-md mb-2 flex justify-between items-center px-1">
+          <div className="text-xs text-slate-500 font-mono">
+              {review.index === 0 ? '初始局面' : `${review.positions[review.index - 1].fullmoveNumber}${review.positions[review.index - 1].turn === 'white' ? '.' : '...'} ${review.sans[review.index - 1]}`}
+              <span className="ml-2 text-slate-600">({review.index}/{review.sans.length})</span>
+          </div>
+          <div className="flex gap-1">
+              <Button onClick={() => { setReview(null); setGameState('SETUP'); }} variant="secondary" className="text-xs py-1 h-8 bg-slate-800/50 hover:bg-slate-700 backdrop-blur-md border border-white/5">退出</Button>
+          </div>
+      </div>
+      ) : (
       <div className="text-right w-full max-w-md mb-2 flex justify-between items-center px-1">
           <div className="text-xs text-slate-500 font-mono">
               当前回合: <span className={turn === 'white' ? 'text-white' : 'text-slate-400'}>{turn === 'white' ? '白方' : '黑方'}</span>
+              {checkedKing && gameState === 'PLAYING' && <span className="ml-2 text-red-400 font-bold animate-pulse">将军!</span>}
+              {botThinking && <span className="ml-2 text-emerald-400 animate-pulse">电脑思考中...</span>}
+              {notice && <span className="ml-2 text-amber-400">{notice}</span>}
+              {browsed && <span className="ml-2 text-amber-400">查看历史局面 (只读)</span>}
+              {position.variant === 'THREE_CHECK' && gameState !== 'REVIEW' && (
+                  <span className="ml-2 text-slate-400">将军 {position.checksGiven.white}/3 : {position.checksGiven.black}/3</span>
+              )}
           </div>
           <div className="flex gap-2">
               <Button 
@@ -373,39 +1074,91 @@ export const Chess: React.FC<Props> = ({ user, onGameEnd, player2, onOpenP2Login
               >
                 ↶ 悔棋
               </Button>
+              <Button
+                onClick={handleExportPgn}
+                variant="secondary"
+                className="text-xs py-1 h-8 bg-slate-800/50 hover:bg-slate-700 backdrop-blur-md border border-white/5"
+                disabled={roundRecords.length === 0 && sanMoves.length === 0}
+              >
+                PGN
+              </Button>
               <Button onClick={() => setGameState('SETUP')} variant="secondary" className="text-xs py-1 h-8 bg-slate-800/50 hover:bg-slate-700 backdrop-blur-md border border-white/5">重置</Button>
           </div>
       </div>
+      )}
       
+      <div className="flex flex-col lg:flex-row items-center lg:items-start gap-3">
       <div className="bg-slate-800 p-2 rounded-lg shadow-2xl relative border-4 border-slate-700">
         {gameState === 'ROUND_OVER' && (
              <div className="absolute inset-0 z-50 bg-slate-900/80 backdrop-blur-sm flex flex-col items-center justify-center rounded-lg text-center p-4">
-                 <h3 className="text-2xl font-bold text-white mb-4">本局结束</h3>
+                 <h3 className="text-2xl font-bold text-white mb-2">本局结束</h3>
+                 {roundMessage && <p className="text-emerald-300 mb-2">{roundMessage}</p>}
                  <p className="text-slate-300 mb-6">比分 {matchScore.p1} : {matchScore.p2}</p>
-                 <Button onClick={initRound}>下一局</Button>
+                 <div className="flex gap-2">
+                     <Button variant="secondary" onClick={() => setShowAnalysis(true)}>📈 分析</Button>
+                     <Button variant="secondary" onClick={handleExportPgn}>导出 PGN</Button>
+                     <Button onClick={initRound}>下一局</Button>
+                 </div>
              </div>
         )}
 
         {gameState === 'GAMEOVER' && (
             <div className="absolute inset-0 z-50 bg-slate-900/90 backdrop-blur-sm flex flex-col items-center justify-center rounded-lg text-center p-4">
                 <h3 className="text-4xl font-bold text-yellow-400 mb-4">
-                    {winner === 'white' ? user.username : (player2?.username || 'Player 2')} 获得最终胜利!
+                    {winner === 'draw' ? '双方战平!' : `${winner === 'white' ? user.username : opponentName} 获得最终胜利!`}
                 </h3>
+                {roundMessage && <p className="text-emerald-300 mb-2">{roundMessage}</p>}
                 <p className="text-white mb-6">
-                    {winner === 'white' ? '获得 ' + matchConfig.pointsPerMatch + ' 积分' : '扣除 ' + matchConfig.pointsPerMatch + ' 积分'}
+                    {winner === 'draw' ? `比分 ${matchScore.p1} : ${matchScore.p2}, 积分不变` : winner === 'white' ? '获得 ' + matchPoints + ' 积分' : '扣除 ' + matchPoints + ' 积分'}
                 </p>
-                <Button onClick={() => setGameState('SETUP')}>返回设置</Button>
+                <div className="flex gap-2">
+                    <Button variant="secondary" onClick={() => setShowAnalysis(true)}>📈 分析</Button>
+                    <Button variant="secondary" onClick={handleExportPgn}>导出 PGN</Button>
+                    <Button onClick={() => setGameState('SETUP')}>返回设置</Button>
+                </div>
+            </div>
+        )}
+
+        {drawOffer && gameState === 'PLAYING' && (
+            <div className="absolute inset-0 z-50 bg-slate-900/70 backdrop-blur-sm flex flex-col items-center justify-center rounded-lg p-4 text-center">
+                <p className="text-white font-bold mb-1">{colorName(drawOffer)}提议和棋</p>
+                <p className="text-slate-400 text-xs mb-4">{colorName(opponentOf(drawOffer))}是否接受?</p>
+                <div className="flex gap-2">
+                    <Button variant="secondary" onClick={() => handleDrawAnswer(false)}>拒绝</Button>
+                    <Button onClick={() => handleDrawAnswer(true)}>接受和棋</Button>
+                </div>
+            </div>
+        )}
+
+        {pendingPromotion && (
+            <div className="absolute inset-0 z-50 bg-slate-900/70 backdrop-blur-sm flex flex-col items-center justify-center rounded-lg p-4">
+                <p className="text-white font-bold mb-3">选择升变棋子</p>
+                <div className="flex gap-2">
+                    {(['Q', 'R', 'B', 'N'] as PromotionType[]).map(type => (
+                        <button
+                          key={type}
+                          onClick={() => handlePromotionChoice(type)}
+                          className={`w-14 h-14 text-4xl rounded-lg bg-slate-600 hover:bg-slate-500 border border-white/10 ${turn === 'white' ? 'text-white' : 'text-black'}`}
+                        >
+                            {makePiece(type, turn).label}
+                        </button>
+                    ))}
+                </div>
+                <Button variant="ghost" onClick={() => setPendingPromotion(null)} className="mt-3 text-xs text-slate-300">取消</Button>
             </div>
         )}
 
         <div className="grid grid-cols-8 gap-0 bg-slate-400 select-none relative">
-          {board.map((row, r) => (
+          {viewBoard.map((row, r) => (
             row.map((cell, c) => {
               const isBlackSquare = (r + c) % 2 === 1;
               const isSelected = selected?.r === r && selected?.c === c;
-              const isLastMove = (lastMove?.from.r === r && lastMove?.from.c === c) || (lastMove?.to.r === r && lastMove?.to.c === c);
-              const isValidMove = validMoves.some(m => m.r === r && m.c === c);
-              const isCapture = isValidMove && cell !== null; // Valid move and has piece = capture
+              const isLastMove = (viewLastMove?.from.r === r && viewLastMove?.from.c === c) || (viewLastMove?.to.r === r && viewLastMove?.to.c === c);
+              const validMove = validMoves.find(m => m.to.r === r && m.to.c === c);
+              const isValidMove = !!validMove;
+              const isCapture = isValidMove && !validMove?.castle && (cell !== null || !!validMove?.enPassant); // Valid move onto a piece (or en passant) = capture
+              const isHill = viewVariant === 'KING_OF_THE_HILL' && (r === 3 || r === 4) && (c === 3 || c === 4);
+              const isCheckedKing = checkedKing?.r === r && checkedKing?.c === c;
               const isAnimatingCapture = captureAnim?.r === r && captureAnim?.c === c;
               
               return (
@@ -417,6 +1170,8 @@ export const Chess: React.FC<Props> = ({ user, onGameEnd, player2, onOpenP2Login
                     ${isBlackSquare ? 'bg-slate-600' : 'bg-slate-300'}
                     ${isSelected ? 'ring-inset ring-4 ring-yellow-400 z-10' : ''}
                     ${isLastMove && !isSelected ? 'bg-indigo-400/50' : ''}
+                    ${isCheckedKing ? 'bg-red-500/70' : ''}
+                    ${isHill && !isSelected && !isLastMove && !isCheckedKing ? 'ring-inset ring-2 ring-amber-400/60' : ''}
                     transition-colors duration-200
                   `}
                 >
@@ -436,7 +1191,7 @@ export const Chess: React.FC<Props> = ({ user, onGameEnd, player2, onOpenP2Login
                     </span>
                   )}
 
-                  {isValidMove && !cell && (
+                  {isValidMove && !isCapture && (
                     <div className="absolute w-3 h-3 sm:w-4 sm:h-4 bg-green-500/50 rounded-full z-10 animate-pulse" />
                   )}
 
@@ -467,6 +1222,49 @@ export const Chess: React.FC<Props> = ({ user, onGameEnd, player2, onOpenP2Login
           ))}
         </div>
       </div>
+
+      <MoveList
+        moves={gameState === 'REVIEW' && review ? review.sans : sanMoves}
+        current={gameState === 'REVIEW' && review ? review.index : (browsed ? viewPly! : sanMoves.length)}
+        onSelect={gameState === 'REVIEW' ? stepReview : handleBrowse}
+        firstNumber={firstPosition.fullmoveNumber}
+        secondFirst={firstPosition.turn === 'black'}
+        keyboard={(gameState === 'PLAYING' || gameState === 'REVIEW') && !pendingPromotion && !drawOffer}
+        className="w-full max-w-md h-40 lg:w-48 lg:h-[472px]"
+      />
+      </div>
+
+      {gameState === 'PLAYING' && (
+          <div className="w-full max-w-md mt-2 flex gap-2 px-1">
+              <Button
+                onClick={handleOfferDraw}
+                variant="secondary"
+                className="flex-1 text-xs py-1 h-8 bg-slate-800/50 hover:bg-slate-700 backdrop-blur-md border border-white/5"
+                disabled={!!drawOffer || isBotTurn}
+              >
+                🤝 提和
+              </Button>
+              {(mode === 'PVE' ? ['white'] as ChessColor[] : ['white', 'black'] as ChessColor[]).map(color => (
+                  <Button
+                    key={color}
+                    onClick={() => handleResign(color)}
+                    variant="secondary"
+                    className="flex-1 text-xs py-1 h-8 bg-slate-800/50 hover:bg-red-900/60 backdrop-blur-md border border-white/5"
+                  >
+                    🏳️ {mode === 'PVE' ? '认输' : `${colorName(color)}认输`}
+                  </Button>
+              ))}
+          </div>
+      )}
+
+      {showAnalysis && roundRecords.length > 0 && (
+          <GameAnalysis
+            gameType={GameType.CHESS}
+            rounds={analysisRounds}
+            playerNames={[user.username, opponentName]}
+            onClose={() => setShowAnalysis(false)}
+          />
+      )}
     </div>
   );
 };
\ No newline at end of file
@@ -0,0 +1,288 @@
+import React, { useState } from 'react';
+import { Button } from '../ui/Button';
+import { ChessPiece, User, MatchDetails } from '../../types';
+import { playSound } from '../../utils/sound';
+import { MoveList } from '../ui/MoveList';
+import { XiangqiColor, findGeneral } from '../../utils/xiangqi';
+import { JieqiBoard, createJieqiBoard, applyJieqiMove, getLegalJieqiMoves, getJieqiStatus, isJieqiGeneralInCheck, jieqiMoveToChinese, jieqiPositionKey, JIEQI_QUIET_MOVE_LIMIT } from '../../utils/jieqi';
+
+interface Props {
+  user: User;
+  player2?: User | null;
+  totalFrames: number;
+  pointsPerMatch: number;
+  onGameEnd: (points: number, isWin?: boolean, details?: MatchDetails, isDraw?: boolean) => void;
+  onExit: () => void;
+}
+
+const colorName = (color: XiangqiColor) => color === 'red' ? '红方' : '黑方';
+
+// 揭棋 match on one screen: the user plays red against the second player
+export const Jieqi: React.FC<Props> = ({ user, player2, totalFrames, pointsPerMatch, onGameEnd, onExit }) => {
+  const [board, setBoard] = useState<JieqiBoard>(() => createJieqiBoard());
+  const [turn, setTurn] = useState<XiangqiColor>('red');
+  const [selected, setSelected] = useState<{ r: number, c: number } | null>(null);
+  const [validMoves, setValidMoves] = useState<{ r: number, c: number }[]>([]);
+  const [lastMove, setLastMove] = useState<{ from: { r: number, c: number }, to: { r: number, c: number } } | null>(null);
+  const [captured, setCaptured] = useState<{ r: number, c: number, piece: ChessPiece } | null>(null);
+  const [notation, setNotation] = useState<string[]>([]);
+  // Positions since the last capture or reveal, for the repetition and move-limit draws
+  const [quietKeys, setQuietKeys] = useState<string[]>(() => [jieqiPositionKey(board, 'red')]);
+
+  const [gameState, setGameState] = useState<'PLAYING' | 'ROUND_OVER' | 'GAMEOVER'>('PLAYING');
+  const [matchScore, setMatchScore] = useState({ p1: 0, p2: 0 }); // p1=Red, p2=Black
+  const [roundsPlayed, setRoundsPlayed] = useState(0);
+  const [winner, setWinner] = useState<XiangqiColor | 'draw' | null>(null);
+  const [roundMessage, setRoundMessage] = useState('');
+
+  const opponentName = player2 ? player2.username : 'Player 2';
+  const checkedGeneral = gameState === 'PLAYING' && isJieqiGeneralInCheck(board, turn) ? findGeneral(board, turn) : null;
+
+  const initRound = () => {
+      const startBoard = createJieqiBoard();
+      setBoard(startBoard);
+      setTurn('red');
+      setQuietKeys([jieqiPositionKey(startBoard, 'red')]);
+      setSelected(null);
+      setValidMoves([]);
+      setLastMove(null);
+      setCaptured(null);
+      setNotation([]);
+      setRoundMessage('');
+      setGameState('PLAYING');
+  };
+
+  // roundWinner is null for a drawn round (repetition or move limit)
+  const handleRoundEnd = (roundWinner: XiangqiColor | null, reason: string) => {
+      playSound.win();
+      setRoundMessage(reason);
+
+      const played = roundsPlayed + 1;
+      const newScore = { ...matchScore };
+      if (roundWinner === 'red') newScore.p1 += 1;
+      else if (roundWinner === 'black') newScore.p2 += 1;
+      else {
+          newScore.p1 += 0.5;
+          newScore.p2 += 0.5;
+      }
+      setRoundsPlayed(played);
+      setMatchScore(newScore);
+
+      const half = totalFrames / 2;
+      if (newScore.p1 <= half && newScore.p2 <= half && played < totalFrames) {
+          setGameState('ROUND_OVER');
+          return;
+      }
+
+      const details: MatchDetails = {
+          opponent: opponentName,
+          opponentAvatar: player2?.avatar || '👤',
+          score: `${newScore.p1}-${newScore.p2}`,
+          matchTags: ['PVP', `BO${totalFrames}`, '揭棋']
+      };
+      setGameState('GAMEOVER');
+      if (newScore.p1 > newScore.p2) {
+          setWinner('red');
+          onGameEnd(pointsPerMatch, true, details);
+      } else if (newScore.p2 > newScore.p1) {
+          setWinner('black');
+          onGameEnd(-pointsPerMatch, false, details);
+      } else {
+          setWinner('draw');
+          onGameEnd(0, false, details, true);
+      }
+  };
+
+  const executeMove = (from: { r: number, c: number }, to: { r: number, c: number }) => {
+      const target = board[to.r][to.c];
+      setNotation([...notation, jieqiMoveToChinese(board, from, to)]);
+
+      if (target) {
+          // A face-down piece shows what it was as it is taken
+          setCaptured({ r: to.r, c: to.c, piece: target });
+          setTimeout(() => setCaptured(null), 900);
+          playSound.capture();
+      } else {
+          playSound.move();
+      }
+
+      const newBoard = applyJieqiMove(board, { from, to });
+      const nextTurn = turn === 'red' ? 'black' : 'red';
+      const key = jieqiPositionKey(newBoard, nextTurn);
+      const keys = target || board[from.r][from.c]?.hidden ? [key] : [...quietKeys, key];
+      setBoard(newBoard);
+      setQuietKeys(keys);
+      setLastMove({ from, to });
+      setTurn(nextTurn);
+      setSelected(null);
+      setValidMoves([]);
+
+      const status = getJieqiStatus(newBoard, nextTurn);
+      if (status !== 'PLAYING') {
+          const moverName = colorName(turn);
+          handleRoundEnd(turn, status === 'CHECKMATE' ? `绝杀! ${moverName}获胜` : `困毙! ${colorName(nextTurn)}无子可动, ${moverName}获胜`);
+      } else if (keys.filter(k => k === key).length >= 3) {
+          handleRoundEnd(null, '局面三次重复, 判和');
+      } else if (keys.length > JIEQI_QUIET_MOVE_LIMIT) {
+          handleRoundEnd(null, `双方 ${JIEQI_QUIET_MOVE_LIMIT / 2} 回合未吃子未揭子, 判和`);
+      }
+  };
+
+  const handlePointClick = (r: number, c: number) => {
+      if (gameState !== 'PLAYING') return;
+      const piece = board[r][c];
+      if (piece && piece.color === turn) {
+          setSelected({ r, c });
+          setValidMoves(getLegalJieqiMoves(board, r, c));
+          playSound.click();
+          return;
+      }
+      if (selected && validMoves.some(m => m.r === r && m.c === c)) {
+          executeMove(selected, { r, c });
+      } else {
+          setSelected(null);
+          setValidMoves([]);
+      }
+  };
+
+  return (
+    <div className="flex flex-col items-center justify-center h-full p-2 overflow-y-auto">
+      <div className="w-full max-w-md mb-4 flex flex-col items-center relative animate-slide-up">
+          <div className="flex flex-col items-center bg-[#eecfa1]/10 px-8 py-2 rounded-2xl border border-amber-500/20 shadow-xl backdrop-blur-md">
+              <div className="text-[10px] text-amber-500/70 font-bold tracking-[0.2em] mb-1 uppercase">
+                揭棋 · BO{totalFrames} Match
+              </div>
+              <div className="flex items-center gap-6">
+                  <div className={`flex flex-col items-center transition-all duration-300 ${turn === 'red' ? 'scale-110 opacity-100' : 'opacity-60'}`}>
+                     <span className="text-[10px] font-bold text-red-400 tracking-wider">红方 · {user.username}</span>
+                     <span className="text-4xl font-black text-red-500 leading-none drop-shadow-md">{matchScore.p1}</span>
+                  </div>
+                  <div className="text-amber-700/50 font-light text-2xl">:</div>
+                  <div className={`flex flex-col items-center transition-all duration-300 ${turn === 'black' ? 'scale-110 opacity-100' : 'opacity-60'}`}>
+                     <span className="text-[10px] font-bold text-slate-400 tracking-wider">黑方 · {opponentName}</span>
+                     <span className="text-4xl font-black text-slate-900 bg-slate-200 px-1 rounded leading-none">{matchScore.p2}</span>
+                  </div>
+              </div>
+          </div>
+      </div>
+
+      <div className="text-right w-full max-w-md mb-2 flex justify-between items-center px-1">
+          <div className="text-xs text-amber-600/80 font-bold">
+              当前: <span className={turn === 'red' ? 'text-red-500' : 'text-slate-900'}>{colorName(turn)}</span>
+              {checkedGeneral && <span className="ml-2 text-red-500 font-bold animate-pulse">将军!</span>}
+          </div>
+          <Button onClick={onExit} variant="secondary" className="text-xs py-1 mt-0 h-8 bg-slate-800/50 hover:bg-slate-700 backdrop-blur-md border border-white/10">重置</Button>
+      </div>
+
+      <div className="flex flex-col lg:flex-row items-center lg:items-start gap-3">
+      <div className="bg-[#eecfa1] p-4 rounded-lg shadow-2xl relative select-none border-4 border-[#8b4513]">
+        {gameState === 'ROUND_OVER' && (
+             <div className="absolute inset-0 z-50 bg-slate-900/80 backdrop-blur-sm flex flex-col items-center justify-center rounded-lg text-center p-4">
+                 <h3 className="text-2xl font-bold text-white mb-2">本局结束</h3>
+                 {roundMessage && <p className="text-red-400 font-bold mb-2">{roundMessage}</p>}
+                 <p className="text-amber-100 mb-6">比分 {matchScore.p1} : {matchScore.p2}</p>
+                 <Button onClick={initRound}>下一局</Button>
+             </div>
+        )}
+
+        {gameState === 'GAMEOVER' && (
+            <div className="absolute inset-0 z-50 bg-slate-900/90 backdrop-blur-sm flex flex-col items-center justify-center rounded-lg text-center p-4">
+                <h3 className="text-4xl font-bold text-red-500 mb-4 tracking-widest">
+                    {winner === 'draw' ? '双方战平!' : `${winner === 'red' ? user.username : opponentName} 获得最终胜利!`}
+                </h3>
+                {roundMessage && <p className="text-red-400 font-bold mb-2">{roundMessage}</p>}
+                <p className="text-white mb-6">
+                    {winner === 'draw' ? `比分 ${matchScore.p1} : ${matchScore.p2}, 积分不变` : winner === 'red' ? `获得 ${pointsPerMatch} 积分` : `扣除 ${pointsPerMatch} 积分`}
+                </p>
+                <Button onClick={onExit}>返回设置</Button>
+            </div>
+        )}
+
+        <div className="relative border-2 border-black w-[324px] h-[360px] sm:w-[450px] sm:h-[500px] bg-[#eecfa1]">
+           <div className="absolute inset-0 grid grid-rows-9 grid-cols-8 gap-0 pointer-events-none">
+             {Array(72).fill(null).map((_, i) => (
+               <div key={i} className={`border-black ${i < 32 || i >= 40 ? 'border' : 'border-r border-l'} `}></div>
+             ))}
+           </div>
+
+           <div className="absolute top-[40%] sm:top-[42%] w-full text-center pointer-events-none opacity-40 font-serif text-2xl sm:text-3xl text-black">
+             <span>楚 河</span>
+             <span className="ml-16 sm:ml-24">漢 界</span>
+           </div>
+
+           <svg className="absolute inset-0 pointer-events-none w-full h-full opacity-60">
+             <line x1="33.3%" y1="0" x2="55.5%" y2="20%" stroke="black" strokeWidth="1" />
+             <line x1="55.5%" y1="0" x2="33.3%" y2="20%" stroke="black" strokeWidth="1" />
+             <line x1="33.3%" y1="100%" x2="55.5%" y2="80%" stroke="black" strokeWidth="1" />
+             <line x1="55.5%" y1="100%" x2="33.3%" y2="80%" stroke="black" strokeWidth="1" />
+           </svg>
+
+           <div className="absolute -top-[5%] -left-[5.5%] w-[111%] h-[110%] grid grid-rows-10 grid-cols-9 z-10">
+              {board.map((row, r) => (
+                row.map((cell, c) => {
+                   const isSelected = selected?.r === r && selected?.c === c;
+                   const isValidMove = validMoves.some(m => m.r === r && m.c === c);
+                   const isLast = (lastMove?.from.r === r && lastMove?.from.c === c) || (lastMove?.to.r === r && lastMove?.to.c === c);
+                   const isChecked = checkedGeneral?.r === r && checkedGeneral?.c === c;
+                   const isCaptured = captured?.r === r && captured?.c === c;
+
+                   return (
+                     <div
+                        key={`${r}-${c}`}
+                        onClick={() => handlePointClick(r, c)}
+                        className="flex items-center justify-center relative cursor-pointer"
+                     >
+                       {isLast && !isSelected && (
+                         <div className="absolute w-8 h-8 sm:w-12 sm:h-12 bg-indigo-500/20 rounded-full" />
+                       )}
+
+                       {/* Face-down pieces show only their side */}
+                       {cell && (
+                         <div className={`
+                           w-8 h-8 sm:w-12 sm:h-12 rounded-full border-2
+                           flex items-center justify-center text-lg sm:text-2xl font-bold shadow-md transition-all duration-200
+                           ${cell.hidden ? 'bg-[#8b5a2b]' : 'bg-[#f5deb3]'}
+                           ${cell.color === 'red' ? 'text-red-600 border-red-600' : 'text-black border-black'}
+                           ${isSelected ? 'scale-110 -translate-y-1 ring-4 ring-yellow-400 z-50' : ''}
+                           ${isValidMove ? 'ring-4 ring-red-500/50 z-40' : ''}
+                           ${isChecked ? 'ring-4 ring-red-600 animate-pulse' : ''}
+                         `}>
+                           {cell.hidden ? <span className="text-sm sm:text-base text-[#eecfa1]/70">暗</span> : cell.label}
+                         </div>
+                       )}
+
+                       {isValidMove && !cell && (
+                         <div className="w-3 h-3 sm:w-4 sm:h-4 bg-green-600/50 rounded-full animate-pulse z-20" />
+                       )}
+
+                       {isCaptured && captured && (
+                         <div className="absolute inset-0 z-50 flex items-center justify-center pointer-events-none">
+                            <div className={`
+                                absolute w-12 h-12 rounded-full border-2
+                                flex items-center justify-center text-2xl font-bold bg-[#f5deb3] animate-ping opacity-60
+                                ${captured.piece.color === 'red' ? 'text-red-600 border-red-600' : 'text-black border-black'}
+                            `}>
+                                {captured.piece.label}
+                            </div>
+                         </div>
+                       )}
+                     </div>
+                   );
+                })
+              ))}
+           </div>
+        </div>
+      </div>
+
+      <MoveList
+        moves={notation}
+        current={notation.length}
+        onSelect={() => {}}
+        keyboard={false}
+        accent="bg-red-600"
+        className="w-full max-w-md h-40 lg:w-48 lg:h-[544px]"
+      />
+      </div>
+    </div>
+  );
+};
@@ -1,192 +1,65 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import { Button } from '../ui/Button';
-import { ChessPiece, User, GameType, MatchDetails } from '../../types';
+import { ChessPiece, User, GameType, MatchDetails, RoundRecord } from '../../types';
 import { playSound } from '../../utils/sound';
 import { StreakIndicator } from '../ui/StreakIndicator';
-
-// Helper: Check bounds
-const isValidPos = (r: number, c: number) => r >= 0 && r < 10 && c >= 0 && c < 9;
-
-// Xiangqi Rules Logic
-const getValidMoves = (board: (ChessPiece | null)[][], piece: ChessPiece, r: number, c: number) => {
-  const moves: { r: number, c: number }[] = [];
-  const isRed = piece.color === 'red';
-  
-  const addIfValid = (nr: number, nc: number) => {
-    if (isValidPos(nr, nc)) {
-      const target = board[nr][nc];
-      if (!target || target.color !== piece.color) {
-        moves.push({ r: nr, c: nc });
-      }
-    }
-  };
-
-  const addLineMoves = (dirs: number[][]) => {
-    dirs.forEach(([dr, dc]) => {
-      let nr = r + dr;
-      let nc = c + dc;
-      while (isValidPos(nr, nc)) {
-        const target = board[nr][nc];
-        if (!target) {
-          moves.push({ r: nr, c: nc });
-        } else {
-          if (target.color !== piece.color) {
-            moves.push({ r: nr, c: nc });
-          }
-          break; // Blocked
-        }
-        nr += dr;
-        nc += dc;
-      }
-    });
-  };
-
-  switch (piece.type) {
-    case 'K': // General/King
-      const kDirs = [[0, 1], [0, -1], [1, 0], [-1, 0]];
-      kDirs.forEach(([dr, dc]) => {
-        const nr = r + dr;
-        const nc = c + dc;
-        if (nc >= 3 && nc <= 5) {
-          if (isRed ? (nr >= 7 && nr <= 9) : (nr >= 0 && nr <= 2)) {
-            addIfValid(nr, nc);
-          }
-        }
-      });
-      break;
-
-    case 'A': // Advisor
-      const aDirs = [[1, 1], [1, -1], [-1, 1], [-1, -1]];
-      aDirs.forEach(([dr, dc]) => {
-        const nr = r + dr;
-        const nc = c + dc;
-        if (nc >= 3 && nc <= 5) {
-          if (isRed ? (nr >= 7 && nr <= 9) : (nr >= 0 && nr <= 2)) {
-            addIfValid(nr, nc);
-          }
-        }
-      });
-      break;
-
-    case 'E': // Elephant
-      const eDirs = [
-        { dr: -2, dc: -2, er: -1, ec: -1 }, { dr: -2, dc: 2, er: -1, ec: 1 },
-        { dr: 2, dc: -2, er: 1, ec: -1 }, { dr: 2, dc: 2, er: 1, ec: 1 },
-      ];
-      eDirs.forEach(({ dr, dc, er, ec }) => {
-        const nr = r + dr;
-        const nc = c + dc;
-        if (isRed ? nr >= 5 : nr <= 4) {
-          if (isValidPos(r + er, c + ec) && !board[r + er][c + ec]) {
-             addIfValid(nr, nc);
-          }
-        }
-      });
-      break;
-
-    case 'N': // Horse
-      const nDirs = [
-        { dr: -2, dc: -1, lr: -1, lc: 0 }, { dr: -2, dc: 1, lr: -1, lc: 0 },
-        { dr: 2, dc: -1, lr: 1, lc: 0 }, { dr: 2, dc: 1, lr: 1, lc: 0 },
-        { dr: -1, dc: -2, lr: 0, lc: -1 }, { dr: 1, dc: -2, lr: 0, lc: -1 },
-        { dr: -1, dc: 2, lr: 0, lc: 1 }, { dr: 1, dc: 2, lr: 0, lc: 1 },
-      ];
-      nDirs.forEach(({ dr, dc, lr, lc }) => {
-        if (isValidPos(r + lr, c + lc) && !board[r + lr][c + lc]) {
-          addIfValid(r + dr, c + dc);
-        }
-      });
-      break;
-
-    case 'R': // Rook
-      addLineMoves([[0, 1], [0, -1], [1, 0], [-1, 0]]);
-      break;
-
-    case 'C': // Cannon
-      const cDirs = [[0, 1], [0, -1], [1, 0], [-1, 0]];
-      cDirs.forEach(([dr, dc]) => {
-        let nr = r + dr;
-        let nc = c + dc;
-        let screenFound = false;
-        while (isValidPos(nr, nc)) {
-          const target = board[nr][nc];
-          if (!screenFound) {
-            if (!target) {
-              moves.push({ r: nr, c: nc }); 
-            } else {
-              screenFound = true; 
-            }
-          } else {
-            if (target) {
-              if (target.color !== piece.color) {
-                moves.push({ r: nr, c: nc });
-              }
-              break; 
-            }
-          }
-          nr += dr;
-          nc += dc;
-        }
-      });
-      break;
-
-    case 'P': // Soldier
-      const forward = isRed ? -1 : 1;
-      addIfValid(r + forward, c);
-      const crossedRiver = isRed ? r <= 4 : r >= 5;
-      if (crossedRiver) {
-        addIfValid(r, c - 1);
-        addIfValid(r, c + 1);
-      }
-      break;
-  }
-  return moves;
-};
-
-const createInitialXiangqiBoard = (): (ChessPiece | null)[][] => {
-  const board = Array(10).fill(null).map(() => Array(9).fill(null));
-
-  const setupRow = (row: number, color: 'red' | 'black', types: string[]) => {
-    const labels: Record<string, string> = color === 'red' 
-      ? { R: '车', N: '马', E: '相', A: '仕', K: '帅', C: '炮', P: '兵' }
-      : { R: '车', N: '马', E: '象', A: '士', K: '将', C: '炮', P: '卒' };
-    
-    types.forEach((type, col) => {
-      board[row][col] = { type, color, label: labels[type] };
-    });
-  };
-
-  setupRow(0, 'black', ['R', 'N', 'E', 'A', 'K', 'A', 'E', 'N', 'R']);
-  board[2][1] = { type: 'C', color: 'black', label: '炮' };
-  board[2][7] = { type: 'C', color: 'black', label: '炮' };
-  [0, 2, 4, 6, 8].forEach(c => board[3][c] = { type: 'P', color: 'black', label: '卒' });
-
-  setupRow(9, 'red', ['R', 'N', 'E', 'A', 'K', 'A', 'E', 'N', 'R']);
-  board[7][1] = { type: 'C', color: 'red', label: '炮' };
-  board[7][7] = { type: 'C', color: 'red', label: '炮' };
-  [0, 2, 4, 6, 8].forEach(c => board[6][c] = { type: 'P', color: 'red', label: '兵' });
-
-  return board;
-};
+import { GameClock } from '../ui/GameClock';
+import { ClockState, ClockSide, TIME_CONTROLS, createClock, tickClock, completeMove } from '../../utils/clock';
+import { MoveList } from '../ui/MoveList';
+import { createInitialXiangqiBoard, XIANGQI_HANDICAPS, moveToChinese, moveToIccs, applyXiangqiMove, getLegalXiangqiMoves, getXiangqiStatus, adjudicateRepetition, isGeneralInCheck, findGeneral, xiangqiToFen, parseXiangqiFen, INITIAL_XIANGQI_FEN, XiangqiBoard, XiangqiMove } from '../../utils/xiangqi';
+import { PgnResult, buildPgn, parsePgn, formatPgnDate } from '../../utils/pgn';
+import { ReplayedXiangqiGame, buildXiangqiGame, replayXiangqiMoves } from '../../utils/xiangqiRecord';
+import { GameAnalysis } from '../GameAnalysis';
+import { XIANGQI_PUZZLES, XiangqiPuzzle, puzzleGoal } from '../../utils/xiangqiPuzzles';
+import { XIANGQI_BOT_LEVELS, XiangqiSearchRequest, XiangqiSearchResponse } from '../../utils/xiangqiAI';
+import { Jieqi } from './Jieqi';
+import { Banqi } from './Banqi';
 
 interface Props {
   user: User;
-  onGameEnd: (points: number, isWin?: boolean, details?: MatchDetails) => void;
+  onGameEnd: (points: number, isWin?: boolean, details?: MatchDetails, isDraw?: boolean) => void;
   player2?: User | null;
   onOpenP2Login?: () => void;
 }
 
+type GameMode = 'PVE' | 'PVP';
+
+// Standard xiangqi, or one of the hidden-piece variants played two-player on one screen
+type Variant = 'STANDARD' | 'JIEQI' | 'BANQI';
+
+const VARIANTS: { id: Variant, name: string }[] = [
+  { id: 'STANDARD', name: '象棋' },
+  { id: 'JIEQI', name: '揭棋' },
+  { id: 'BANQI', name: '暗棋' }
+];
+
 interface MatchConfig {
     totalFrames: number;
     pointsPerMatch: number;
+    timeControlId: string | null; // null = untimed
+    handicapId: string | null; // null = even game
+    handicapSide: 'red' | 'black'; // The side giving the pieces
 }
 
 interface HistoryState {
   board: (ChessPiece | null)[][];
   turn: 'red' | 'black';
   lastMove: { from: { r: number, c: number }, to: { r: number, c: number } } | null;
+  clock: ClockState | null;
 }
 
+interface ReviewState {
+  tags: Record<string, string>;
+  game: ReplayedXiangqiGame;
+  result: PgnResult;
+  index: number; // Index into game.boards
+}
+
+const clockSideOf = (color: 'red' | 'black'): ClockSide => color === 'red' ? 'p1' : 'p2';
+const colorName = (color: 'red' | 'black') => color === 'red' ? '红方' : '黑方';
+
+const BOT_COLOR = 'black';
+
 export const Xiangqi: React.FC<Props> = ({ user, onGameEnd, player2, onOpenP2Login }) => {
   const [board, setBoard] = useState(createInitialXiangqiBoard());
   const [selected, setSelected] = useState<{ r: number, c: number } | null>(null);
@@ -196,81 +69,317 @@ export const Xiangqi: React.FC<Props> = ({ user, onGameEnd, player2, onOpenP2Log
   const [captureAnim, setCaptureAnim] = useState<{ r: number, c: number, piece: ChessPiece } | null>(null);
   
   // Game & Match State
-  const [gameState, setGameState] = useState<'SETUP' | 'PLAYING' | 'ROUND_OVER' | 'GAMEOVER'>('SETUP');
-  const [matchConfig, setMatchConfig] = useState<MatchConfig>({ totalFrames: 3, pointsPerMatch: 100 });
+  const [gameState, setGameState] = useState<'SETUP' | 'PLAYING' | 'ROUND_OVER' | 'GAMEOVER' | 'REVIEW' | 'PUZZLES' | 'VARIANT'>('SETUP');
+  const [variant, setVariant] = useState<Variant>('STANDARD');
+  const [matchConfig, setMatchConfig] = useState<MatchConfig>({ totalFrames: 3, pointsPerMatch: 100, timeControlId: null, handicapId: null, handicapSide: 'black' });
   const [matchScore, setMatchScore] = useState<{p1: number, p2: number}>({ p1: 0, p2: 0 }); // p1=Red, p2=Black
-  const [winner, setWinner] = useState<'red' | 'black' | null>(null); // Match winner
+  const [winner, setWinner] = useState<'red' | 'black' | 'draw' | null>(null); // Match winner
   
   const [history, setHistory] = useState<HistoryState[]>([]);
 
+  // Move Record in Chinese notation (e.g. 炮二平五) and the earlier position shown read-only (null = live board)
+  const [notation, setNotation] = useState<string[]>([]);
+  const [viewPly, setViewPly] = useState<number | null>(null);
+
+  // The same moves as ICCS coordinates, and finished rounds of the match for analysis
+  const [moveRecord, setMoveRecord] = useState<string[]>([]);
+  const [roundRecords, setRoundRecords] = useState<RoundRecord[]>([]);
+  const [showAnalysis, setShowAnalysis] = useState(false);
+
+  // How the last round ended (绝杀 / 困毙 / 超时 / 长将...), shown in the round-over overlays
+  const [roundMessage, setRoundMessage] = useState('');
+
+  // Record Import / Review State
+  const [matchStartedAt, setMatchStartedAt] = useState(Date.now());
+  const [showImport, setShowImport] = useState(false);
+  const [importText, setImportText] = useState('');
+  const [importError, setImportError] = useState('');
+  const [review, setReview] = useState<ReviewState | null>(null);
+  const importFileRef = useRef<HTMLInputElement>(null);
+
+  // Clock State
+  const [clock, setClock] = useState<ClockState | null>(null);
+  const clockRef = useRef<ClockState | null>(null); // Up to date even inside the bot worker's callback
+  const lastTickRef = useRef(Date.now());
+
+  // Puzzle State: the puzzle on the board (null in a normal match), how it ended and the engine's hint
+  const [puzzle, setPuzzle] = useState<XiangqiPuzzle | null>(null);
+  const [puzzleSolved, setPuzzleSolved] = useState(false);
+  const [puzzleAward, setPuzzleAward] = useState(0); // Points granted for the last solve, 0 for a repeat
+  const [hint, setHint] = useState<XiangqiMove | null>(null);
+  const [hintUsed, setHintUsed] = useState(false);
+
+  // PVE State
+  const [mode, setMode] = useState<GameMode>('PVP');
+  const [botLevelId, setBotLevelId] = useState(XIANGQI_BOT_LEVELS[1].id);
+  const [botThinking, setBotThinking] = useState(false);
+  const workerRef = useRef<Worker | null>(null);
+  const searchIdRef = useRef(0);
+
+  const botLevel = XIANGQI_BOT_LEVELS.find(l => l.id === botLevelId) || XIANGQI_BOT_LEVELS[0];
+  // In a puzzle the engine defends as black
+  const isBotTurn = (mode === 'PVE' || puzzle !== null) && turn === BOT_COLOR;
+  const solvedPuzzles = user.puzzles?.[GameType.XIANGQI] || [];
+  const puzzleMovesLeft = puzzle ? puzzle.mateIn - Math.ceil(moveRecord.length / 2) : 0;
+  const puzzleReward = puzzle ? (hintUsed ? Math.round(puzzle.points / 2) : puzzle.points) : 0;
+  const opponentName = mode === 'PVE' ? `电脑 (${botLevel.name})` : (player2 ? player2.username : 'Player 2');
+  const opponentAvatar = mode === 'PVE' ? '🤖' : (player2?.avatar || '👤');
+  const matchPoints = mode === 'PVE' ? Math.round(matchConfig.pointsPerMatch * botLevel.pointsMultiplier) : matchConfig.pointsPerMatch;
+  const timeControl = TIME_CONTROLS.find(tc => tc.id === matchConfig.timeControlId) || null;
+  const handicap = XIANGQI_HANDICAPS.find(h => h.id === matchConfig.handicapId) || null;
+  const handicapLabel = handicap ? `${colorName(matchConfig.handicapSide)}${handicap.name}` : null;
+  // Beating a side playing without pieces earns less, and so does losing while giving them
+  const winPoints = handicap && matchConfig.handicapSide === 'black' ? Math.round(matchPoints * handicap.pointsMultiplier) : matchPoints;
+  const lossPoints = handicap && matchConfig.handicapSide === 'red' ? Math.round(matchPoints * handicap.pointsMultiplier) : matchPoints;
+  const matchTags = [mode, `BO${matchConfig.totalFrames}`, ...(timeControl ? [timeControl.label] : []), ...(handicapLabel ? [handicapLabel] : [])];
+
+  // The board on screen: the live game, an earlier position of it, or the imported game being reviewed
+  const inReview = gameState === 'REVIEW' && review;
+  const browsed = !inReview && viewPly !== null && viewPly < history.length ? history[viewPly] : null;
+  const viewBoard = inReview ? review.game.boards[review.index] : browsed ? browsed.board : board;
+  const viewLastMove = inReview ? (review.index > 0 ? review.game.moves[review.index - 1] : null) : browsed ? browsed.lastMove : lastMove;
+  const viewTurn = inReview ? review.game.turns[review.index] : browsed ? browsed.turn : turn;
+  const roundStartFen = history.length > 0 ? xiangqiToFen(history[0].board, history[0].turn) : xiangqiToFen(board, turn);
+  const checkedGeneral = isGeneralInCheck(viewBoard, viewTurn) ? findGeneral(viewBoard, viewTurn) : null;
+
+  // Terminate the search worker when leaving the game
+  useEffect(() => {
+      return () => {
+          workerRef.current?.terminate();
+          workerRef.current = null;
+      };
+  }, []);
+
+  // Searches the live position in the worker; answers for positions that were undone or reset meanwhile are ignored
+  const requestSearch = (depth: number, noise: number, onMove: (move: XiangqiMove) => void) => {
+      if (!workerRef.current) {
+          workerRef.current = new Worker(new URL('../../utils/xiangqiAI.worker.ts', import.meta.url), { type: 'module' });
+      }
+      const worker = workerRef.current;
+      const id = ++searchIdRef.current;
+
+      worker.onmessage = (e: MessageEvent<XiangqiSearchResponse>) => {
+          if (e.data.id !== searchIdRef.current) return;
+          setBotThinking(false);
+          if (e.data.move) onMove(e.data.move);
+      };
+
+      setBotThinking(true);
+      const request: XiangqiSearchRequest = { id, board, turn, depth, noise };
+      worker.postMessage(request);
+  };
+
+  // Ask the worker for a move whenever it is the bot's turn
+  useEffect(() => {
+      if (gameState !== 'PLAYING' || !isBotTurn) return;
+
+      // A puzzle defender looks just deep enough to see every mate red still has time for
+      const depth = puzzle ? Math.min(5, 2 * puzzleMovesLeft + 1) : botLevel.depth;
+      requestSearch(depth, puzzle ? 0 : botLevel.noise, move => executeMove(move.from, move.to));
+
+      return () => {
+          searchIdRef.current++;
+          setBotThinking(false);
+      };
+  }, [gameState, isBotTurn, board]);
+
+  // Run the clock of the side to move
+  useEffect(() => {
+      if (gameState !== 'PLAYING' || !timeControl) return;
+      lastTickRef.current = Date.now();
+      const timer = setInterval(() => {
+          const now = Date.now();
+          const elapsed = now - lastTickRef.current;
+          lastTickRef.current = now;
+          if (clockRef.current) updateClock(tickClock(clockRef.current, clockSideOf(turn), elapsed, timeControl).clock);
+      }, 100);
+      return () => clearInterval(timer);
+  }, [gameState, turn, timeControl]);
+
+  // Loss on flag: the side to move has used up all its time
+  useEffect(() => {
+      if (gameState !== 'PLAYING' || !clock) return;
+      const side = clock[clockSideOf(turn)];
+      if (side.mainMs <= 0 && side.periods <= 0) {
+          setSelected(null);
+          setValidMoves([]);
+          handleRoundEnd(turn === 'red' ? 'black' : 'red', moveRecord, `${colorName(turn)}超时判负`);
+      }
+  }, [clock]);
+
+  const updateClock = (next: ClockState | null) => {
+      clockRef.current = next;
+      setClock(next);
+  };
+
   const startMatch = () => {
-      if (user.username !== '测试玩家' && !player2 && onOpenP2Login) {
+      if (mode === 'PVP' && user.username !== '测试玩家' && !player2 && onOpenP2Login) {
           onOpenP2Login();
           return;
       }
 
       playSound.click();
+      if (variant !== 'STANDARD') {
+          setGameState('VARIANT');
+          return;
+      }
       setMatchScore({ p1: 0, p2: 0 });
       setWinner(null);
+      setRoundRecords([]);
+      setMatchStartedAt(Date.now());
+      setPuzzle(null);
       initRound();
   };
 
-  const initRound = () => {
-      setBoard(createInitialXiangqiBoard());
-      setTurn('red');
+  const initRound = (startBoard: XiangqiBoard = createInitialXiangqiBoard(handicap ? { config: handicap, side: matchConfig.handicapSide } : null), startTurn: 'red' | 'black' = 'red', timed = true) => {
+      setBoard(startBoard);
+      setTurn(startTurn);
+      updateClock(timed && timeControl ? createClock(timeControl) : null);
+      lastTickRef.current = Date.now();
       setSelected(null);
       setValidMoves([]);
       setLastMove(null);
       setHistory([]);
+      setNotation([]);
+      setMoveRecord([]);
+      setViewPly(null);
+      setRoundMessage('');
+      setHint(null);
       setGameState('PLAYING');
   };
 
+  // Puzzles are untimed and only the first solve of each one earns points
+  const startPuzzle = (next: XiangqiPuzzle) => {
+      const start = parseXiangqiFen(next.fen);
+      playSound.click();
+      setPuzzle(next);
+      setPuzzleSolved(false);
+      setHintUsed(false);
+      initRound(start.board, start.turn, false);
+  };
+
+  const finishPuzzle = (solved: boolean, message: string) => {
+      if (!puzzle) return;
+      setPuzzleSolved(solved);
+      setRoundMessage(message);
+      setGameState('ROUND_OVER');
+      if (!solved) {
+          playSound.wrong();
+          return;
+      }
+      playSound.win();
+      const firstSolve = !solvedPuzzles.includes(puzzle.id);
+      setPuzzleAward(firstSolve ? puzzleReward : 0);
+      if (firstSolve) {
+          onGameEnd(puzzleReward, true, {
+              opponent: '残局',
+              opponentAvatar: '🧩',
+              score: puzzle.name,
+              matchTags: ['残局', puzzleGoal(puzzle), ...(hintUsed ? ['提示'] : [])],
+              puzzleId: puzzle.id
+          });
+      }
+  };
+
+  // Asks the engine for the quickest win from here and marks its first move on the board
+  const handleHint = () => {
+      if (!puzzle || gameState !== 'PLAYING' || isBotTurn || botThinking) return;
+      setHintUsed(true);
+      setSelected(null);
+      setValidMoves([]);
+      requestSearch(2 * puzzleMovesLeft, 0, setHint);
+  };
+
+  // Plays a legal move on the live board; mate and stalemate (困毙) end the round in favour of the mover
+  const executeMove = (from: { r: number, c: number }, to: { r: number, c: number }) => {
+    const clockBefore = clockRef.current;
+    setHistory(prev => [...prev, {
+        board: board.map(row => [...row]),
+        turn,
+        lastMove,
+        clock: clockBefore
+    }]);
+
+    // Charge the time since the last tick, then add the increment (or reset the byo-yomi period)
+    if (clockBefore && timeControl) {
+      const side = clockSideOf(turn);
+      const ticked = tickClock(clockBefore, side, Date.now() - lastTickRef.current, timeControl).clock;
+      updateClock(completeMove(ticked, side, timeControl));
+      lastTickRef.current = Date.now();
+    }
+
+    const target = board[to.r][to.c];
+    setNotation(prev => [...prev, moveToChinese(board, from, to)]);
+    const nextRecord = [...moveRecord, moveToIccs({ from, to })];
+    setMoveRecord(nextRecord);
+
+    if (target) {
+      setCaptureAnim({ r: to.r, c: to.c, piece: target });
+      setTimeout(() => setCaptureAnim(null), 600);
+      playSound.capture();
+    } else {
+      playSound.move();
+    }
+
+    const newBoard = applyXiangqiMove(board, { from, to });
+    const nextTurn = turn === 'red' ? 'black' : 'red';
+
+    setBoard(newBoard);
+    setLastMove({ from, to });
+    setTurn(nextTurn);
+    setSelected(null);
+    setValidMoves([]);
+    setHint(null);
+
+    const status = getXiangqiStatus(newBoard, nextTurn);
+    if (puzzle) {
+      // Red must win within the move limit; the defender running red out of moves is a failure
+      if (status !== 'PLAYING' && turn === 'red') {
+        finishPuzzle(true, status === 'CHECKMATE' ? '绝杀!' : '困毙! 黑方无子可动');
+      } else if (status !== 'PLAYING' || (turn === 'red' && puzzleMovesLeft <= 1)) {
+        finishPuzzle(false, `未能在 ${puzzle.mateIn} 步内取胜`);
+      }
+      return;
+    }
+    if (status !== 'PLAYING') {
+      const moverName = colorName(turn);
+      handleRoundEnd(turn, nextRecord, status === 'CHECKMATE' ? `绝杀! ${moverName}获胜` : `困毙! ${colorName(nextTurn)}无子可动, ${moverName}获胜`);
+      return;
+    }
+
+    // Threefold repetition: perpetual check or chase loses, anything else is a draw
+    const verdict = adjudicateRepetition(
+      [...history.map(h => h.board), board, newBoard],
+      [...history.map(h => h.turn), turn, nextTurn]
+    );
+    if (verdict?.kind === 'DRAW') {
+      handleRoundEnd(null, nextRecord, '局面三次重复, 判和');
+    } else if (verdict) {
+      const offence = verdict.kind === 'PERPETUAL_CHECK' ? '长将' : '长捉';
+      const other = verdict.loser === 'red' ? 'black' : 'red';
+      handleRoundEnd(other, nextRecord, `${colorName(verdict.loser)}${offence}判负, ${colorName(other)}获胜`);
+    }
+  };
+
   const handlePointClick = (r: number, c: number) => {
-    if (gameState !== 'PLAYING') return;
+    if (gameState !== 'PLAYING' || isBotTurn) return;
+    // Clicking the board while looking at an earlier position returns to the live game
+    if (viewPly !== null) {
+      setViewPly(null);
+      return;
+    }
 
     if (selected) {
       const target = board[r][c];
       if (target && target.color === turn) {
         setSelected({ r, c });
-        setValidMoves(getValidMoves(board, target, r, c));
+        setValidMoves(getLegalXiangqiMoves(board, r, c));
         playSound.click();
         return;
       }
 
-      const move = validMoves.find(m => m.r === r && m.c === c);
-      if (move) {
-        setHistory(prev => [...prev, {
-            board: board.map(row => [...row]),
-            turn,
-            lastMove
-        }]);
-
-        const piece = board[selected.r][selected.c];
-        
-        if (target) {
-          setCaptureAnim({ r, c, piece: target });
-          setTimeout(() => setCaptureAnim(null), 600); 
-
-          if (target.type === 'K') {
-            // Captured General/King - Round Over
-            handleRoundEnd(turn); // Current turn player wins
-            return;
-          } else {
-            playSound.capture();
-          }
-        } else {
-          playSound.move();
-        }
-
-        const newBoard = board.map(row => [...row]);
-        newBoard[r][c] = piece;
-        newBoard[selected.r][selected.c] = null;
-        
-        setBoard(newBoard);
-        setLastMove({ from: selected, to: { r, c } });
-        setTurn(turn === 'red' ? 'black' : 'red');
-        setSelected(null);
-        setValidMoves([]);
+      if (validMoves.some(m => m.r === r && m.c === c)) {
+        executeMove(selected, { r, c });
       } else {
         setSelected(null);
         setValidMoves([]);
@@ -279,67 +388,235 @@ export const Xiangqi: React.FC<Props> = ({ user, onGameEnd, player2, onOpenP2Log
       const piece = board[r][c];
       if (piece && piece.color === turn) {
         setSelected({ r, c });
-        setValidMoves(getValidMoves(board, piece, r, c));
+        setValidMoves(getLegalXiangqiMoves(board, r, c));
         playSound.click();
       }
     }
   };
 
-  const handleRoundEnd = (roundWinner: 'red' | 'black') => {
+  // roundWinner is null for a drawn round (harmless repetition); reason describes how the round ended
+  const handleRoundEnd = (roundWinner: 'red' | 'black' | null, moves: string[], reason: string) => {
       playSound.win();
+      setRoundMessage(reason);
+
+      const records: RoundRecord[] = [...roundRecords, {
+          moves,
+          ...(roundStartFen !== INITIAL_XIANGQI_FEN ? { start: roundStartFen } : {}),
+          result: roundWinner === 'red' ? '1-0' : roundWinner === 'black' ? '0-1' : '1/2-1/2',
+          termination: reason
+      }];
+      setRoundRecords(records);
       
       const newScore = { ...matchScore };
       if (roundWinner === 'red') newScore.p1 += 1;
-      else newScore.p2 += 1;
+      else if (roundWinner === 'black') newScore.p2 += 1;
+      else {
+          newScore.p1 += 0.5;
+          newScore.p2 += 0.5;
+      }
       
       setMatchScore(newScore);
 
-      const targetWins = Math.ceil(matchConfig.totalFrames / 2);
+      // The series ends once a side has clinched more than half the frames, or all frames are played
+      const half = matchConfig.totalFrames / 2;
+      const seriesOver = newScore.p1 > half || newScore.p2 > half || records.length >= matchConfig.totalFrames;
+      const details: MatchDetails = {
+          opponent: opponentName,
+          opponentAvatar,
+          score: `${newScore.p1}-${newScore.p2}`,
+          matchTags,
+          rounds: records
+      };
 
-      if (newScore.p1 >= targetWins) {
+      if (!seriesOver) {
+          setGameState('ROUND_OVER');
+      } else if (newScore.p1 > newScore.p2) {
           setWinner('red');
           setGameState('GAMEOVER');
-          onGameEnd(matchConfig.pointsPerMatch, true, {
-              opponent: player2 ? player2.username : 'Player 2',
-              opponentAvatar: player2?.avatar || '👤',
-              score: `${newScore.p1}-${newScore.p2}`,
-              matchTags: [`BO${matchConfig.totalFrames}`]
-          });
-      } else if (newScore.p2 >= targetWins) {
+          onGameEnd(winPoints, true, details);
+      } else if (newScore.p2 > newScore.p1) {
           setWinner('black');
           setGameState('GAMEOVER');
-          onGameEnd(-matchConfig.pointsPerMatch, false, {
-              opponent: player2 ? player2.username : 'Player 2',
-              opponentAvatar: player2?.avatar || '👤',
-              score: `${newScore.p1}-${newScore.p2}`,
-              matchTags: [`BO${matchConfig.totalFrames}`]
-          });
+          onGameEnd(-lossPoints, false, details);
       } else {
-          setGameState('ROUND_OVER');
+          setWinner('draw');
+          setGameState('GAMEOVER');
+          onGameEnd(0, false, details, true);
       }
   };
 
   const handleUndo = () => {
       if (history.length === 0) return;
-      const prev = history[history.length - 1];
-      const newHistory = history.slice(0, -1);
+      // In PVE, undo back to the user's own turn (takes back the bot's reply as well)
+      let steps = 1;
+      if ((mode === 'PVE' || puzzle) && history[history.length - 1].turn === BOT_COLOR && history.length > 1) steps = 2;
+      const prev = history[history.length - steps];
+      const newHistory = history.slice(0, -steps);
       
       setBoard(prev.board);
       setTurn(prev.turn);
       setLastMove(prev.lastMove);
+      updateClock(prev.clock);
+      lastTickRef.current = Date.now();
       setHistory(newHistory);
+      setNotation(prev => prev.slice(0, -steps));
+      setMoveRecord(prev => prev.slice(0, -steps));
+      setViewPly(null);
       setSelected(null);
       setValidMoves([]);
+      setHint(null);
       playSound.click();
   };
 
+  const buildRoundGame = (moves: string[], result: PgnResult, round: number, start = INITIAL_XIANGQI_FEN, termination?: string) => buildXiangqiGame({
+      Event: `Game Center BO${matchConfig.totalFrames}`,
+      Site: 'Game Center',
+      Date: formatPgnDate(matchStartedAt),
+      Round: String(round),
+      Red: user.username,
+      Black: opponentName,
+      MatchTags: matchTags.join(' '),
+      ...(termination ? { Termination: termination } : {})
+  }, moves, result, start);
+
+  // Downloads every finished round of the match, plus the round in progress, as one record file
+  const handleExportRecord = () => {
+      const games = roundRecords.map((record, i) => buildRoundGame(record.moves, record.result as PgnResult, i + 1, record.start, record.termination));
+      if (gameState === 'PLAYING' && moveRecord.length > 0) {
+          games.push(buildRoundGame(moveRecord, '*', roundRecords.length + 1, roundStartFen));
+      }
+      if (games.length === 0) return;
+
+      const text = games.map(buildPgn).join('\n');
+      const blob = new Blob([text], { type: 'text/plain' });
+      const url = URL.createObjectURL(blob);
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = `xiangqi_${user.username}_${formatPgnDate(Date.now()).replace(/\./g, '')}.pgn`;
+      a.click();
+      URL.revokeObjectURL(url);
+      playSound.click();
+  };
+
+  const handleImportFile = (e: React.ChangeEvent<HTMLInputElement>) => {
+      const file = e.target.files?.[0];
+      if (!file) return;
+      const reader = new FileReader();
+      reader.onload = (readerEvent) => setImportText((readerEvent.target?.result as string) || '');
+      reader.readAsText(file);
+      e.target.value = '';
+  };
+
+  const handleLoadRecord = () => {
+      const games = parsePgn(importText);
+      if (games.length === 0) {
+          setImportError('未找到有效的棋谱');
+          playSound.wrong();
+          return;
+      }
+      // Only the first game of a multi-game file is loaded
+      const game = games[0];
+      if (game.tags.Format && game.tags.Format.toUpperCase() !== 'ICCS') {
+          setImportError(`暂不支持 ${game.tags.Format} 格式, 请使用 ICCS 坐标棋谱`);
+          playSound.wrong();
+          return;
+      }
+      try {
+          const replayed = replayXiangqiMoves(game.moves, game.tags.FEN || INITIAL_XIANGQI_FEN);
+          setReview({ tags: game.tags, game: replayed, result: game.result, index: 0 });
+          setImportError('');
+          setShowImport(false);
+          setSelected(null);
+          setValidMoves([]);
+          setGameState('REVIEW');
+          playSound.click();
+      } catch (err) {
+          setImportError((err as Error).message);
+          playSound.wrong();
+      }
+  };
+
+  const stepReview = (index: number) => {
+      if (!review) return;
+      const next = Math.max(0, Math.min(review.game.boards.length - 1, index));
+      if (next !== review.index) playSound.move();
+      setReview({ ...review, index: next });
+  };
+
+  // Jumps to the position after the given number of plies, read-only
+  const handleBrowse = (plies: number) => {
+      setViewPly(plies >= notation.length ? null : plies);
+      setSelected(null);
+      setValidMoves([]);
+      playSound.move();
+  };
+
+  if (gameState === 'VARIANT') {
+      const VariantGame = variant === 'JIEQI' ? Jieqi : Banqi;
+      return (
+          <VariantGame
+            user={user}
+            player2={player2}
+            totalFrames={matchConfig.totalFrames}
+            pointsPerMatch={matchConfig.pointsPerMatch}
+            onGameEnd={onGameEnd}
+            onExit={() => setGameState('SETUP')}
+          />
+      );
+  }
+
   if (gameState === 'SETUP') {
       return (
         <div className="flex flex-col items-center justify-center h-full max-w-lg mx-auto p-4">
         <div className="bg-slate-900/60 backdrop-blur-xl p-8 rounded-2xl shadow-xl border border-white/5 w-full animate-zoom-in">
           <h2 className="text-3xl font-bold text-center mb-6 text-red-500">中国象棋 - 赛制设置</h2>
+
+          <div className="flex gap-2 mb-4">
+              {VARIANTS.map(v => (
+                  <button
+                    key={v.id}
+                    onClick={() => { setVariant(v.id); if (v.id !== 'STANDARD') setMode('PVP'); }}
+                    className={`flex-1 py-1 rounded-lg border text-sm ${variant === v.id ? 'bg-red-600 border-red-400 text-white' : 'bg-slate-800 border-slate-600 text-slate-400'}`}
+                  >
+                      {v.name}
+                  </button>
+              ))}
+          </div>
+
+          <div className="flex gap-4 mb-4">
+              <button
+                onClick={() => setMode('PVE')}
+                disabled={variant !== 'STANDARD'}
+                className={`flex-1 py-3 rounded-xl border-2 transition-all disabled:opacity-40 ${mode === 'PVE' ? 'border-red-500 bg-red-500/20 text-white' : 'border-slate-600 bg-black/20 text-slate-400'}`}
+              >
+                👤 人机对弈
+              </button>
+              <button
+                onClick={() => setMode('PVP')}
+                className={`flex-1 py-3 rounded-xl border-2 transition-all ${mode === 'PVP' ? 'border-red-500 bg-red-500/20 text-white' : 'border-slate-600 bg-black/20 text-slate-400'}`}
+              >
+                👥 双人对战
+              </button>
+          </div>
           
           <div className="bg-black/20 p-4 rounded-xl mb-6 border border-white/5">
+               {mode === 'PVE' && (
+                   <div className="mb-4">
+                       <label className="block text-xs text-slate-500 mb-1">电脑难度 (积分 x倍率)</label>
+                       <div className="flex gap-2">
+                           {XIANGQI_BOT_LEVELS.map(level => (
+                               <button
+                                key={level.id}
+                                onClick={() => setBotLevelId(level.id)}
+                                className={`flex-1 py-1 rounded border text-xs ${botLevelId === level.id ? 'bg-red-600 border-red-400 text-white' : 'bg-slate-800 border-slate-600 text-slate-400'}`}
+                               >
+                                   {level.name} x{level.pointsMultiplier}
+                               </button>
+                           ))}
+                       </div>
+                   </div>
+               )}
+
                <div className="mb-4">
                    <label className="block text-xs text-slate-500 mb-1">总局数 (奇数)</label>
                    <div className="flex gap-2">
@@ -355,6 +632,58 @@ export const Xiangqi: React.FC<Props> = ({ user, onGameEnd, player2, onOpenP2Log
                    </div>
                </div>
 
+               {variant === 'STANDARD' ? (
+                   <>
+                   <div className="mb-4">
+                       <label className="block text-xs text-slate-500 mb-1">时限</label>
+                       <div className="flex flex-wrap gap-2">
+                           {[null, ...TIME_CONTROLS].map(tc => (
+                               <button
+                                key={tc ? tc.id : 'none'}
+                                onClick={() => setMatchConfig({...matchConfig, timeControlId: tc ? tc.id : null})}
+                                className={`flex-1 py-1 px-2 rounded border text-xs whitespace-nowrap ${matchConfig.timeControlId === (tc ? tc.id : null) ? 'bg-red-600 border-red-400 text-white' : 'bg-slate-800 border-slate-600 text-slate-400'}`}
+                               >
+                                   {tc ? tc.label : '不限时'}
+                               </button>
+                           ))}
+                       </div>
+                   </div>
+
+                   <div className="mb-4">
+                       <label className="block text-xs text-slate-500 mb-1">让子 (赢让子方积分 x倍率)</label>
+                       <div className="flex flex-wrap gap-2">
+                           {[null, ...XIANGQI_HANDICAPS].map(h => (
+                               <button
+                                key={h ? h.id : 'none'}
+                                onClick={() => setMatchConfig({...matchConfig, handicapId: h ? h.id : null})}
+                                className={`flex-1 py-1 px-2 rounded border text-xs whitespace-nowrap ${matchConfig.handicapId === (h ? h.id : null) ? 'bg-red-600 border-red-400 text-white' : 'bg-slate-800 border-slate-600 text-slate-400'}`}
+                               >
+                                   {h ? `${h.name} x${h.pointsMultiplier}` : '不让子'}
+                               </button>
+                           ))}
+                       </div>
+                       {handicap && (
+                           <div className="flex gap-2 mt-2">
+                               {(['red', 'black'] as const).map(side => (
+                                   <button
+                                    key={side}
+                                    onClick={() => setMatchConfig({...matchConfig, handicapSide: side})}
+                                    className={`flex-1 py-1 rounded border text-xs ${matchConfig.handicapSide === side ? 'bg-red-600 border-red-400 text-white' : 'bg-slate-800 border-slate-600 text-slate-400'}`}
+                                   >
+                                       {colorName(side)}让子
+                                   </button>
+                               ))}
+                           </div>
+                       )}
+                   </div>
+                   </>
+               ) : (
+                   <p className="mb-4 text-xs text-amber-400/80">
+                       {variant === 'JIEQI' ? '揭棋: 除将帅外棋子暗置, 按所在位置的棋子走法行棋, 走动后翻开' : '暗棋: 半盘 32 子全部暗置, 先翻出的颜色归翻子方, 大子吃小子, 兵卒可吃将帅'}
+                       {' · 仅限双人同屏'}
+                   </p>
+               )}
+
                <div>
                    <label className="block text-xs text-slate-500 mb-1">押注积分</label>
                    <input 
@@ -370,28 +699,121 @@ export const Xiangqi: React.FC<Props> = ({ user, onGameEnd, player2, onOpenP2Log
                <div className="pt-2 border-t border-white/5">
                     <div className="flex justify-between items-center text-xs">
                         <span className="text-slate-400">黑方 (P2)</span>
-                        <span className={`font-bold ${player2 ? 'text-white' : 'text-slate-500'}`}>
-                            {player2 ? player2.username : (user.username === '测试玩家' ? '测试路人' : '未登录')}
+                        <span className={`font-bold ${player2 || mode === 'PVE' ? 'text-white' : 'text-slate-500'}`}>
+                            {mode === 'PVE' ? `🤖 ${opponentName}` : (player2 ? player2.username : (user.username === '测试玩家' ? '测试路人' : '未登录'))}
                         </span>
                     </div>
                 </div>
            </div>
 
           <Button onClick={startMatch} className="w-full py-3 text-lg bg-red-600 hover:bg-red-500">
-              {user.username !== '测试玩家' && !player2 ? '登录 2P 并开始' : '开始对弈'}
+              {mode === 'PVP' && user.username !== '测试玩家' && !player2 ? '登录 2P 并开始' : '开始对弈'}
           </Button>
+
+          <div className="flex gap-2 mt-4">
+              <button
+                onClick={() => setGameState('PUZZLES')}
+                className="flex-1 text-xs text-slate-400 hover:text-red-400 transition-colors"
+              >
+                  🧩 残局挑战 ({solvedPuzzles.length}/{XIANGQI_PUZZLES.length})
+              </button>
+              <button
+                onClick={() => { setShowImport(!showImport); setImportError(''); }}
+                className="flex-1 text-xs text-slate-400 hover:text-red-400 transition-colors"
+              >
+                  📂 导入棋谱复盘
+              </button>
+          </div>
+
+          {showImport && (
+              <div className="mt-3 bg-black/20 p-4 rounded-xl border border-white/5 animate-slide-up">
+                  <textarea
+                    value={importText}
+                    onChange={(e) => setImportText(e.target.value)}
+                    placeholder={'[FEN "rnbakabnr/9/1c5c1/p1p1p1p1p/9/9/P1P1P1P1P/1C5C1/9/RNBAKABNR w - - 0 1"]\n\n1. H2-E2 H9-G7 ...'}
+                    className="w-full h-32 bg-slate-950 border border-slate-600 rounded px-2 py-1 text-white text-xs font-mono"
+                  />
+                  {importError && <p className="text-red-400 text-xs mt-1">{importError}</p>}
+                  <div className="flex gap-2 mt-2">
+                      <input type="file" accept=".pgn,.txt,text/plain" ref={importFileRef} onChange={handleImportFile} className="hidden" />
+                      <Button variant="secondary" onClick={() => importFileRef.current?.click()} className="flex-1 text-xs py-1">选择文件</Button>
+                      <Button onClick={handleLoadRecord} disabled={!importText.trim()} className="flex-1 text-xs py-1 bg-red-600 hover:bg-red-500">载入棋谱</Button>
+                  </div>
+              </div>
+          )}
+        </div>
+      </div>
+      );
+  }
+
+  if (gameState === 'PUZZLES') {
+      return (
+        <div className="flex flex-col items-center justify-center h-full max-w-lg mx-auto p-4">
+        <div className="bg-slate-900/60 backdrop-blur-xl p-8 rounded-2xl shadow-xl border border-white/5 w-full animate-zoom-in">
+          <h2 className="text-3xl font-bold text-center mb-2 text-red-500">残局挑战</h2>
+          <p className="text-center text-xs text-slate-400 mb-6">
+              已解出 {solvedPuzzles.length}/{XIANGQI_PUZZLES.length} · 首次解出获得积分, 使用提示积分减半
+          </p>
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-2 mb-6 max-h-[50vh] overflow-y-auto">
+              {XIANGQI_PUZZLES.map(p => {
+                  const solved = solvedPuzzles.includes(p.id);
+                  return (
+                      <button
+                        key={p.id}
+                        onClick={() => startPuzzle(p)}
+                        className={`text-left p-3 rounded-xl border transition-all ${solved ? 'border-green-500/40 bg-green-900/10' : 'border-slate-600 bg-black/20 hover:border-red-500'}`}
+                      >
+                          <div className="flex justify-between items-center">
+                              <span className="font-bold text-white">{p.name}</span>
+                              <span className={`text-xs ${solved ? 'text-green-400' : 'text-amber-400'}`}>{solved ? '✓ 已解' : `+${p.points}`}</span>
+                          </div>
+                          <div className="text-xs text-red-400 mt-1">{puzzleGoal(p)}</div>
+                          <div className="text-[10px] text-slate-500 mt-1">{p.description}</div>
+                      </button>
+                  );
+              })}
+          </div>
+          <Button variant="secondary" onClick={() => setGameState('SETUP')} className="w-full">返回</Button>
         </div>
       </div>
       );
   }
 
+  const nextPuzzle = puzzle ? XIANGQI_PUZZLES[(XIANGQI_PUZZLES.indexOf(puzzle) + 1) % XIANGQI_PUZZLES.length] : null;
+
   return (
     <div className="flex flex-col items-center justify-center h-full p-2 overflow-y-auto">
       {/* Centered Game Header */}
+      {puzzle ? (
+      <div className="w-full max-w-md mb-4 flex flex-col items-center relative animate-slide-up">
+          <div className="flex flex-col items-center bg-[#eecfa1]/10 px-8 py-2 rounded-2xl border border-amber-500/20 shadow-xl backdrop-blur-md">
+              <div className="text-[10px] text-amber-500/70 font-bold tracking-[0.2em] mb-1">
+                残局挑战 {solvedPuzzles.includes(puzzle.id) ? '· 已解出' : `· +${puzzleReward} 积分`}
+              </div>
+              <div className="flex items-center gap-4 text-sm font-bold">
+                  <span className="text-white">{puzzle.name}</span>
+                  <span className="text-red-400">{puzzleGoal(puzzle)}</span>
+              </div>
+          </div>
+      </div>
+      ) : inReview ? (
+      <div className="w-full max-w-md mb-4 flex flex-col items-center relative animate-slide-up">
+          <div className="flex flex-col items-center bg-[#eecfa1]/10 px-8 py-2 rounded-2xl border border-amber-500/20 shadow-xl backdrop-blur-md">
+              <div className="text-[10px] text-amber-500/70 font-bold tracking-[0.2em] mb-1">
+                棋谱复盘 {review.tags.Date ? `· ${review.tags.Date}` : ''}
+              </div>
+              <div className="flex items-center gap-4 text-sm font-bold">
+                  <span className="text-red-400">红 {review.tags.Red || '?'}</span>
+                  <span className="text-amber-400 font-mono">{review.result}</span>
+                  <span className="text-slate-300">黑 {review.tags.Black || '?'}</span>
+              </div>
+          </div>
+      </div>
+      ) : (
       <div className="w-full max-w-md mb-4 flex flex-col items-center relative animate-slide-up">
           <div className="flex flex-col items-center bg-[#eecfa1]/10 px-8 py-2 rounded-2xl border border-amber-500/20 shadow-xl backdrop-blur-md">
               <div className="text-[10px] text-amber-500/70 font-bold tracking-[0.2em] mb-1 uppercase">
-                BO{matchConfig.totalFrames} Match
+                BO{matchConfig.totalFrames} Match{timeControl ? ` · ${timeControl.label}` : ''}{handicapLabel ? ` · ${handicapLabel}` : ''}
               </div>
               <div className="flex items-center gap-6">
                   <div className={`flex flex-col items-center transition-all duration-300 relative ${turn === 'red' ? 'scale-110 opacity-100' : 'opacity-60'}`}>
@@ -405,7 +827,7 @@ export const Xiangqi: React.FC<Props> = ({ user, onGameEnd, player2, onOpenP2Log
                   <div className="text-amber-700/50 font-light text-2xl">:</div>
                   <div className={`flex flex-col items-center transition-all duration-300 ${turn === 'black' ? 'scale-110 opacity-100' : 'opacity-60'}`}>
                      <div className="w-8 h-8 rounded-full bg-black border border-white/20 flex items-center justify-center text-sm mb-1 overflow-hidden">
-                        {player2?.avatar?.startsWith('data:') ? <img src={player2.avatar} className="w-full h-full object-cover"/> : (player2?.avatar || '👤')}
+                        {opponentAvatar.startsWith('data:') ? <img src={opponentAvatar} className="w-full h-full object-cover"/> : opponentAvatar}
                      </div>
                      <span className="text-[10px] font-bold text-slate-400 tracking-wider">黑方</span>
                      <span className="text-4xl font-black text-slate-900 bg-slate-200 px-1 rounded leading-none">{matchScore.p2}</span>
@@ -413,10 +835,36 @@ export const Xiangqi: React.FC<Props> = ({ user, onGameEnd, player2, onOpenP2Log
               </div>
           </div>
       </div>
+      )}
+
+      {clock && !inReview && (
+          <GameClock
+            clock={clock}
+            active={gameState === 'PLAYING' ? clockSideOf(turn) : null}
+            labels={{ p1: `红方 · ${user.username}`, p2: `黑方 · ${opponentName}` }}
+            className="max-w-md mb-2"
+          />
+      )}
 
+      {inReview ? (
+      <div className="text-right w-full max-w-md mb-2 flex justify-between items-center px-1">
+          <div className="text-xs text-amber-600/80 font-bold">
+              {review.index === 0 ? '初始局面' : review.game.notation[review.index - 1]}
+              <span className="ml-2 text-amber-700/70">({review.index}/{review.game.notation.length})</span>
+              {checkedGeneral && <span className="ml-2 text-red-500 font-bold animate-pulse">将军!</span>}
+          </div>
+          <div className="flex gap-2">
+              <Button onClick={() => { setReview(null); setGameState('SETUP'); }} variant="secondary" className="text-xs py-1 mt-0 h-8 bg-slate-800/50 hover:bg-slate-700 backdrop-blur-md border border-white/10">退出</Button>
+          </div>
+      </div>
+      ) : (
       <div className="text-right w-full max-w-md mb-2 flex justify-between items-center px-1">
           <div className="text-xs text-amber-600/80 font-bold">
               当前: <span className={turn === 'red' ? 'text-red-500' : 'text-slate-900'}>{turn === 'red' ? '红方' : '黑方'}</span>
+              {checkedGeneral && gameState === 'PLAYING' && <span className="ml-2 text-red-500 font-bold animate-pulse">将军!</span>}
+              {puzzle && <span className="ml-2 text-amber-400">剩余 {Math.max(0, puzzleMovesLeft)} 步</span>}
+              {botThinking && <span className="ml-2 text-red-400 animate-pulse">{isBotTurn ? '电脑思考中...' : '计算提示中...'}</span>}
+              {browsed && <span className="ml-2 text-amber-400">查看历史局面 (只读)</span>}
           </div>
           <div className="flex gap-2">
               <Button 
@@ -427,28 +875,76 @@ export const Xiangqi: React.FC<Props> = ({ user, onGameEnd, player2, onOpenP2Log
               >
                 ↶ 悔棋
               </Button>
-              <Button onClick={() => setGameState('SETUP')} variant="secondary" className="text-xs py-1 mt-0 h-8 bg-slate-800/50 hover:bg-slate-700 backdrop-blur-md border border-white/10">重置</Button>
+              {puzzle ? (
+                  <Button
+                    onClick={handleHint}
+                    variant="secondary"
+                    className="text-xs py-1 h-8 bg-slate-800/50 hover:bg-slate-700 backdrop-blur-md border border-white/10"
+                    disabled={gameState !== 'PLAYING' || isBotTurn || botThinking}
+                  >
+                    💡 提示
+                  </Button>
+              ) : (
+                  <Button
+                    onClick={handleExportRecord}
+                    variant="secondary"
+                    className="text-xs py-1 h-8 bg-slate-800/50 hover:bg-slate-700 backdrop-blur-md border border-white/10"
+                    disabled={roundRecords.length === 0 && moveRecord.length === 0}
+                  >
+                    棋谱
+                  </Button>
+              )}
+              <Button onClick={() => setGameState(puzzle ? 'PUZZLES' : 'SETUP')} variant="secondary" className="text-xs py-1 mt-0 h-8 bg-slate-800/50 hover:bg-slate-700 backdrop-blur-md border border-white/10">{puzzle ? '返回' : '重置'}</Button>
           </div>
       </div>
+      )}
 
+      <div className="flex flex-col lg:flex-row items-center lg:items-start gap-3">
       <div className="bg-[#eecfa1] p-4 rounded-lg shadow-2xl relative select-none border-4 border-[#8b4513]">
-        {gameState === 'ROUND_OVER' && (
+        {gameState === 'ROUND_OVER' && puzzle && (
              <div className="absolute inset-0 z-50 bg-slate-900/80 backdrop-blur-sm flex flex-col items-center justify-center rounded-lg text-center p-4">
-                 <h3 className="text-2xl font-bold text-white mb-4">本局结束</h3>
+                 <h3 className={`text-2xl font-bold mb-2 ${puzzleSolved ? 'text-green-400' : 'text-white'}`}>{puzzleSolved ? '解题成功!' : '挑战失败'}</h3>
+                 {roundMessage && <p className="text-red-400 font-bold mb-2">{roundMessage}</p>}
+                 {puzzleSolved && (
+                     <p className="text-amber-100 mb-6">
+                         {puzzleAward > 0 ? `获得 ${puzzleAward} 积分` : '已解出过此题, 不再重复计分'}
+                     </p>
+                 )}
+                 <div className="flex gap-2 mt-2">
+                     <Button variant="secondary" onClick={() => startPuzzle(puzzle)}>重试</Button>
+                     <Button variant="secondary" onClick={() => setGameState('PUZZLES')}>题目列表</Button>
+                     {puzzleSolved && nextPuzzle && <Button onClick={() => startPuzzle(nextPuzzle)}>下一题</Button>}
+                 </div>
+             </div>
+        )}
+
+        {gameState === 'ROUND_OVER' && !puzzle && (
+             <div className="absolute inset-0 z-50 bg-slate-900/80 backdrop-blur-sm flex flex-col items-center justify-center rounded-lg text-center p-4">
+                 <h3 className="text-2xl font-bold text-white mb-2">本局结束</h3>
+                 {roundMessage && <p className="text-red-400 font-bold mb-2">{roundMessage}</p>}
                  <p className="text-amber-100 mb-6">比分 {matchScore.p1} : {matchScore.p2}</p>
-                 <Button onClick={initRound}>下一局</Button>
+                 <div className="flex gap-2">
+                     <Button variant="secondary" onClick={() => setShowAnalysis(true)}>📈 分析</Button>
+                     <Button variant="secondary" onClick={handleExportRecord}>导出棋谱</Button>
+                     <Button onClick={() => initRound()}>下一局</Button>
+                 </div>
              </div>
         )}
 
         {gameState === 'GAMEOVER' && (
             <div className="absolute inset-0 z-50 bg-slate-900/90 backdrop-blur-sm flex flex-col items-center justify-center rounded-lg text-center p-4">
                 <h3 className="text-4xl font-bold text-red-500 mb-4 tracking-widest">
-                    {winner === 'red' ? user.username : (player2?.username || 'Player 2')} 获得最终胜利!
+                    {winner === 'draw' ? '双方战平!' : `${winner === 'red' ? user.username : opponentName} 获得最终胜利!`}
                 </h3>
+                {roundMessage && <p className="text-red-400 font-bold mb-2">{roundMessage}</p>}
                  <p className="text-white mb-6">
-                    {winner === 'red' ? '获得 ' + matchConfig.pointsPerMatch + ' 积分' : '扣除 ' + matchConfig.pointsPerMatch + ' 积分'}
+                    {winner === 'draw' ? `比分 ${matchScore.p1} : ${matchScore.p2}, 积分不变` : winner === 'red' ? '获得 ' + winPoints + ' 积分' : '扣除 ' + lossPoints + ' 积分'}
                 </p>
-                <Button onClick={() => setGameState('SETUP')}>返回设置</Button>
+                <div className="flex gap-2">
+                    <Button variant="secondary" onClick={() => setShowAnalysis(true)}>📈 分析</Button>
+                    <Button variant="secondary" onClick={handleExportRecord}>导出棋谱</Button>
+                    <Button onClick={() => setGameState('SETUP')}>返回设置</Button>
+                </div>
             </div>
         )}
 
@@ -477,14 +973,16 @@ export const Xiangqi: React.FC<Props> = ({ user, onGameEnd, player2, onOpenP2Log
 
            {/* Clickable Intersections */}
            <div className="absolute -top-[5%] -left-[5.5%] w-[111%] h-[110%] grid grid-rows-10 grid-cols-9 z-10">
-              {board.map((row, r) => (
+              {viewBoard.map((row, r) => (
                 row.map((cell, c) => {
                    const isSelected = selected?.r === r && selected?.c === c;
                    const isValidMove = validMoves.some(m => m.r === r && m.c === c);
-                   const isLastFrom = lastMove?.from.r === r && lastMove?.from.c === c;
-                   const isLastTo = lastMove?.to.r === r && lastMove?.to.c === c;
+                   const isLastFrom = viewLastMove?.from.r === r && viewLastMove?.from.c === c;
+                   const isLastTo = viewLastMove?.to.r === r && viewLastMove?.to.c === c;
                    const isAnimatingCapture = captureAnim?.r === r && captureAnim?.c === c;
                    const isCaptureTarget = isValidMove && cell;
+                   const isChecked = checkedGeneral?.r === r && checkedGeneral?.c === c;
+                   const isHint = !!hint && ((hint.from.r === r && hint.from.c === c) || (hint.to.r === r && hint.to.c === c));
 
                    return (
                      <div 
@@ -497,6 +995,10 @@ export const Xiangqi: React.FC<Props> = ({ user, onGameEnd, player2, onOpenP2Log
                          <div className="absolute w-8 h-8 sm:w-12 sm:h-12 bg-indigo-500/20 rounded-full" />
                        )}
 
+                       {isHint && (
+                         <div className="absolute w-8 h-8 sm:w-12 sm:h-12 rounded-full border-4 border-amber-400 animate-pulse pointer-events-none z-30" />
+                       )}
+
                        {/* The Piece */}
                        {cell && (
                          <div className={`
@@ -504,7 +1006,8 @@ export const Xiangqi: React.FC<Props> = ({ user, onGameEnd, player2, onOpenP2Log
                            flex items-center justify-center text-lg sm:text-2xl font-bold bg-[#f5deb3] shadow-md transition-all duration-200
                            ${cell.color === 'red' ? 'text-red-600 border-red-600' : 'text-black border-black'}
                            ${isSelected ? 'scale-110 -translate-y-1 ring-4 ring-yellow-400 z-50' : ''}
-                           ${isCaptureTarget ? 'ring-4 ring-red-500/50 z-40' : ''} 
+                           ${isCaptureTarget ? 'ring-4 ring-red-500/50 z-40' : ''}
+                           ${isChecked ? 'ring-4 ring-red-600 animate-pulse' : ''}
                          `}>
                            {cell.label}
                          </div>
@@ -536,6 +1039,27 @@ export const Xiangqi: React.FC<Props> = ({ user, onGameEnd, player2, onOpenP2Log
            </div>
         </div>
       </div>
+
+      <MoveList
+        moves={inReview ? review.game.notation : notation}
+        current={inReview ? review.index : (browsed ? viewPly! : notation.length)}
+        onSelect={inReview ? stepReview : handleBrowse}
+        firstNumber={inReview ? review.game.moveNumber : 1}
+        secondFirst={inReview ? review.game.turns[0] === 'black' : false}
+        keyboard={gameState === 'PLAYING' || gameState === 'REVIEW'}
+        accent="bg-red-600"
+        className="w-full max-w-md h-40 lg:w-48 lg:h-[544px]"
+      />
+      </div>
+
+      {showAnalysis && roundRecords.length > 0 && (
+          <GameAnalysis
+            gameType={GameType.XIANGQI}
+            rounds={roundRecords}
+            playerNames={[user.username, opponentName]}
+            onClose={() => setShowAnalysis(false)}
+          />
+      )}
     </div>
   );
 };
\ No newline at end of file
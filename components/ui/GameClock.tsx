@@ -0,0 +1,41 @@
+import React from 'react';
+import { ClockState, ClockSide, formatClock } from '../../utils/clock';
+
+interface Props {
+  clock: ClockState;
+  active: ClockSide | null;
+  labels: Record<ClockSide, string>;
+  className?: string;
+}
+
+// Two-sided clock face; the running side is highlighted and turns red when low on time
+export const GameClock: React.FC<Props> = ({ clock, active, labels, className = '' }) => {
+  const renderSide = (side: ClockSide) => {
+    const { mainMs, periods, periodMs } = clock[side];
+    const inByoyomi = mainMs <= 0 && periods > 0;
+    const shown = inByoyomi ? periodMs : mainMs;
+    const isActive = active === side;
+    const isLow = shown < 10 * 1000;
+
+    return (
+      <div className={`flex-1 flex flex-col items-center px-3 py-1 rounded-lg border transition-all ${
+        isActive
+          ? (isLow ? 'bg-red-600/80 border-red-400 text-white animate-pulse' : 'bg-white/90 border-white text-slate-900')
+          : 'bg-slate-900/60 border-white/10 text-slate-400'
+      }`}>
+        <span className="text-[10px] font-bold tracking-wider opacity-70">{labels[side]}</span>
+        <span className="text-xl font-black font-mono leading-none">{formatClock(shown)}</span>
+        {(inByoyomi || (mainMs > 0 && periods > 0)) && (
+          <span className="text-[9px] font-mono opacity-70">读秒 ×{periods}</span>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <div className={`flex gap-2 w-full ${className}`}>
+      {renderSide('p1')}
+      {renderSide('p2')}
+    </div>
+  );
+};
@@ -0,0 +1,109 @@
+import React, { useEffect, useRef } from 'react';
+
+interface Props {
+  moves: string[]; // Notation of each ply, in order
+  current: number; // Plies shown on the board; moves.length is the latest position
+  onSelect: (plies: number) => void;
+  firstNumber?: number; // Move number of the first pair
+  secondFirst?: boolean; // The first recorded ply belongs to the second side (e.g. a FEN with black to move)
+  keyboard?: boolean; // Arrow keys / Home / End step through the moves
+  accent?: string; // Background class of the highlighted move
+  className?: string;
+}
+
+// Numbered two-column move record; clicking a move (or stepping with the keys) shows the position after it
+export const MoveList: React.FC<Props> = ({ moves, current, onSelect, firstNumber = 1, secondFirst = false, keyboard = true, accent = 'bg-emerald-600', className = '' }) => {
+  const listRef = useRef<HTMLDivElement>(null);
+  const activeRef = useRef<HTMLButtonElement>(null);
+
+  useEffect(() => {
+    if (!keyboard) return;
+    const handleKey = (e: KeyboardEvent) => {
+      const target = e.target as HTMLElement;
+      if (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA') return;
+      const targets: Record<string, number> = {
+        ArrowLeft: current - 1,
+        ArrowRight: current + 1,
+        ArrowUp: 0,
+        Home: 0,
+        ArrowDown: moves.length,
+        End: moves.length
+      };
+      const next = targets[e.key];
+      if (next === undefined) return;
+      e.preventDefault();
+      const clamped = Math.max(0, Math.min(moves.length, next));
+      if (clamped !== current) onSelect(clamped);
+    };
+    window.addEventListener('keydown', handleKey);
+    return () => window.removeEventListener('keydown', handleKey);
+  }, [keyboard, current, moves.length, onSelect]);
+
+  // Keep the highlighted move in view without scrolling the page
+  useEffect(() => {
+    const box = listRef.current;
+    const el = activeRef.current;
+    if (box && el) box.scrollTop = el.offsetTop - box.clientHeight / 2;
+  }, [current, moves.length]);
+
+  const rows: { number: number, plies: (number | null)[] }[] = [];
+  const offset = secondFirst ? 1 : 0;
+  for (let slot = 0; slot < moves.length + offset; slot += 2) {
+    rows.push({
+      number: firstNumber + slot / 2,
+      plies: [slot - offset, slot + 1 - offset].map(i => (i >= 0 && i < moves.length ? i : null))
+    });
+  }
+
+  const step = (plies: number) => {
+    const clamped = Math.max(0, Math.min(moves.length, plies));
+    if (clamped !== current) onSelect(clamped);
+  };
+
+  return (
+    <div className={`flex flex-col bg-slate-900/60 backdrop-blur-xl rounded-xl border border-white/10 overflow-hidden ${className}`}>
+      <div ref={listRef} className="relative flex-1 min-h-0 overflow-y-auto p-1 text-xs font-mono">
+        <button
+          ref={current === 0 ? activeRef : undefined}
+          onClick={() => step(0)}
+          className={`w-full text-left px-2 py-0.5 rounded ${current === 0 ? `${accent} text-white` : 'text-slate-500 hover:bg-white/5'}`}
+        >
+          开局
+        </button>
+        {rows.map(row => (
+          <div key={row.number} className="flex items-center">
+            <span className="w-8 shrink-0 text-right pr-1 text-slate-600">{row.number}.</span>
+            {row.plies.map((ply, i) => ply === null ? (
+              <span key={i} className="flex-1 px-2 py-0.5 text-slate-600">{i === 0 ? '…' : ''}</span>
+            ) : (
+              <button
+                key={i}
+                ref={current === ply + 1 ? activeRef : undefined}
+                onClick={() => step(ply + 1)}
+                className={`flex-1 text-left px-2 py-0.5 rounded whitespace-nowrap ${current === ply + 1 ? `${accent} text-white` : 'text-slate-300 hover:bg-white/5'}`}
+              >
+                {moves[ply]}
+              </button>
+            ))}
+          </div>
+        ))}
+      </div>
+      <div className="flex border-t border-white/10">
+        {[
+          { label: '⏮', to: 0 },
+          { label: '◀', to: current - 1 },
+          { label: '▶', to: current + 1 },
+          { label: '⏭', to: moves.length }
+        ].map(({ label, to }) => (
+          <button
+            key={label}
+            onClick={() => step(to)}
+            className="flex-1 py-1 text-xs text-slate-400 hover:text-white hover:bg-white/5 transition-colors"
+          >
+            {label}
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+};
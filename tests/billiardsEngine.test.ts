@@ -0,0 +1,70 @@
+import { test, expect, expectEqual } from './harness';
+import { Ball, FOOT_SPOT, MAX_POWER, TableSize, createRack, simulateShot, tableFor } from '../utils/billiardsEngine';
+import { MIN_BREAK_RAILS } from '../utils/billiardsRules';
+
+// Same sequence on every run, so the racks are the same too
+const seeded = (seed: number) => () => {
+  seed = (seed * 1103515245 + 12345) % 2147483648;
+  return seed / 2147483648;
+};
+
+const ball = (id: number, x: number, y: number): Ball =>
+  ({ id, x, y, vx: 0, vy: 0, wx: 0, wy: 0, wz: 0, active: true, type: id === 0 ? 'CUE' : 'SOLID' });
+
+const breakShot = (balls: Ball[]) => {
+  const cue = balls.find(b => b.id === 0)!;
+  return { angle: Math.atan2(FOOT_SPOT.y - cue.y, FOOT_SPOT.x - cue.x) - 0.012, power: MAX_POWER };
+};
+
+const SIZES: TableSize[] = ['7FT', '9FT'];
+
+test('the same shot on the same table plays out identically', () => {
+  const table = tableFor('8BALL');
+  const balls = createRack('8BALL', seeded(7), table);
+  const first = simulateShot(balls, breakShot(balls), false, table);
+  const second = simulateShot(balls, breakShot(balls), false, table);
+  expectEqual(second.balls, first.balls, 'final positions');
+  expectEqual(second.events, first.events, 'events');
+  expectEqual(second.potted, first.potted, 'potted balls');
+});
+
+SIZES.forEach(size => {
+  test(`a straight shot into the corner drops the object ball (${size})`, () => {
+    const table = tableFor('8BALL', size);
+    const corner = 5; // Bottom right, approached along its diagonal
+    const pocket = table.pockets[corner];
+    const balls = [ball(0, pocket.x - 300, pocket.y - 150), ball(1, pocket.x - 150, pocket.y - 75)];
+    const result = simulateShot(balls, { angle: Math.atan2(75, 150), power: 18 }, false, table);
+
+    expectEqual(result.firstHitId, 1, 'first ball hit');
+    expectEqual(result.potted, [1], 'potted balls');
+    const drop = result.events.find(e => e.kind === 'POCKET');
+    expect(drop?.kind === 'POCKET' && drop.id === 1 && drop.pocket === corner, 'the 1 drops in the aimed pocket');
+    expect(result.balls.find(b => b.id === 0)!.active, 'the cue ball stays on the table');
+  });
+
+  test(`a ball sent into a cushion comes back off it (${size})`, () => {
+    const table = tableFor('8BALL', size);
+    const start = { x: table.width / 4, y: table.height / 2 };
+    const result = simulateShot([ball(0, start.x, start.y)], { angle: -Math.PI / 2, power: 12 }, true, table);
+
+    const rail = result.events.find(e => e.kind === 'RAIL' && e.id === 0);
+    expect(rail, 'the cue ball reaches the top rail');
+    const atRail = result.frames[rail!.frame][0];
+    const after = result.frames[Math.min(rail!.frame + 10, result.frames.length - 1)][0];
+    expect(atRail.y < start.y && after.y > atRail.y, 'the cue ball heads back down the table after the cushion');
+    expectEqual(result.potted, [], 'potted balls');
+  });
+
+  test(`a full break drives enough balls to the rails (${size})`, () => {
+    const table = tableFor('8BALL', size);
+    const balls = createRack('8BALL', seeded(11), table);
+    const result = simulateShot(balls, breakShot(balls), false, table);
+
+    const railed = new Set(result.events.flatMap(e => e.kind === 'RAIL' && e.id !== 0 ? [e.id] : []));
+    expect(railed.size >= MIN_BREAK_RAILS, `only ${railed.size} object balls reached a rail`);
+    result.events.forEach(e => {
+      if (e.kind === 'POCKET') expect(result.potted.includes(e.id), `ball ${e.id} dropped but is not listed as potted`);
+    });
+  });
+});
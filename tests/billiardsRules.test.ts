@@ -0,0 +1,94 @@
+import { test, expect, expectEqual } from './harness';
+import { Ball, ShotEvent, ShotResult, simulateShot } from '../utils/billiardsEngine';
+import { FOULS_TO_LOSE, HEAD_STRING_X, MIN_BREAK_RAILS, NO_CALL, RackState, createRackState, judgeShot } from '../utils/billiardsRules';
+
+const ball = (id: number, x: number, y: number): Ball => ({
+  id, x, y, vx: 0, vy: 0, wx: 0, wy: 0, wz: 0, active: true,
+  type: id === 0 ? 'CUE' : id === 8 ? 'EIGHT' : id === 9 ? 'NINE' : id > 8 ? 'STRIPE' : 'SOLID'
+});
+
+// A spread of balls with the cue ball behind the head string
+const table = (ids: number[]): Ball[] => [ball(0, 150, 200), ...ids.map((id, i) => ball(id, 300 + 30 * i, 100 + 20 * (i % 5)))];
+
+// The outcome of a shot as the rules see it; the balls' final positions do not matter to them
+const outcome = (before: Ball[], firstHitId: number | null, potted: number[] = [], events: ShotEvent[] = []): ShotResult => ({
+  balls: before.map(b => potted.includes(b.id) ? { ...b, active: false } : b),
+  frames: [],
+  events: [...events, ...potted.map((id, i): ShotEvent => ({ kind: 'POCKET', frame: 10 + i, id, pocket: 0 }))],
+  firstHitId,
+  cueReachX: 800,
+  potted
+});
+
+const openTable = (): RackState => ({ ...createRackState(), isBreak: false });
+
+test('the break keeps the table open even when balls drop', () => {
+  const before = table([1, 2, 8, 9, 10]);
+  const verdict = judgeShot('8BALL', 1, createRackState(), before, outcome(before, 1, [2]));
+  expectEqual(verdict.foul, null, 'foul');
+  expectEqual(verdict.rack.groups, { 1: null, 2: null }, 'groups');
+  expectEqual(verdict.nextTurn, 1, 'next turn');
+});
+
+test('a foul on an open table does not assign the groups', () => {
+  const before = table([1, 2, 8, 9, 10]);
+  const verdict = judgeShot('8BALL', 1, openTable(), before, outcome(before, 1, [0, 9]));
+  expectEqual(verdict.foul, '母球落袋', 'foul');
+  expectEqual(verdict.rack.groups, { 1: null, 2: null }, 'groups');
+});
+
+test('a legal pot on an open table assigns the groups', () => {
+  const before = table([1, 2, 8, 9, 10]);
+  const verdict = judgeShot('8BALL', 2, openTable(), before, outcome(before, 2, [10]));
+  expectEqual(verdict.rack.groups, { 1: 'SOLIDS', 2: 'STRIPES' }, 'groups');
+  expectEqual(verdict.nextTurn, 2, 'next turn');
+});
+
+test('the 8 is not a legal first hit on an open table', () => {
+  const before = table([1, 8, 9]);
+  const verdict = judgeShot('8BALL', 1, openTable(), before, outcome(before, 8));
+  expect(verdict.foul, 'hitting the 8 first is a foul');
+  expect(verdict.ballInHand && verdict.nextTurn === 2, 'the opponent gets ball in hand');
+});
+
+test(`${FOULS_TO_LOSE} fouls in a row lose the rack`, () => {
+  const before = table([1, 2, 3]);
+  const rack = { ...openTable(), fouls: { 1: FOULS_TO_LOSE - 1, 2: 0 } };
+  const verdict = judgeShot('9BALL', 1, rack, before, outcome(before, null));
+  expectEqual(verdict.winner, 2, 'winner');
+  expectEqual(judgeShot('9BALL', 1, openTable(), before, outcome(before, 1)).rack.fouls, { 1: 0, 2: 0 }, 'a legal shot clears the count');
+});
+
+test('a push-out may miss everything and hands the choice to the opponent', () => {
+  const before = table([1, 2, 9]);
+  const rack = { ...openTable(), pushOutAvailable: true };
+  const verdict = judgeShot('9BALL', 1, rack, before, outcome(before, null, [9]), { ...NO_CALL, pushOut: true });
+  expectEqual(verdict.foul, null, 'foul');
+  expect(verdict.pushOut && verdict.nextTurn === 2, 'the opponent decides who shoots');
+  expectEqual(verdict.respot, [9], 'the 9 comes back up');
+});
+
+test('a break that drops nothing and reaches too few rails is racked again by the opponent', () => {
+  const before = table([1, 2, 3, 9]);
+  const rails = [1, 2].map((id, i): ShotEvent => ({ kind: 'RAIL', frame: 5 + i, id, speed: 3 }));
+  const verdict = judgeShot('9BALL', 1, createRackState(), before, outcome(before, 1, [], rails));
+  expect(MIN_BREAK_RAILS > rails.length && verdict.rerack, 'the rack is broken again');
+  expectEqual(verdict.nextTurn, 2, 'next turn');
+});
+
+test('from the kitchen a ball behind the head string must not be hit directly', () => {
+  const cue = ball(0, 100, 200);
+  const inKitchen = [cue, ball(3, 180, 200), ball(5, 600, 120)];
+  const kitchenCall = { ...NO_CALL, kitchen: true };
+
+  const direct = simulateShot(inKitchen, { angle: 0, power: 10 }, false);
+  expect(direct.cueReachX <= HEAD_STRING_X, 'the cue ball stays behind the string');
+  expect(judgeShot('8BALL', 1, openTable(), inKitchen, direct, kitchenCall).foul, 'hitting the 3 directly is a foul');
+
+  const pastString = [cue, ball(3, 400, 200)];
+  const upTable = simulateShot(pastString, { angle: 0, power: 10 }, false);
+  expectEqual(judgeShot('8BALL', 1, openTable(), pastString, upTable, kitchenCall).foul, null, 'foul on a ball past the string');
+
+  const offRail = { ...outcome(inKitchen, 3), cueReachX: HEAD_STRING_X + 150 };
+  expectEqual(judgeShot('8BALL', 1, openTable(), inKitchen, offRail, kitchenCall).foul, null, 'foul after crossing the string first');
+});
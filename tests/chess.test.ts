@@ -0,0 +1,52 @@
+import { test, expect, expectEqual } from './harness';
+import {
+  ChessPosition, applyMove, createInitialBoard, createInitialPosition, deriveCastlingRights, getDrawReason, getLegalMoves, moveFromSan, parseFen,
+  positionKey, positionToFen, validatePosition
+} from '../utils/chess';
+
+const castles = (pos: ChessPosition, r: number, c: number) =>
+  getLegalMoves(pos, r, c).filter(m => m.castle).map(m => `${m.castle}:${m.to.c}`);
+
+test('standard castling rights need the king on e1 and the rook on the a/h-file', () => {
+  const pos = parseFen('4k3/8/8/8/8/8/8/6KR w - - 0 1');
+  expectEqual(deriveCastlingRights(pos.board), { whiteKingSide: false, whiteQueenSide: false, blackKingSide: false, blackQueenSide: false }, 'rights');
+  expectEqual(deriveCastlingRights(createInitialBoard()), createInitialPosition().castling, 'rights in the opening position');
+});
+
+test('a standard position cannot keep a castling right its pieces have lost', () => {
+  const pos = parseFen('4k3/8/8/8/8/8/8/6KR w K - 0 1');
+  expect(validatePosition(pos), 'the K right with the king on g1 is rejected');
+  expectEqual(castles(pos, 7, 6), [], 'castling moves of the g1 king');
+  expectEqual(validatePosition(parseFen('4k3/8/8/8/8/8/8/R3K2R w KQ - 0 1')), null, 'e1 king with a1 and h1 rooks');
+});
+
+test('Chess960 castling uses the outermost rooks on either side of the king', () => {
+  const pos = parseFen('4k3/8/8/8/8/8/8/1R3K1R w BH - 0 1', 'CHESS960');
+  expectEqual(deriveCastlingRights(pos.board, 'CHESS960').whiteKingSide, true, 'king side right');
+  expectEqual(validatePosition(pos), null, 'validation');
+  expectEqual(castles(pos, 7, 5).sort(), ['K:7', 'Q:1'], 'castling moves are entered as king takes rook');
+  expect(positionToFen(pos).includes(' HB '), 'the FEN keeps Shredder castling letters');
+});
+
+const play = (sans: string[]) => {
+  let pos = createInitialPosition();
+  const keys: string[] = [];
+  sans.forEach(san => {
+    const move = moveFromSan(pos, san);
+    if (!move) throw new Error(`illegal move ${san}`);
+    keys.push(positionKey(pos));
+    pos = applyMove(pos, move);
+  });
+  return { pos, keys };
+};
+
+test('a position after a double push repeats when no en-passant capture is possible', () => {
+  const { pos, keys } = play(['e4', 'e5', 'Nf3', 'Nf6', 'Ng1', 'Ng8', 'Nf3', 'Nf6', 'Ng1', 'Ng8']);
+  expectEqual(getDrawReason(pos, keys), 'THREEFOLD', 'draw after the third 1...e5 position');
+});
+
+test('the en-passant square counts while the capture is legal', () => {
+  const { pos: withEp } = play(['e4', 'Nf6', 'e5', 'd5']);
+  const { pos: withoutEp } = play(['e4', 'd5', 'e5', 'Nf6']);
+  expect(positionKey(withEp) !== positionKey(withoutEp), 'exd6 is possible only after the double push');
+});
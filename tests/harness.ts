@@ -0,0 +1,19 @@
+// Minimal test registry for `npm test`: tests/run.mjs loads every *.test.ts file and runs what it registered
+type TestFn = () => void | Promise<void>;
+
+export const registeredTests: { name: string, fn: TestFn }[] = [];
+
+export const test = (name: string, fn: TestFn) => {
+  registeredTests.push({ name, fn });
+};
+
+export const expect = (condition: unknown, message: string) => {
+  if (!condition) throw new Error(message);
+};
+
+// Compares by JSON, which is enough for the plain data the game logic works on
+export const expectEqual = <T,>(actual: T, expected: T, message: string) => {
+  const a = JSON.stringify(actual);
+  const e = JSON.stringify(expected);
+  if (a !== e) throw new Error(`${message}: expected ${e}, got ${a}`);
+};
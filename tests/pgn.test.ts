@@ -0,0 +1,18 @@
+import { test, expectEqual } from './harness';
+import { parseFen } from '../utils/chess';
+import { replayPgnMoves } from '../utils/pgn';
+
+const errorOf = (fn: () => unknown) => {
+  try {
+    fn();
+    return null;
+  } catch (err) {
+    return (err as Error).message;
+  }
+};
+
+test('an illegal move is reported with its move number in the game', () => {
+  expectEqual(errorOf(() => replayPgnMoves(['e4', 'e5', 'Ke3'])), '第 2 回合白方着法无效: Ke3', 'from the opening position');
+  const start = parseFen('4k3/8/8/8/8/8/4P3/4K3 b - - 0 30');
+  expectEqual(errorOf(() => replayPgnMoves(['Kd7', 'e4', 'Kd9'], start)), '第 31 回合黑方着法无效: Kd9', 'from a FEN with black to move');
+});
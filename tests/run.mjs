@@ -0,0 +1,43 @@
+// Runs the *.test.ts files in this folder. Vite compiles the TypeScript, so the tests need no extra tooling
+import { readdirSync } from 'node:fs';
+import { dirname } from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { createServer } from 'vite';
+
+const root = dirname(dirname(fileURLToPath(import.meta.url)));
+const files = readdirSync(`${root}/tests`).filter(f => f.endsWith('.test.ts')).sort();
+
+const server = await createServer({
+  root,
+  configFile: false,
+  logLevel: 'error',
+  appType: 'custom',
+  server: { middlewareMode: true, hmr: false },
+  optimizeDeps: { noDiscovery: true }
+});
+
+let failed = 0;
+try {
+  const { registeredTests } = await server.ssrLoadModule('/tests/harness.ts');
+  for (const file of files) {
+    registeredTests.length = 0;
+    await server.ssrLoadModule(`/tests/${file}`);
+    console.log(file);
+    for (const { name, fn } of registeredTests) {
+      try {
+        await fn();
+        console.log(`  ✓ ${name}`);
+      } catch (error) {
+        failed++;
+        console.log(`  ✗ ${name}\n    ${error instanceof Error ? error.message : error}`);
+      }
+    }
+  }
+} finally {
+  await server.close();
+}
+
+if (failed > 0) {
+  console.log(`\n${failed} failed`);
+  process.exitCode = 1;
+}
@@ -0,0 +1,22 @@
+import { test, expectEqual } from './harness';
+import { Ball, ShotResult } from '../utils/billiardsEngine';
+import { createSnookerState, judgeSnookerShot } from '../utils/snookerRules';
+
+const ball = (id: number, x: number, y: number): Ball =>
+  ({ id, x, y, vx: 0, vy: 0, wx: 0, wy: 0, wz: 0, active: true, type: id === 0 ? 'CUE' : id <= 15 ? 'RED' : 'COLOUR' });
+
+const before = [ball(0, 200, 300), ball(1, 700, 300), ball(2, 760, 280), ball(16, 248, 400), ball(21, 1100, 300)];
+
+const outcome = (firstHitId: number | null): ShotResult =>
+  ({ balls: before, frames: [], events: [], firstHitId, cueReachX: 200, potted: [] });
+
+test('on a colour, hitting a red first costs 4 unless a higher colour was involved', () => {
+  const onColour = { ...createSnookerState(), on: 'COLOUR' as const };
+  expectEqual(judgeSnookerShot(1, onColour, before, outcome(1)).penalty, 4, 'red hit first');
+  expectEqual(judgeSnookerShot(1, onColour, before, outcome(null)).penalty, 4, 'nothing hit');
+});
+
+test('a foul costs the value of the ball on when that is higher than 4', () => {
+  const onBlack = { ...createSnookerState(), on: 21 };
+  expectEqual(judgeSnookerShot(1, onBlack, before, outcome(16)).penalty, 7, 'yellow hit while on the black');
+});
@@ -17,11 +17,22 @@ export interface GameStats {
   maxStreak: number;
 }
 
+// Moves of one round, stored with the match so it can be replayed and analysed later
+export interface RoundRecord {
+  moves: string[]; // Chess: SAN, Xiangqi: ICCS coordinates (e.g. "h2e2")
+  start?: string; // FEN when the round did not start from the standard position
+  variant?: string; // Chess variant name, e.g. "Chess960"
+  result: string; // "1-0", "0-1" or "1/2-1/2" from the first player's side
+  termination?: string; // How the round ended, e.g. "红方长将判负"
+}
+
 export interface MatchDetails {
   opponent: string;
   opponentAvatar?: string;
   score: string; // e.g., "3-1", "Win", "100pts"
   matchTags?: string[]; // e.g., ["BO3", "Ranked"]
+  rounds?: RoundRecord[]; // Chess and Xiangqi only
+  puzzleId?: string; // Set when the entry is a solved puzzle rather than a match
 }
 
 export interface GameHistoryItem {
@@ -47,6 +58,7 @@ export interface User {
   stats?: Record<string, GameStats>; // Keyed by GameType
   history?: GameHistoryItem[];
   achievements?: string[]; // List of unlocked Achievement IDs
+  puzzles?: Record<string, string[]>; // Solved puzzle IDs, keyed by GameType
 }
 
 export interface ChessPiece {
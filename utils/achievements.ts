@@ -1,5 +1,6 @@
 
 import { User, GameType, Achievement } from '../types';
+import { XIANGQI_PUZZLES } from './xiangqiPuzzles';
 
 export const ACHIEVEMENTS: Achievement[] = [
   {
@@ -64,6 +65,20 @@ export const ACHIEVEMENTS: Achievement[] = [
     description: '累计赢得 10 场台球比赛',
     icon: '🎯',
     rarity: 'epic'
+  },
+  {
+    id: 'puzzle_solver',
+    title: '残局初解',
+    description: '解出第一道象棋残局',
+    icon: '🧩',
+    rarity: 'common'
+  },
+  {
+    id: 'endgame_master',
+    title: '残局大师',
+    description: '解出全部象棋残局',
+    icon: '📜',
+    rarity: 'epic'
   }
 ];
 
@@ -91,6 +106,15 @@ export const checkAchievements = (user: User, lastGameType?: GameType, isWin?: b
     unlocked.push(ACHIEVEMENTS.find(a => a.id === 'veteran')!);
   }
 
+  // Xiangqi Puzzles (solved IDs are stored on the user, independent of match wins)
+  const solvedPuzzles = user.puzzles?.[GameType.XIANGQI]?.length || 0;
+  if (!existingIds.has('puzzle_solver') && solvedPuzzles >= 1) {
+    unlocked.push(ACHIEVEMENTS.find(a => a.id === 'puzzle_solver')!);
+  }
+  if (!existingIds.has('endgame_master') && solvedPuzzles >= XIANGQI_PUZZLES.length) {
+    unlocked.push(ACHIEVEMENTS.find(a => a.id === 'endgame_master')!);
+  }
+
   // Game Specific Win Logic
   if (isWin && lastGameType) {
       // Billiards Specific
@@ -0,0 +1,35 @@
+// Engine-backed post-game analysis shared by chess and xiangqi.
+// Evaluations are in centipawns from the first player's side (white / red); mates are around ±100000
+
+export type MoveJudgement = 'INACCURACY' | 'MISTAKE' | 'BLUNDER';
+
+export const MATE_THRESHOLD = 50000;
+
+export const JUDGEMENT_SYMBOLS: Record<MoveJudgement, string> = {
+  INACCURACY: '?!',
+  MISTAKE: '?',
+  BLUNDER: '??'
+};
+
+export const JUDGEMENT_LABELS: Record<MoveJudgement, string> = {
+  INACCURACY: '欠佳',
+  MISTAKE: '错着',
+  BLUNDER: '漏着'
+};
+
+// Expected result in [-1, 1] for the first player; flattens out once a side is clearly winning
+export const winChance = (cp: number) => 2 / (1 + Math.exp(-0.00368208 * cp)) - 1;
+
+// Classifies a move by how much of the mover's winning chances it gave away
+export const judgeMove = (before: number, after: number, moverIsFirst: boolean): MoveJudgement | null => {
+  const drop = (winChance(before) - winChance(after)) * (moverIsFirst ? 1 : -1);
+  if (drop >= 0.3) return 'BLUNDER';
+  if (drop >= 0.2) return 'MISTAKE';
+  if (drop >= 0.1) return 'INACCURACY';
+  return null;
+};
+
+export const formatEval = (cp: number) => {
+  if (Math.abs(cp) >= MATE_THRESHOLD) return cp > 0 ? '+M' : '-M';
+  return `${cp > 0 ? '+' : ''}${(cp / 100).toFixed(1)}`;
+};
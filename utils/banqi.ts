@@ -0,0 +1,145 @@
+import { ChessPiece } from '../types';
+import { XiangqiColor, makeXiangqiPiece } from './xiangqi';
+
+// 暗棋: all 32 pieces start face down on a 4x8 half board. A turn either turns up a piece
+// or moves an own piece one step; the first piece turned up decides the colours
+
+export interface BanqiPiece extends ChessPiece {
+  hidden: boolean;
+}
+
+export type BanqiBoard = (BanqiPiece | null)[][];
+
+interface Point {
+  r: number;
+  c: number;
+}
+
+export type BanqiAction =
+  | { kind: 'flip', at: Point }
+  | { kind: 'move', from: Point, to: Point };
+
+export const BANQI_ROWS = 4;
+export const BANQI_COLS = 8;
+
+// Turns without a flip or capture after which the round is drawn
+export const BANQI_DRAW_PLIES = 50;
+
+const BANQI_SET: Record<string, number> = { K: 1, A: 2, E: 2, R: 2, N: 2, C: 2, P: 5 };
+
+// Higher ranks take lower or equal ones, except that soldiers take the general and the general cannot take soldiers
+const BANQI_RANKS: Record<string, number> = { K: 7, A: 6, E: 5, R: 4, N: 3, C: 2, P: 1 };
+
+const STEPS = [[0, 1], [0, -1], [1, 0], [-1, 0]];
+
+const isBanqiPos = (r: number, c: number) => r >= 0 && r < BANQI_ROWS && c >= 0 && c < BANQI_COLS;
+
+export const createBanqiBoard = (random: () => number = Math.random): BanqiBoard => {
+  const pieces: BanqiPiece[] = [];
+  (['red', 'black'] as XiangqiColor[]).forEach(color => {
+    Object.entries(BANQI_SET).forEach(([type, count]) => {
+      for (let i = 0; i < count; i++) pieces.push({ ...makeXiangqiPiece(type, color), hidden: true });
+    });
+  });
+  for (let i = pieces.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [pieces[i], pieces[j]] = [pieces[j], pieces[i]];
+  }
+  return Array(BANQI_ROWS).fill(null).map((_, r) => pieces.slice(r * BANQI_COLS, (r + 1) * BANQI_COLS));
+};
+
+export const canBanqiCapture = (attacker: ChessPiece, target: ChessPiece) => {
+  if (attacker.type === 'K' && target.type === 'P') return false;
+  if (attacker.type === 'P' && target.type === 'K') return true;
+  return BANQI_RANKS[attacker.type] >= BANQI_RANKS[target.type];
+};
+
+// Destinations of a turned-up piece: one step onto an empty square or a weaker enemy.
+// The cannon instead captures by jumping exactly one piece, face down or not, at any distance and of any rank
+export const getBanqiMoves = (board: BanqiBoard, r: number, c: number): Point[] => {
+  const piece = board[r][c];
+  if (!piece || piece.hidden) return [];
+  const moves: Point[] = [];
+
+  for (const [dr, dc] of STEPS) {
+    const nr = r + dr;
+    const nc = c + dc;
+    if (!isBanqiPos(nr, nc)) continue;
+    const target = board[nr][nc];
+    if (!target) {
+      moves.push({ r: nr, c: nc });
+    } else if (piece.type !== 'C' && !target.hidden && target.color !== piece.color && canBanqiCapture(piece, target)) {
+      moves.push({ r: nr, c: nc });
+    }
+
+    if (piece.type === 'C') {
+      let jr = nr;
+      let jc = nc;
+      let screens = 0;
+      while (isBanqiPos(jr, jc)) {
+        const p = board[jr][jc];
+        if (p) {
+          if (screens === 1) {
+            if (!p.hidden && p.color !== piece.color) moves.push({ r: jr, c: jc });
+            break;
+          }
+          screens++;
+        }
+        jr += dr;
+        jc += dc;
+      }
+    }
+  }
+  return moves;
+};
+
+// Everything the side may do; before the colours are known (color null) only flips
+export const getAllBanqiActions = (board: BanqiBoard, color: XiangqiColor | null): BanqiAction[] => {
+  const actions: BanqiAction[] = [];
+  board.forEach((row, r) => row.forEach((p, c) => {
+    if (!p) return;
+    if (p.hidden) {
+      actions.push({ kind: 'flip', at: { r, c } });
+    } else if (p.color === color) {
+      getBanqiMoves(board, r, c).forEach(to => actions.push({ kind: 'move', from: { r, c }, to }));
+    }
+  }));
+  return actions;
+};
+
+export const applyBanqiAction = (board: BanqiBoard, action: BanqiAction): BanqiBoard => {
+  const next = board.map(row => [...row]);
+  if (action.kind === 'flip') {
+    const piece = next[action.at.r][action.at.c];
+    if (piece) next[action.at.r][action.at.c] = { ...piece, hidden: false };
+  } else {
+    next[action.to.r][action.to.c] = next[action.from.r][action.from.c];
+    next[action.from.r][action.from.c] = null;
+  }
+  return next;
+};
+
+// Pieces of the colour left on the board, face down ones included
+export const countBanqiPieces = (board: BanqiBoard, color: XiangqiColor) =>
+  board.reduce((sum, row) => sum + row.filter(p => p && p.color === color).length, 0);
+
+// Outcome for the side to move: it loses with no pieces left or nothing to do; long quiet play is a draw
+export const getBanqiStatus = (board: BanqiBoard, turn: XiangqiColor | null, quietPlies: number): 'PLAYING' | 'NO_PIECES' | 'NO_MOVES' | 'DRAW' => {
+  if (turn && countBanqiPieces(board, turn) === 0) return 'NO_PIECES';
+  if (getAllBanqiActions(board, turn).length === 0) return 'NO_MOVES';
+  if (quietPlies >= BANQI_DRAW_PLIES) return 'DRAW';
+  return 'PLAYING';
+};
+
+const squareName = ({ r, c }: Point) => `${String.fromCharCode(97 + c)}${BANQI_ROWS - r}`;
+
+// Record text of an action on the board before it is played, e.g. 翻 b3 红车 or 车 b3×b4
+export const banqiActionText = (board: BanqiBoard, action: BanqiAction): string => {
+  if (action.kind === 'flip') {
+    const piece = board[action.at.r][action.at.c];
+    return piece ? `翻 ${squareName(action.at)} ${piece.color === 'red' ? '红' : '黑'}${piece.label}` : '';
+  }
+  const piece = board[action.from.r][action.from.c];
+  const capture = board[action.to.r][action.to.c];
+  return piece ? `${piece.label} ${squareName(action.from)}${capture ? '×' : '-'}${squareName(action.to)}` : '';
+};
@@ -0,0 +1,198 @@
+import { Ball, BilliardsMode, Shot, TableGeometry, HEAD_SPOT, FOOT_SPOT, MAX_POWER, simulateShot, isValidPlacement, isPathClear } from './billiardsEngine';
+import { RackState, Player, judgeShot, legalTargetIds, mustCallPocket, HEAD_STRING_X } from './billiardsRules';
+
+export interface BilliardsBotLevel {
+  id: string;
+  name: string;
+  aimError: number; // Standard deviation of the aim, in radians
+  powerError: number; // Standard deviation of the power, as a fraction of it
+  pointsMultiplier: number;
+}
+
+export const BILLIARDS_BOT_LEVELS: BilliardsBotLevel[] = [
+  { id: 'novice', name: '入门', aimError: 0.05, powerError: 0.25, pointsMultiplier: 0.5 },
+  { id: 'easy', name: '简单', aimError: 0.025, powerError: 0.15, pointsMultiplier: 1 },
+  { id: 'medium', name: '中等', aimError: 0.012, powerError: 0.08, pointsMultiplier: 1.5 },
+  { id: 'hard', name: '困难', aimError: 0.004, powerError: 0.04, pointsMultiplier: 2 }
+];
+
+export interface BilliardsBotRequest {
+  id: number;
+  balls: Ball[];
+  mode: BilliardsMode;
+  table: TableGeometry;
+  rack: RackState;
+  turn: Player;
+  placing: boolean; // Ball in hand: answer with where to put the cue ball
+  kitchen: boolean; // Ball in hand only behind the head string
+  levelId: string;
+  seed: number;
+}
+
+export interface BilliardsBotResponse {
+  id: number;
+  placement: { x: number, y: number } | null; // Set instead of a shot when the bot had ball in hand
+  shot: Shot | null;
+  calledPocket: number | null; // Pocket nominated for the 8
+}
+
+interface Point {
+  x: number;
+  y: number;
+}
+
+// Small seeded generator so a decision can be reproduced from its request
+const createRandom = (seed: number) => {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6D2B79F5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+const gaussian = (random: () => number) => {
+  const u = Math.max(random(), 1e-9);
+  return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * random());
+};
+
+// Cosine of the widest angle off a pocket's axis a ball is sent in at
+const MIN_POCKET_ENTRY = 0.35;
+
+interface PotLine {
+  target: Ball;
+  pocket: number;
+  ghost: Point; // Where the cue ball centre must be at contact
+  dir: Point; // Unit direction from the target to the pocket
+  pocketDistance: number;
+}
+
+// Target-to-pocket lines that nothing blocks
+const potLines = (balls: Ball[], targets: number[], table: TableGeometry): PotLine[] => {
+  const lines: PotLine[] = [];
+  balls.filter(b => b.active && targets.includes(b.id)).forEach(target => {
+    table.pockets.forEach((pocket, index) => {
+      const dx = pocket.x - target.x; const dy = pocket.y - target.y;
+      const pocketDistance = Math.sqrt(dx * dx + dy * dy);
+      if (pocketDistance < 1) return;
+      const dir = { x: dx / pocketDistance, y: dy / pocketDistance };
+      // Too thin an angle into the mouth only finds the jaw
+      if (dir.x * pocket.axis.x + dir.y * pocket.axis.y < MIN_POCKET_ENTRY) return;
+      if (!isPathClear(balls, target, pocket, [0, target.id], table)) return;
+      const ghostDistance = table.ballRadius * 2;
+      lines.push({ target, pocket: index, ghost: { x: target.x - dir.x * ghostDistance, y: target.y - dir.y * ghostDistance }, dir, pocketDistance });
+    });
+  });
+  return lines;
+};
+
+// Ghost-ball aims at every open pocket, easiest (straightest and shortest) first
+const potCandidates = (balls: Ball[], targets: number[], table: TableGeometry) => {
+  const cue = balls.find(b => b.id === 0)!;
+  return potLines(balls, targets, table)
+    .map(line => {
+      const ax = line.ghost.x - cue.x; const ay = line.ghost.y - cue.y;
+      const aimDistance = Math.sqrt(ax * ax + ay * ay);
+      const cutCos = aimDistance > 0 ? (ax * line.dir.x + ay * line.dir.y) / aimDistance : 0;
+      return { angle: Math.atan2(ay, ax), cutCos, ease: cutCos * 1000 - aimDistance - line.pocketDistance, line };
+    })
+    .filter(c => c.cutCos > 0.2 && isPathClear(balls, cue, c.line.ghost, [0, c.line.target.id], table))
+    .sort((a, b) => b.ease - a.ease);
+};
+
+const SHOT_POWERS = [14, 22, 32];
+const MAX_CANDIDATES = 8;
+
+// Value of a simulated outcome for the shooter: winning, keeping the table, then the next shot's chances
+const scoreOutcome = (mode: BilliardsMode, table: TableGeometry, turn: Player, rack: RackState, kitchen: boolean, balls: Ball[], shot: Shot, calledPocket: number | null) => {
+  const result = simulateShot(balls, shot, false, table);
+  const verdict = judgeShot(mode, turn, rack, balls, result, { calledPocket, pushOut: false, kitchen });
+  if (verdict.winner) return verdict.winner === turn ? 10000 : -10000;
+  if (verdict.foul) return -500;
+  if (verdict.nextTurn !== turn) return 0;
+  const cue = result.balls.find(b => b.id === 0);
+  if (!cue || !cue.active) return 0;
+  const nextTargets = legalTargetIds(mode, result.balls, verdict.rack.groups, turn);
+  return 1000 + 100 * result.potted.length + 20 * Math.min(5, potCandidates(result.balls, nextTargets, table).length);
+};
+
+interface Candidate {
+  shot: Shot;
+  calledPocket: number | null;
+}
+
+// Picks the shot with the best simulated outcome, then spoils it with the level's aim and power error.
+// On the 8 the pocket it aims for is the one called
+export const chooseBilliardsShot = (balls: Ball[], mode: BilliardsMode, table: TableGeometry, rack: RackState, turn: Player, kitchen: boolean, level: BilliardsBotLevel, random: () => number = Math.random): Candidate => {
+  const cue = balls.find(b => b.id === 0)!;
+  const spoil = (shot: Shot): Shot => ({
+    angle: shot.angle + gaussian(random) * level.aimError,
+    power: Math.max(4, Math.min(MAX_POWER, shot.power * (1 + gaussian(random) * level.powerError)))
+  });
+
+  // Break: full power into the apex, a touch off centre so the rack spreads to the rails
+  if (rack.isBreak) return { shot: spoil({ angle: Math.atan2(FOOT_SPOT.y - cue.y, FOOT_SPOT.x - cue.x) - 0.012, power: MAX_POWER }), calledPocket: null };
+
+  const targets = legalTargetIds(mode, balls, rack.groups, turn);
+  const onEight = mustCallPocket(mode, balls, rack, turn);
+
+  const candidates: Candidate[] = [];
+  potCandidates(balls, targets, table).slice(0, MAX_CANDIDATES).forEach(c => {
+    SHOT_POWERS.forEach(power => candidates.push({ shot: { angle: c.angle, power }, calledPocket: onEight ? c.line.pocket : null }));
+  });
+  // Nothing to pot: at least hit a legal ball full in the face
+  if (candidates.length === 0) {
+    balls.filter(b => b.active && targets.includes(b.id)).forEach(b => {
+      [12, 24].forEach(power => candidates.push({ shot: { angle: Math.atan2(b.y - cue.y, b.x - cue.x), power }, calledPocket: onEight ? 0 : null }));
+    });
+  }
+  if (candidates.length === 0) candidates.push({ shot: { angle: 0, power: 20 }, calledPocket: onEight ? 0 : null });
+
+  let best = candidates[0];
+  let bestScore = -Infinity;
+  candidates.forEach(candidate => {
+    const score = scoreOutcome(mode, table, turn, rack, kitchen, balls, candidate.shot, candidate.calledPocket);
+    if (score > bestScore) {
+      bestScore = score;
+      best = candidate;
+    }
+  });
+
+  return { shot: spoil(best.shot), calledPocket: best.calledPocket };
+};
+
+const PLACEMENT_DISTANCES = [90, 150, 220];
+
+// Ball in hand: line the cue ball up straight behind the easiest pot, or anywhere free
+export const chooseCuePlacement = (balls: Ball[], mode: BilliardsMode, table: TableGeometry, rack: RackState, turn: Player, kitchen: boolean): Point => {
+  const maxX = kitchen ? HEAD_STRING_X : table.width;
+  const canPlace = (spot: Point) => spot.x <= maxX && isValidPlacement(balls, 0, spot.x, spot.y, table);
+  const targets = legalTargetIds(mode, balls, rack.groups, turn);
+  const lines = potLines(balls, targets, table).sort((a, b) => a.pocketDistance - b.pocketDistance);
+  for (const line of lines) {
+    for (const distance of PLACEMENT_DISTANCES) {
+      const spot = { x: line.ghost.x - line.dir.x * distance, y: line.ghost.y - line.dir.y * distance };
+      if (canPlace(spot) && isPathClear(balls, spot, line.ghost, [0, line.target.id], table)) return spot;
+    }
+  }
+
+  if (canPlace(HEAD_SPOT)) return HEAD_SPOT;
+  const step = table.ballRadius * 2;
+  for (let x = step; x <= maxX; x += step) {
+    for (let y = step; y < table.height; y += step) {
+      if (isValidPlacement(balls, 0, x, y, table)) return { x, y };
+    }
+  }
+  return HEAD_SPOT;
+};
+
+// One bot decision: where to put the cue ball when it has ball in hand, otherwise the shot
+export const decideBilliardsTurn = (request: BilliardsBotRequest): BilliardsBotResponse => {
+  const { id, balls, mode, table, rack, turn, placing, kitchen, levelId, seed } = request;
+  if (placing) return { id, placement: chooseCuePlacement(balls, mode, table, rack, turn, kitchen), shot: null, calledPocket: null };
+  const level = BILLIARDS_BOT_LEVELS.find(l => l.id === levelId) || BILLIARDS_BOT_LEVELS[0];
+  const { shot, calledPocket } = chooseBilliardsShot(balls, mode, table, rack, turn, kitchen, level, createRandom(seed));
+  return { id, placement: null, shot, calledPocket };
+};
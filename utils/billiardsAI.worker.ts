@@ -0,0 +1,8 @@
+import { decideBilliardsTurn, BilliardsBotRequest } from './billiardsAI';
+
+// Simulates the bot's candidate shots off the main thread so the table keeps animating
+const ctx = self as unknown as Worker;
+
+ctx.onmessage = (e: MessageEvent<BilliardsBotRequest>) => {
+  ctx.postMessage(decideBilliardsTurn(e.data));
+};
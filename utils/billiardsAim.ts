@@ -0,0 +1,87 @@
+import { Ball, TableGeometry } from './billiardsEngine';
+
+export type AimAssist = 'FULL' | 'PARTIAL' | 'NONE';
+
+// FULL: ghost ball, object ball line and the cue ball's path with one cushion; PARTIAL: ghost ball and a
+// short object ball stub; NONE: only the cue line
+export const AIM_ASSISTS: { id: AimAssist, name: string, tag: string }[] = [
+  { id: 'FULL', name: '完整', tag: '完整瞄准' },
+  { id: 'PARTIAL', name: '部分', tag: '部分瞄准' },
+  { id: 'NONE', name: '关闭', tag: '无瞄准辅助' }
+];
+
+interface Point {
+  x: number;
+  y: number;
+}
+
+export interface AimPrediction {
+  contact: Point; // Cue ball centre where it first touches a ball (the ghost ball) or a cushion
+  targetId: number | null; // Ball that would be hit first
+  objectPath: Point[]; // Object ball from its centre to the first cushion
+  cuePath: Point[]; // Cue ball from the contact on, including one cushion bounce
+}
+
+const CUE_PATH_AFTER_BOUNCE = 160;
+
+// Distance along the unit direction until the ball centre reaches a cushion, and which cushion it is
+const castToCushion = (from: Point, dir: Point, table: TableGeometry) => {
+  const r = table.ballRadius;
+  const tx = dir.x > 0 ? (table.width - r - from.x) / dir.x : dir.x < 0 ? (r - from.x) / dir.x : Infinity;
+  const ty = dir.y > 0 ? (table.height - r - from.y) / dir.y : dir.y < 0 ? (r - from.y) / dir.y : Infinity;
+  return tx < ty ? { t: Math.max(0, tx), side: 'x' as const } : { t: Math.max(0, ty), side: 'y' as const };
+};
+
+// A straight run to the first cushion, then a mirror bounce off it for a limited length
+const pathWithBounce = (from: Point, dir: Point, table: TableGeometry): Point[] => {
+  const hit = castToCushion(from, dir, table);
+  const at = { x: from.x + dir.x * hit.t, y: from.y + dir.y * hit.t };
+  const out = hit.side === 'x' ? { x: -dir.x, y: dir.y } : { x: dir.x, y: -dir.y };
+  const next = castToCushion(at, out, table);
+  const length = Math.min(next.t, CUE_PATH_AFTER_BOUNCE);
+  return [from, at, { x: at.x + out.x * length, y: at.y + out.y * length }];
+};
+
+// Straight-line prediction of a shot: ghost ball, object ball direction (line of centres) and the cue ball
+// leaving along the tangent line, bent forward by follow or back by draw. It ignores throw and swerve
+export const predictAim = (balls: Ball[], angle: number, tipY: number, table: TableGeometry): AimPrediction | null => {
+  const cue = balls.find(b => b.id === 0);
+  if (!cue || !cue.active) return null;
+  const dir = { x: Math.cos(angle), y: Math.sin(angle) };
+  const reach = (table.ballRadius * 2) ** 2;
+
+  // Nearest ball the cue ball would touch before reaching a cushion
+  const wall = castToCushion(cue, dir, table);
+  let target: Ball | null = null;
+  let t = wall.t;
+  for (const ball of balls) {
+    if (!ball.active || ball.id === 0) continue;
+    const fx = cue.x - ball.x; const fy = cue.y - ball.y;
+    const b = fx * dir.x + fy * dir.y;
+    const disc = b * b - (fx * fx + fy * fy - reach);
+    if (disc < 0) continue;
+    const hit = -b - Math.sqrt(disc);
+    if (hit > 0 && hit < t) { t = hit; target = ball; }
+  }
+
+  if (!target) {
+    const path = pathWithBounce(cue, dir, table);
+    return { contact: path[1], targetId: null, objectPath: [], cuePath: path.slice(1) };
+  }
+
+  const ball = target;
+  const contact = { x: cue.x + dir.x * t, y: cue.y + dir.y * t };
+  const nx = (ball.x - contact.x) / (table.ballRadius * 2); const ny = (ball.y - contact.y) / (table.ballRadius * 2);
+  const fullness = dir.x * nx + dir.y * ny;
+  const objectHit = castToCushion(ball, { x: nx, y: ny }, table);
+  const objectPath = [{ x: ball.x, y: ball.y }, { x: ball.x + nx * objectHit.t, y: ball.y + ny * objectHit.t }];
+
+  // Tangent line, plus the share of the cue ball's forward speed that spin carries on or pulls back
+  const tangent = { x: dir.x - fullness * nx, y: dir.y - fullness * ny };
+  const bend = Math.max(-1, Math.min(1, tipY)) * fullness * 0.7;
+  const cueDir = { x: tangent.x + bend * nx, y: tangent.y + bend * ny };
+  const length = Math.sqrt(cueDir.x * cueDir.x + cueDir.y * cueDir.y);
+  // A full stun hit leaves the cue ball where it is
+  if (length < 0.05) return { contact, targetId: ball.id, objectPath, cuePath: [contact] };
+  return { contact, targetId: ball.id, objectPath, cuePath: pathWithBounce(contact, { x: cueDir.x / length, y: cueDir.y / length }, table) };
+};
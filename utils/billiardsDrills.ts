@@ -0,0 +1,115 @@
+// Practice drills: a named ball layout that can be set up again and again, saved per user and shared as a short code
+import { Ball, BilliardsMode, TableGeometry, isValidPlacement } from './billiardsEngine';
+
+export interface DrillBall {
+  id: number;
+  x: number;
+  y: number;
+}
+
+export interface BilliardsDrill {
+  name: string;
+  mode: BilliardsMode; // Decides the table and the ball set
+  balls: DrillBall[];
+  description?: string;
+}
+
+export const BUILTIN_DRILLS: BilliardsDrill[] = [
+  {
+    name: '定杆',
+    mode: '8BALL',
+    description: '直线进角袋，母球击球后原地停住',
+    balls: [{ id: 0, x: 450, y: 225 }, { id: 1, x: 650, y: 325 }]
+  },
+  {
+    name: '长台切球',
+    mode: '8BALL',
+    description: '从开球区跨长台薄切进右上角袋',
+    balls: [{ id: 0, x: 100, y: 250 }, { id: 3, x: 700, y: 120 }]
+  },
+  {
+    name: '翻袋',
+    mode: '8BALL',
+    description: '目标球直线被挡，吃底库翻进右上角袋',
+    balls: [{ id: 0, x: 188, y: 230 }, { id: 6, x: 300, y: 330 }, { id: 8, x: 560, y: 150 }]
+  }
+];
+
+// Ball ids of each mode: pool balls 1-15 (1-9 in 9-ball), snooker reds 1-15 and colours 16-21
+export const drillBallIds = (mode: BilliardsMode): number[] => {
+  const count = mode === 'SNOOKER' ? 21 : mode === '9BALL' ? 9 : 15;
+  return Array.from({ length: count + 1 }, (_, id) => id);
+};
+
+const ballType = (mode: BilliardsMode, id: number): Ball['type'] => {
+  if (id === 0) return 'CUE';
+  if (mode === 'SNOOKER') return id <= 15 ? 'RED' : 'COLOUR';
+  if (mode === '9BALL') return id === 9 ? 'NINE' : 'SOLID';
+  return id === 8 ? 'EIGHT' : id > 8 ? 'STRIPE' : 'SOLID';
+};
+
+export const createDrillBall = (mode: BilliardsMode, id: number, x: number, y: number): Ball =>
+  ({ id, x, y, vx: 0, vy: 0, wx: 0, wy: 0, wz: 0, active: true, type: ballType(mode, id) });
+
+// Balls at rest on their drill positions
+export const drillToBalls = (drill: BilliardsDrill): Ball[] =>
+  drill.balls.map(b => createDrillBall(drill.mode, b.id, b.x, b.y));
+
+// The layout of the balls still on the table, rounded to whole table units
+export const ballsToDrill = (name: string, mode: BilliardsMode, balls: Ball[]): BilliardsDrill => ({
+  name,
+  mode,
+  balls: balls.filter(b => b.active).map(b => ({ id: b.id, x: Math.round(b.x), y: Math.round(b.y) }))
+});
+
+// Why the layout cannot be set up on the given table, null when every ball is on the cloth and clear of the others.
+// The same coordinates fit one table size and not the other, as the balls differ in size
+export const drillProblem = (drill: BilliardsDrill, table: TableGeometry): string | null => {
+  const placed: Ball[] = [];
+  for (const b of drill.balls) {
+    if (!isValidPlacement([], b.id, b.x, b.y, table)) return '有球超出台面';
+    if (!isValidPlacement(placed, b.id, b.x, b.y, table)) return '有球互相重叠 (坐标取整后)';
+    placed.push(createDrillBall(drill.mode, b.id, b.x, b.y));
+  }
+  return null;
+};
+
+// --- Share codes ---
+// BD1|<mode>|<name>|<balls>, every ball packed as 5 base-36 characters: id, then x and y with two each
+const CODE_PREFIX = 'BD1';
+const MODE_CODES: Record<BilliardsMode, string> = { '8BALL': '8', '9BALL': '9', SNOOKER: 'S' };
+
+export const encodeDrill = (drill: BilliardsDrill): string => {
+  const balls = drill.balls.map(b =>
+    b.id.toString(36) + b.x.toString(36).padStart(2, '0') + b.y.toString(36).padStart(2, '0')
+  ).join('');
+  return [CODE_PREFIX, MODE_CODES[drill.mode], encodeURIComponent(drill.name), balls].join('|');
+};
+
+// Null for anything that is not a layout of the mode: a cue ball and known ids only once each. Whether it fits the
+// table it is played on is left to drillProblem
+export const decodeDrill = (code: string): BilliardsDrill | null => {
+  const parts = code.trim().split('|');
+  if (parts.length !== 4 || parts[0] !== CODE_PREFIX) return null;
+  const mode = (Object.keys(MODE_CODES) as BilliardsMode[]).find(m => MODE_CODES[m] === parts[1]);
+  if (!mode || parts[3].length % 5 !== 0 || !/^[0-9a-z]*$/.test(parts[3])) return null;
+
+  let name: string;
+  try {
+    name = decodeURIComponent(parts[2]).trim();
+  } catch {
+    return null;
+  }
+  if (!name) return null;
+
+  const balls: DrillBall[] = [];
+  for (let i = 0; i < parts[3].length; i += 5) {
+    const chunk = parts[3].slice(i, i + 5);
+    balls.push({ id: parseInt(chunk[0], 36), x: parseInt(chunk.slice(1, 3), 36), y: parseInt(chunk.slice(3, 5), 36) });
+  }
+
+  const ids = drillBallIds(mode);
+  if (balls.some((b, i) => !ids.includes(b.id) || balls.findIndex(o => o.id === b.id) !== i)) return null;
+  if (!balls.some(b => b.id === 0)) return null;
+  return { name, mode, balls };
+};
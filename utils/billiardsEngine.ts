@@ -0,0 +1,508 @@
+// Billiards physics: a fixed-timestep simulation with no React, DOM or randomness inside,
+// so the same table and shot always give the same result (replays, bots, running it in Node)
+
+export type BilliardsMode = '8BALL' | '9BALL' | 'SNOOKER';
+
+// --- Table ---
+// Pool tables share one coordinate space, the 7ft bar table at about 2.5mm per unit; larger tables use smaller balls in it
+export const TABLE_WIDTH = 800;
+export const TABLE_HEIGHT = 400;
+export const BALL_RADIUS = 12;
+
+export const HEAD_SPOT = { x: 200, y: TABLE_HEIGHT / 2 };
+export const FOOT_SPOT = { x: 600, y: TABLE_HEIGHT / 2 };
+
+interface Point {
+  x: number;
+  y: number;
+}
+
+// The nose line of a straight piece of cushion rubber: ball centres stay a ball radius away from it
+export interface Cushion {
+  a: Point;
+  b: Point;
+}
+
+export interface Pocket {
+  x: number; // Middle of the shelf between the jaw ends, which is also what shots aim at
+  y: number;
+  radius: number; // Half the width of the throat between the jaw ends
+  axis: Point; // Unit direction into the pocket: a ball falls once its centre is past the shelf
+  jaws: [Cushion, Cushion]; // Cushion faces running from the noses at the mouth into the pocket
+}
+
+export interface TableGeometry {
+  width: number;
+  height: number;
+  ballRadius: number;
+  pockets: Pocket[]; // Top left, top middle, top right, bottom left, bottom middle, bottom right
+  cushions: Cushion[]; // The rails between the pockets
+}
+
+export type TableSize = '7FT' | '9FT';
+
+// How a pocket is cut: the opening between the cushion noses, the angle between the cushion and its jaw face
+// (over 90° the jaws close in behind the mouth) and how far the jaws reach back to the shelf
+interface PocketCut {
+  mouth: number;
+  jawAngle: number;
+  depth: number;
+}
+
+// Jaw face from a nose; `along` points from the pocket along the cushion, `out` off the bed
+const cutJaw = (nose: Point, along: Point, out: Point, cut: PocketCut): Cushion => {
+  const angle = cut.jawAngle * Math.PI / 180;
+  const dx = along.x * Math.cos(angle) + out.x * Math.sin(angle);
+  const dy = along.y * Math.cos(angle) + out.y * Math.sin(angle);
+  return { a: nose, b: { x: nose.x + dx * cut.depth, y: nose.y + dy * cut.depth } };
+};
+
+const makePocket = (first: Cushion, second: Cushion): Pocket => {
+  const x = (first.b.x + second.b.x) / 2; const y = (first.b.y + second.b.y) / 2;
+  const mx = (first.a.x + second.a.x) / 2; const my = (first.a.y + second.a.y) / 2;
+  const length = Math.sqrt((x - mx) ** 2 + (y - my) ** 2);
+  return {
+    x, y, radius: Math.sqrt((first.b.x - second.b.x) ** 2 + (first.b.y - second.b.y) ** 2) / 2,
+    axis: { x: (x - mx) / length, y: (y - my) / length }, jaws: [first, second]
+  };
+};
+
+// Six pockets on a width × height bed of cloth and the rails that run between them
+const buildTable = (width: number, height: number, ballRadius: number, corner: PocketCut, side: PocketCut): TableGeometry => {
+  const c = corner.mouth / Math.SQRT2; // Nose distance from the corner along each rail
+  const s = side.mouth / 2;
+  const mid = width / 2;
+  const left = { x: -1, y: 0 }; const right = { x: 1, y: 0 }; const up = { x: 0, y: -1 }; const down = { x: 0, y: 1 };
+  return {
+    width, height, ballRadius,
+    pockets: [
+      makePocket(cutJaw({ x: c, y: 0 }, right, up, corner), cutJaw({ x: 0, y: c }, down, left, corner)),
+      makePocket(cutJaw({ x: mid - s, y: 0 }, left, up, side), cutJaw({ x: mid + s, y: 0 }, right, up, side)),
+      makePocket(cutJaw({ x: width - c, y: 0 }, left, up, corner), cutJaw({ x: width, y: c }, down, right, corner)),
+      makePocket(cutJaw({ x: c, y: height }, right, down, corner), cutJaw({ x: 0, y: height - c }, up, left, corner)),
+      makePocket(cutJaw({ x: mid - s, y: height }, left, down, side), cutJaw({ x: mid + s, y: height }, right, down, side)),
+      makePocket(cutJaw({ x: width - c, y: height }, left, down, corner), cutJaw({ x: width, y: height - c }, up, right, corner))
+    ],
+    cushions: [
+      { a: { x: c, y: 0 }, b: { x: mid - s, y: 0 } }, { a: { x: mid + s, y: 0 }, b: { x: width - c, y: 0 } },
+      { a: { x: c, y: height }, b: { x: mid - s, y: height } }, { a: { x: mid + s, y: height }, b: { x: width - c, y: height } },
+      { a: { x: 0, y: c }, b: { x: 0, y: height - c } }, { a: { x: width, y: c }, b: { x: width, y: height - c } }
+    ]
+  };
+};
+
+// 7ft bar table: generous pockets for the size of the balls
+export const POOL_TABLE: TableGeometry = buildTable(TABLE_WIDTH, TABLE_HEIGHT, BALL_RADIUS,
+  { mouth: 54, jawAngle: 142, depth: 14 }, { mouth: 58, jawAngle: 104, depth: 12 });
+
+// 9ft pro table: the same bed scaled up, so the balls are smaller, with tournament pockets of about two balls across
+export const PRO_TABLE: TableGeometry = buildTable(TABLE_WIDTH, TABLE_HEIGHT, 9,
+  { mouth: 36, jawAngle: 142, depth: 11 }, { mouth: 40, jawAngle: 104, depth: 9 });
+
+// Snooker is played on a longer table with smaller balls and tight, rounded pockets (a 12ft table at 1px ≈ 3mm)
+export const SNOOKER_TABLE: TableGeometry = buildTable(1200, 600, 9,
+  { mouth: 30, jawAngle: 140, depth: 10 }, { mouth: 35, jawAngle: 100, depth: 8 });
+
+// The baulk line and the "D" the cue ball is placed in, on the left end of the snooker table
+export const SNOOKER_BAULK_X = 248;
+export const SNOOKER_D_RADIUS = 98;
+
+// Snooker ball ids: 0 is the cue ball, 1-15 the reds, 16-21 yellow, green, brown, blue, pink and black
+export const SNOOKER_SPOTS: Record<number, { x: number, y: number }> = {
+  16: { x: SNOOKER_BAULK_X, y: 300 + SNOOKER_D_RADIUS },
+  17: { x: SNOOKER_BAULK_X, y: 300 - SNOOKER_D_RADIUS },
+  18: { x: SNOOKER_BAULK_X, y: 300 },
+  19: { x: 600, y: 300 },
+  20: { x: 900, y: 300 },
+  21: { x: 1091, y: 300 }
+};
+
+// Snooker always has its own table; pool is played on either size
+export const tableFor = (mode: BilliardsMode, size: TableSize = '7FT'): TableGeometry =>
+  mode === 'SNOOKER' ? SNOOKER_TABLE : size === '9FT' ? PRO_TABLE : POOL_TABLE;
+
+// --- Physics Parameters ---
+export const FRAME_MS = 1000 / 60; // Duration of one engine frame
+const SUB_STEPS = 8;
+const DECELERATION = 0.045;
+const BALL_RESTITUTION = 0.92;
+const STOP_THRESHOLD = 0.08;
+export const MAX_POWER = 45;
+
+// Spin: cloth friction while the ball slides, loss of side spin, and friction in ball and cushion contacts
+const SLIDE_FRICTION = 0.2;
+const SIDE_SPIN_DECAY = 0.01;
+const BALL_FRICTION = 0.06;
+const CUSHION_FRICTION = 0.2;
+
+// Cushion rebound: the rubber gives back less of a hard hit than of a soft one, and a ball driven square into
+// the nose (which sits above the ball's centre) is pinned to the bed and loses more than a glancing one
+const CUSHION_BOUNCE_SOFT = 0.86;
+const CUSHION_BOUNCE_HARD = 0.66;
+const CUSHION_HARD_SPEED = 30; // Speed into the cushion from which a hit counts as hard
+const CUSHION_SQUARE_LOSS = 0.1;
+
+// How far before the shelf a ball that has all but stopped drops (in ball radii), and the speed from which it no longer does
+const POCKET_DROP_REACH = 1;
+const POCKET_DROP_SPEED = 15;
+const MAX_TIP_OFFSET = 0.5; // Furthest the cue tip may strike from the centre, in ball radii
+const MAX_SHOT_FRAMES = 60 * 60; // Safety stop, far longer than any real shot
+
+export interface Ball {
+  id: number;
+  x: number;
+  y: number;
+  vx: number;
+  vy: number;
+  // Spin as the speed of the ball's surface: (wx, wy) is roll, equal to (vx, vy) once the ball rolls
+  // naturally; wz is side spin (english), positive when turning clockwise on screen
+  wx: number;
+  wy: number;
+  wz: number;
+  active: boolean;
+  type: 'CUE' | 'SOLID' | 'STRIPE' | 'EIGHT' | 'NINE' | 'RED' | 'COLOUR';
+}
+
+export interface Shot {
+  angle: number; // Radians, direction the cue ball is sent in
+  power: number; // Initial cue ball speed, up to MAX_POWER
+  tipX?: number; // Cue tip contact from -1 (left english) to 1 (right english)
+  tipY?: number; // From -1 (draw, back spin) to 1 (follow, top spin)
+}
+
+// Things that happened during a shot, stamped with the frame they happened in (for sounds and rules)
+export type ShotEvent =
+  | { kind: 'HIT', frame: number, a: number, b: number, speed: number }
+  | { kind: 'RAIL', frame: number, id: number, speed: number }
+  | { kind: 'POCKET', frame: number, id: number, pocket: number }; // pocket: index into the table's pockets
+
+export interface BallSnapshot {
+  x: number;
+  y: number;
+  active: boolean;
+}
+
+export interface ShotResult {
+  balls: Ball[]; // Where everything came to rest
+  frames: BallSnapshot[][]; // Per frame, per ball (same order as balls); frame 0 is the position before the shot
+  events: ShotEvent[];
+  firstHitId: number | null; // First object ball the cue ball touched
+  cueReachX: number; // Furthest the cue ball got towards the foot rail before it touched a ball (head-string rule)
+  potted: number[]; // Ball ids in the order they dropped
+}
+
+export const cloneBalls = (balls: Ball[]): Ball[] => balls.map(b => ({ ...b }));
+
+// Standard racks with the apex on the foot spot; `random` only adds sub-pixel jitter so breaks differ
+export const createRack = (mode: BilliardsMode, random: () => number = Math.random, table: TableGeometry = tableFor(mode)): Ball[] => {
+  const balls: Ball[] = [];
+
+  if (mode === 'SNOOKER') {
+    const r = table.ballRadius;
+    const dist = Math.sqrt((2 * r) ** 2 - r ** 2) + 0.5;
+    const pink = SNOOKER_SPOTS[20];
+    // The cue ball starts in the D; the reds form a triangle just behind the pink
+    balls.push({ id: 0, x: SNOOKER_BAULK_X - 40, y: pink.y + 30, vx: 0, vy: 0, wx: 0, wy: 0, wz: 0, active: true, type: 'CUE' });
+    let id = 1;
+    for (let col = 0; col < 5; col++) {
+      for (let row = 0; row <= col; row++) {
+        const x = pink.x + 2 * r + 1 + col * dist;
+        const y = pink.y + row * 2 * r - col * r;
+        balls.push({ id: id++, x: x + random() * 0.1, y: y + random() * 0.1, vx: 0, vy: 0, wx: 0, wy: 0, wz: 0, active: true, type: 'RED' });
+      }
+    }
+    for (let colour = 16; colour <= 21; colour++) {
+      const spot = SNOOKER_SPOTS[colour];
+      balls.push({ id: colour, x: spot.x, y: spot.y, vx: 0, vy: 0, wx: 0, wy: 0, wz: 0, active: true, type: 'COLOUR' });
+    }
+    return balls;
+  }
+
+  // Cue Ball
+  balls.push({ id: 0, x: HEAD_SPOT.x, y: HEAD_SPOT.y, vx: 0, vy: 0, wx: 0, wy: 0, wz: 0, active: true, type: 'CUE' });
+
+  const r = table.ballRadius;
+  const dist = Math.sqrt((2 * r) ** 2 - r ** 2) + 0.5;
+
+  if (mode === '8BALL') {
+    const pattern = [
+      [1],
+      [2, 9],
+      [3, 8, 10],
+      [4, 15, 12, 5],
+      [6, 7, 13, 14, 11]
+    ];
+
+    pattern.forEach((row, colIndex) => {
+      row.forEach((id, rowIndex) => {
+        const x = FOOT_SPOT.x + colIndex * dist;
+        const y = FOOT_SPOT.y + (rowIndex * 2 * r) - (row.length - 1) * r;
+
+        let type: Ball['type'] = 'SOLID';
+        if (id > 8) type = 'STRIPE';
+        if (id === 8) type = 'EIGHT';
+
+        balls.push({ id, x: x + random() * 0.1, y: y + random() * 0.1, vx: 0, vy: 0, wx: 0, wy: 0, wz: 0, active: true, type });
+      });
+    });
+  } else {
+    const ids = [1, 2, 3, 9, 5, 6, 7, 8, 4];
+    const positions = [
+      { c: 0, r: 0 },
+      { c: 1, r: -0.5 }, { c: 1, r: 0.5 },
+      { c: 2, r: 0 },
+      { c: 2, r: -1 }, { c: 2, r: 1 },
+      { c: 3, r: -0.5 }, { c: 3, r: 0.5 },
+      { c: 4, r: 0 }
+    ];
+
+    positions.forEach((pos, i) => {
+      const id = ids[i];
+      balls.push({
+        id, x: FOOT_SPOT.x + pos.c * dist + random() * 0.1, y: FOOT_SPOT.y + pos.r * 2 * r + random() * 0.1, vx: 0, vy: 0, wx: 0, wy: 0, wz: 0, active: true,
+        type: id === 9 ? 'NINE' : 'SOLID'
+      });
+    });
+  }
+  return balls;
+};
+
+// Whether a ball could stand at (x, y): on the cloth and clear of every other ball on the table
+export const isValidPlacement = (balls: Ball[], id: number, x: number, y: number, table: TableGeometry = POOL_TABLE) => {
+  const r = table.ballRadius;
+  if (x < r || x > table.width - r || y < r || y > table.height - r) return false;
+  return balls.every(b => {
+    if (b.id === id || !b.active) return true;
+    const dx = b.x - x; const dy = b.y - y;
+    return dx * dx + dy * dy >= (r * 2) ** 2;
+  });
+};
+
+// Whether a ball can travel from a to b without touching any active ball other than the ignored ones
+export const isPathClear = (balls: Ball[], a: { x: number, y: number }, b: { x: number, y: number }, ignore: number[], table: TableGeometry = POOL_TABLE) => {
+  const dx = b.x - a.x; const dy = b.y - a.y;
+  const lengthSq = dx * dx + dy * dy;
+  return balls.every(ball => {
+    if (!ball.active || ignore.includes(ball.id)) return true;
+    const t = lengthSq > 0 ? Math.max(0, Math.min(1, ((ball.x - a.x) * dx + (ball.y - a.y) * dy) / lengthSq)) : 0;
+    const px = a.x + t * dx - ball.x; const py = a.y + t * dy - ball.y;
+    return px * px + py * py >= (table.ballRadius * 2) ** 2;
+  });
+};
+
+// Puts a pocketed ball back on the spot, or the nearest free point behind it along the long axis
+export const spotBall = (balls: Ball[], id: number, spot: { x: number, y: number } = FOOT_SPOT, table: TableGeometry = POOL_TABLE): Ball[] =>
+  balls.map(b => {
+    if (b.id !== id) return b;
+    for (let offset = 0; offset < table.width; offset += 1) {
+      for (const x of [spot.x + offset, spot.x - offset]) {
+        if (isValidPlacement(balls, id, x, spot.y, table)) return { ...b, x, y: spot.y, vx: 0, vy: 0, wx: 0, wy: 0, wz: 0, active: true };
+      }
+    }
+    return { ...b, x: spot.x, y: spot.y, vx: 0, vy: 0, wx: 0, wy: 0, wz: 0, active: true };
+  });
+
+// Index of the pocket the ball has dropped into, or -1. A ball falls once its centre is past the shelf between
+// the jaw ends; a slow one already tips in a little before it, where a fast one can rattle off the far jaw and out
+const pocketOf = (ball: Ball, table: TableGeometry) => {
+  const speed = Math.sqrt(ball.vx * ball.vx + ball.vy * ball.vy);
+  const reach = table.ballRadius * POCKET_DROP_REACH * Math.max(0, 1 - speed / POCKET_DROP_SPEED);
+  return table.pockets.findIndex(p => {
+    const dx = ball.x - p.x;
+    const dy = ball.y - p.y;
+    const depth = dx * p.axis.x + dy * p.axis.y;
+    const across = Math.abs(dy * p.axis.x - dx * p.axis.y);
+    return depth > -reach && across < p.radius + table.ballRadius;
+  });
+};
+
+// Nearest pocket, for a ball that somehow got off the bed without falling
+const nearestPocket = (ball: Ball, table: TableGeometry) => {
+  let nearest = 0;
+  table.pockets.forEach((p, i) => {
+    const q = table.pockets[nearest];
+    if ((p.x - ball.x) ** 2 + (p.y - ball.y) ** 2 < (q.x - ball.x) ** 2 + (q.y - ball.y) ** 2) nearest = i;
+  });
+  return nearest;
+};
+
+// Cushion contact on the side facing the inward normal (nx, ny): the ball bounces off the rail,
+// side spin grips the cushion nose and bends the rebound, and the roll into the rail is lost
+const bounceOffCushion = (b: Ball, nx: number, ny: number) => {
+  const tx = -ny; const ty = nx;
+  const vn = Math.abs(b.vx * nx + b.vy * ny);
+  const vt = b.vx * tx + b.vy * ty;
+  const square = vn / Math.max(1e-9, Math.sqrt(vn * vn + vt * vt)); // 1 head-on, towards 0 when glancing
+  const bounce = CUSHION_BOUNCE_SOFT - (CUSHION_BOUNCE_SOFT - CUSHION_BOUNCE_HARD) * Math.min(1, vn / CUSHION_HARD_SPEED);
+  const vnOut = vn * bounce * (1 - CUSHION_SQUARE_LOSS * square);
+
+  // Friction impulse, capped where the contact stops slipping (linear plus 5/2 for the spin of a solid ball)
+  const slip = vt - b.wz;
+  const j = Math.sign(slip) * Math.min(CUSHION_FRICTION * (vn + vnOut), Math.abs(slip) / 3.5);
+  const vtOut = vt - j;
+  b.wz += 2.5 * j;
+
+  b.vx = vnOut * nx + vtOut * tx; b.vy = vnOut * ny + vtOut * ty;
+  const wt = b.wx * tx + b.wy * ty;
+  b.wx = wt * tx; b.wy = wt * ty;
+};
+
+// Every cushion face a ball can touch: the rails and both jaws of each pocket
+const cushionCache = new WeakMap<TableGeometry, Cushion[]>();
+const cushionsOf = (table: TableGeometry) => {
+  let cushions = cushionCache.get(table);
+  if (!cushions) {
+    cushions = [...table.cushions, ...table.pockets.flatMap(p => p.jaws)];
+    cushionCache.set(table, cushions);
+  }
+  return cushions;
+};
+
+// Nearest point of the cushion nose to a ball touching it, with the unit normal from there to the ball's centre
+const touchCushion = (b: Ball, cushion: Cushion, r: number) => {
+  const { a } = cushion;
+  const ex = cushion.b.x - a.x; const ey = cushion.b.y - a.y;
+  const t = Math.max(0, Math.min(1, ((b.x - a.x) * ex + (b.y - a.y) * ey) / (ex * ex + ey * ey)));
+  const x = a.x + t * ex; const y = a.y + t * ey;
+  const dx = b.x - x; const dy = b.y - y;
+  const distSq = dx * dx + dy * dy;
+  if (distSq >= r * r || distSq === 0) return null;
+  const dist = Math.sqrt(distSq);
+  return { x, y, nx: dx / dist, ny: dy / dist };
+};
+
+// Advances the (already copied) balls by one frame; returns whether anything is still rolling
+const stepTable = (balls: Ball[], frame: number, result: ShotResult, table: TableGeometry): boolean => {
+  let moving = false;
+  const r = table.ballRadius;
+
+  for (let step = 0; step < SUB_STEPS; step++) {
+    balls.forEach(b => {
+      if (!b.active) return;
+
+      b.x += b.vx / SUB_STEPS; b.y += b.vy / SUB_STEPS;
+      if (b.id === 0 && result.firstHitId === null) result.cueReachX = Math.max(result.cueReachX, b.x);
+
+      // Sliding: cloth friction works on the slip between the ball's surface and the cloth,
+      // slowing the ball and turning its spin until it rolls (what is left is (5v + 2w) / 7)
+      const ux = b.vx - b.wx; const uy = b.vy - b.wy;
+      const slip = Math.sqrt(ux * ux + uy * uy);
+      const slide = SLIDE_FRICTION / SUB_STEPS;
+      if (slip > 3.5 * slide) {
+        const ax = ux / slip * slide; const ay = uy / slip * slide;
+        b.vx -= ax; b.vy -= ay;
+        b.wx += 2.5 * ax; b.wy += 2.5 * ay;
+        moving = true;
+      } else {
+        b.vx = b.wx = (5 * b.vx + 2 * b.wx) / 7;
+        b.vy = b.wy = (5 * b.vy + 2 * b.wy) / 7;
+        const speed = Math.sqrt(b.vx * b.vx + b.vy * b.vy);
+        if (speed > 0) {
+          const newSpeed = Math.max(0, speed - DECELERATION / SUB_STEPS);
+          if (newSpeed < STOP_THRESHOLD) { b.vx = b.wx = 0; b.vy = b.wy = 0; }
+          else { const scale = newSpeed / speed; b.vx *= scale; b.vy *= scale; b.wx = b.vx; b.wy = b.vy; moving = true; }
+        }
+      }
+      b.wz -= Math.sign(b.wz) * Math.min(Math.abs(b.wz), SIDE_SPIN_DECAY / SUB_STEPS);
+
+      // Rails and jaws all lie on or off the edge of the bed, so only a ball within a radius of it can touch one
+      if (b.x < r || b.x > table.width - r || b.y < r || b.y > table.height - r) {
+        let wallHit = false;
+        for (const cushion of cushionsOf(table)) {
+          const contact = touchCushion(b, cushion, r);
+          if (!contact) continue;
+          b.x = contact.x + contact.nx * r; b.y = contact.y + contact.ny * r;
+          if (b.vx * contact.nx + b.vy * contact.ny < 0) {
+            bounceOffCushion(b, contact.nx, contact.ny);
+            wallHit = true;
+          }
+        }
+        if (wallHit) {
+          result.events.push({ kind: 'RAIL', frame, id: b.id, speed: Math.sqrt(b.vx * b.vx + b.vy * b.vy) });
+        }
+      }
+
+      let pocket = pocketOf(b, table);
+      if (pocket === -1 && (b.x < -4 * r || b.x > table.width + 4 * r || b.y < -4 * r || b.y > table.height + 4 * r)) {
+        pocket = nearestPocket(b, table);
+      }
+      if (pocket !== -1) {
+        b.active = false; b.vx = 0; b.vy = 0; b.wx = 0; b.wy = 0; b.wz = 0;
+        result.potted.push(b.id);
+        result.events.push({ kind: 'POCKET', frame, id: b.id, pocket });
+      }
+    });
+
+    for (let i = 0; i < balls.length; i++) {
+      for (let j = i + 1; j < balls.length; j++) {
+        const b1 = balls[i]; const b2 = balls[j];
+        if (!b1.active || !b2.active) continue;
+
+        const dx = b2.x - b1.x; const dy = b2.y - b1.y;
+        const distSq = dx * dx + dy * dy;
+        if (distSq >= (r * 2) ** 2) continue;
+
+        const dist = Math.sqrt(distSq);
+        const nx = dx / dist; const ny = dy / dist;
+        const correction = ((r * 2) - dist) * 0.5;
+        b1.x -= nx * correction; b1.y -= ny * correction;
+        b2.x += nx * correction; b2.y += ny * correction;
+
+        const v1n = b1.vx * nx + b1.vy * ny; const v2n = b2.vx * nx + b2.vy * ny;
+        const tx = -ny; const ty = nx;
+        const v1t = b1.vx * tx + b1.vy * ty; const v2t = b2.vx * tx + b2.vy * ty;
+        const e = BALL_RESTITUTION;
+        const v1nNew = (v1n * (1 - e) + v2n * (1 + e)) / 2;
+        const v2nNew = (v1n * (1 + e) + v2n * (1 - e)) / 2;
+
+        // Throw: friction between the balls drags the object ball along the cut and side spin,
+        // capped where the contact points stop slipping (7 = 1 + 5/2 for each of the two balls)
+        const slip = v1t - v2t + b1.wz + b2.wz;
+        const jt = Math.sign(slip) * Math.min(BALL_FRICTION * Math.abs(v1nNew - v1n), Math.abs(slip) / 7);
+        const v1tNew = v1t - jt; const v2tNew = v2t + jt;
+        b1.wz -= 2.5 * jt; b2.wz -= 2.5 * jt;
+
+        b1.vx = v1nNew * nx + v1tNew * tx; b1.vy = v1nNew * ny + v1tNew * ty;
+        b2.vx = v2nNew * nx + v2tNew * tx; b2.vy = v2nNew * ny + v2tNew * ty;
+
+        result.events.push({ kind: 'HIT', frame, a: b1.id, b: b2.id, speed: Math.abs(v1n - v2n) });
+        if (result.firstHitId === null && (b1.id === 0 || b2.id === 0)) result.firstHitId = b1.id === 0 ? b2.id : b1.id;
+      }
+    }
+  }
+  return moving;
+};
+
+const snapshot = (balls: Ball[]): BallSnapshot[] => balls.map(b => ({ x: b.x, y: b.y, active: b.active }));
+
+// Strikes the cue ball and runs the table until every ball has stopped. The input is not modified.
+// Pass record = false when only the outcome matters (e.g. bots trying many shots) to skip the per-frame positions
+export const simulateShot = (balls: Ball[], shot: Shot, record = true, table: TableGeometry = POOL_TABLE): ShotResult => {
+  const onTable = cloneBalls(balls);
+  const cue = onTable.find(b => b.id === 0);
+  const result: ShotResult = { balls: onTable, frames: [], events: [], firstHitId: null, cueReachX: cue?.x ?? 0, potted: [] };
+
+  if (cue && cue.active) {
+    const power = Math.max(0, Math.min(shot.power, MAX_POWER));
+    const dirX = Math.cos(shot.angle); const dirY = Math.sin(shot.angle);
+    cue.vx = dirX * power;
+    cue.vy = dirY * power;
+
+    // Striking off centre by h radii spins the ball at 5/2 h times its speed; right english turns it anticlockwise
+    const roll = 2.5 * MAX_TIP_OFFSET * Math.max(-1, Math.min(1, shot.tipY || 0)) * power;
+    cue.wx = dirX * roll;
+    cue.wy = dirY * roll;
+    cue.wz = -2.5 * MAX_TIP_OFFSET * Math.max(-1, Math.min(1, shot.tipX || 0)) * power;
+  }
+
+  if (record) result.frames.push(snapshot(onTable));
+  for (let frame = 1; frame <= MAX_SHOT_FRAMES; frame++) {
+    const moving = stepTable(onTable, frame, result, table);
+    if (record) result.frames.push(snapshot(onTable));
+    if (!moving) break;
+  }
+
+  // Whatever still creeps after the safety stop is left where it is
+  onTable.forEach(b => { b.vx = 0; b.vy = 0; b.wx = 0; b.wy = 0; b.wz = 0; });
+  return result;
+};
@@ -0,0 +1,167 @@
+import { Ball, BilliardsMode, ShotResult, HEAD_SPOT } from './billiardsEngine';
+
+export type GroupType = 'SOLIDS' | 'STRIPES' | null;
+export type PlayerGroups = { 1: GroupType, 2: GroupType };
+export type Player = 1 | 2;
+
+// Everything about the rack the rules need besides the balls
+export interface RackState {
+  groups: PlayerGroups;
+  isBreak: boolean; // The next shot is the break
+  pushOutAvailable: boolean; // 9-ball: the first shot after the break may be played as a push-out
+  fouls: { 1: number, 2: number }; // Consecutive fouls of each player
+}
+
+// What the shooter declared before the shot
+export interface ShotCall {
+  calledPocket: number | null; // 8-ball: pocket nominated for the 8
+  pushOut: boolean;
+  kitchen: boolean; // Shot with ball in hand behind the head string
+}
+
+export interface ShotVerdict {
+  foul: string | null; // Reason shown to the players, null for a legal shot
+  ballInHand: boolean; // The incoming player places the cue ball
+  kitchen: boolean; // Ball in hand is limited to behind the head string (after a break scratch)
+  nextTurn: Player;
+  rack: RackState;
+  winner: Player | null; // Set when the shot decided the rack
+  winReason: string | null;
+  respot: number[]; // Balls to put back on the foot spot
+  rerack: boolean; // Illegal break: the balls are racked again and the opponent breaks
+  pushOut: boolean; // After a push-out the incoming player may hand the table back
+}
+
+export const MIN_BREAK_RAILS = 4;
+export const FOULS_TO_LOSE = 3;
+
+// Ball in hand after a break scratch stays behind the head string, which runs through the head spot
+export const HEAD_STRING_X = HEAD_SPOT.x;
+
+export const NO_CALL: ShotCall = { calledPocket: null, pushOut: false, kitchen: false };
+
+export const createRackState = (): RackState => ({
+  groups: { 1: null, 2: null }, isBreak: true, pushOutAvailable: false, fouls: { 1: 0, 2: 0 }
+});
+
+const other = (player: Player): Player => player === 1 ? 2 : 1;
+
+const groupOf = (id: number): GroupType => id < 8 ? 'SOLIDS' : id > 8 ? 'STRIPES' : null;
+
+// Balls the shooter may legally hit first with the given balls on the table. On an open table that is any
+// ball but the 8
+export const legalTargetIds = (mode: BilliardsMode, balls: Ball[], groups: PlayerGroups, turn: Player): number[] => {
+  const objects = balls.filter(b => b.active && b.id !== 0);
+  if (mode === '9BALL') {
+    const lowest = Math.min(...objects.map(b => b.id));
+    return objects.length > 0 ? [lowest] : [];
+  }
+  const group = groups[turn];
+  if (!group) {
+    const open = objects.filter(b => b.id !== 8).map(b => b.id);
+    return open.length > 0 ? open : [8];
+  }
+  const own = objects.filter(b => groupOf(b.id) === group).map(b => b.id);
+  return own.length > 0 ? own : objects.filter(b => b.id === 8).map(b => b.id);
+};
+
+// 8-ball: the shooter is on the 8 and has to nominate its pocket
+export const mustCallPocket = (mode: BilliardsMode, balls: Ball[], rack: RackState, turn: Player) =>
+  mode === '8BALL' && !rack.isBreak && !!rack.groups[turn] && legalTargetIds(mode, balls, rack.groups, turn).includes(8);
+
+// Fouls, turn change, group assignment and rack result of a finished shot. `before` is the table as it was struck
+export const judgeShot = (mode: BilliardsMode, turn: Player, rack: RackState, before: Ball[], result: ShotResult, call: ShotCall = NO_CALL): ShotVerdict => {
+  const { groups, isBreak } = rack;
+  const targets = legalTargetIds(mode, before, groups, turn);
+  const objectPotted = result.potted.filter(id => id !== 0);
+  const cuePotted = result.potted.includes(0);
+  const pushOut = call.pushOut && rack.pushOutAvailable;
+
+  let foul: string | null = null;
+  if (cuePotted) {
+    foul = '母球落袋';
+  } else if (pushOut) {
+    // A push-out may go anywhere without hitting anything
+  } else if (result.firstHitId === null) {
+    foul = '未击中任何球';
+  } else if (!targets.includes(result.firstHitId)) {
+    if (mode === '9BALL') foul = '未击中最小号码球';
+    else if (!groups[turn]) foul = '开放球局不能先碰黑8';
+    else foul = targets.includes(8) ? '必须击打黑8' : '未击中本方目标球';
+  } else if (call.kitchen && result.cueReachX <= HEAD_STRING_X && before.some(b => b.id === result.firstHitId && b.x <= HEAD_STRING_X)) {
+    // From the kitchen a ball behind the head string may only be hit after the cue ball has crossed it
+    foul = '开球线后的球须母球先越过开球线';
+  }
+
+  // A legal break pockets a ball or drives enough object balls to a rail
+  const railed = new Set(result.events.flatMap(e => e.kind === 'RAIL' && e.id !== 0 ? [e.id] : [])).size;
+  const illegalBreak = isBreak && objectPotted.length === 0 && railed < MIN_BREAK_RAILS;
+  if (illegalBreak && !foul) foul = `开球不合规 (少于${MIN_BREAK_RAILS}球碰库)`;
+
+  // The table stays open after the break and after fouls; the first ball of a legal shot after that decides the groups
+  let nextGroups = groups;
+  if (mode === '8BALL' && groups[1] === null && !isBreak && !foul) {
+    const first = objectPotted.find(id => id !== 8);
+    if (first !== undefined) {
+      const type = groupOf(first);
+      const otherType: GroupType = type === 'SOLIDS' ? 'STRIPES' : 'SOLIDS';
+      nextGroups = turn === 1 ? { 1: type, 2: otherType } : { 1: otherType, 2: type };
+    }
+  }
+
+  const fouls = { ...rack.fouls, [turn]: foul ? rack.fouls[turn] + 1 : 0 };
+  const verdict: ShotVerdict = {
+    foul, ballInHand: !!foul, kitchen: !!foul && isBreak && cuePotted, nextTurn: turn, winner: null, winReason: null, respot: [],
+    rerack: false, pushOut: false,
+    rack: { groups: nextGroups, isBreak: false, pushOutAvailable: mode === '9BALL' && isBreak, fouls }
+  };
+
+  if (illegalBreak) {
+    return { ...verdict, ballInHand: false, kitchen: false, nextTurn: other(turn), rerack: true, rack: { ...createRackState(), fouls } };
+  }
+
+  if (mode === '8BALL' && objectPotted.includes(8)) {
+    // An 8 on the break comes back up
+    if (isBreak) {
+      verdict.respot.push(8);
+    } else {
+      // Pocketing the 8 wins only legally, in the called pocket and after clearing the own group (checked up to the moment it dropped)
+      const eightAt = result.potted.indexOf(8);
+      const eightPocket = result.events.flatMap(e => e.kind === 'POCKET' && e.id === 8 ? [e.pocket] : [])[0];
+      const group = nextGroups[turn];
+      const clearedBefore = !!group && before.every(b =>
+        !b.active || groupOf(b.id) !== group || (result.potted.indexOf(b.id) !== -1 && result.potted.indexOf(b.id) < eightAt)
+      );
+      verdict.winner = !foul && clearedBefore && eightPocket === call.calledPocket ? turn : other(turn);
+      verdict.winReason = verdict.winner === turn ? null : !clearedBefore ? '提前打进黑8' : foul ? '打进黑8时犯规' : '黑8未进指定袋';
+      return verdict;
+    }
+  }
+
+  if (foul) {
+    verdict.nextTurn = other(turn);
+    // A 9 pocketed on a foul comes back up
+    if (mode === '9BALL' && objectPotted.includes(9)) verdict.respot = [9];
+    if (fouls[turn] >= FOULS_TO_LOSE) {
+      verdict.winner = other(turn);
+      verdict.winReason = `连续${FOULS_TO_LOSE}次犯规`;
+    }
+    return verdict;
+  }
+
+  if (pushOut) {
+    // Whatever drops stays down except the 9; the other player decides who shoots next
+    if (objectPotted.includes(9)) verdict.respot = [9];
+    verdict.nextTurn = other(turn);
+    verdict.pushOut = true;
+    verdict.rack.fouls = rack.fouls;
+    return verdict;
+  }
+
+  if (mode === '9BALL' && objectPotted.includes(9)) {
+    verdict.winner = turn;
+  } else if (objectPotted.length === 0) {
+    verdict.nextTurn = other(turn);
+  }
+  return verdict;
+};
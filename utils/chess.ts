@@ -0,0 +1,618 @@
+import { ChessPiece } from '../types';
+
+export type ChessColor = 'white' | 'black';
+export type ChessBoard = (ChessPiece | null)[][];
+export type PromotionType = 'Q' | 'R' | 'B' | 'N';
+export type ChessVariant = 'STANDARD' | 'CHESS960' | 'KING_OF_THE_HILL' | 'THREE_CHECK';
+
+export interface Square {
+  r: number;
+  c: number;
+}
+
+export interface CastlingRights {
+  whiteKingSide: boolean;
+  whiteQueenSide: boolean;
+  blackKingSide: boolean;
+  blackQueenSide: boolean;
+}
+
+// Home files of the castling rooks; the a- and h-file except in Chess960
+export type RookFiles = Record<ChessColor, { K: number, Q: number }>;
+
+export interface ChessMove {
+  from: Square;
+  to: Square; // For Chess960 castling this is the rook's square ("king takes rook")
+  promotion?: PromotionType;
+  castle?: 'K' | 'Q';
+  enPassant?: boolean;
+}
+
+export interface ChessPosition {
+  board: ChessBoard;
+  turn: ChessColor;
+  castling: CastlingRights;
+  enPassant: Square | null; // Square a pawn may capture onto en passant
+  halfmoveClock: number; // Plies since the last pawn move or capture
+  fullmoveNumber: number;
+  variant: ChessVariant;
+  rookFiles: RookFiles;
+  checksGiven: Record<ChessColor, number>; // Counted in Three-check only
+}
+
+// Names used for the PGN Variant tag and the match tags
+export const VARIANT_NAMES: Record<ChessVariant, string> = {
+  STANDARD: 'Standard',
+  CHESS960: 'Chess960',
+  KING_OF_THE_HILL: 'King of the Hill',
+  THREE_CHECK: 'Three-check'
+};
+
+// The centre squares d4, e4, d5 and e5
+const HILL = [{ r: 3, c: 3 }, { r: 3, c: 4 }, { r: 4, c: 3 }, { r: 4, c: 4 }];
+
+export const STANDARD_ROOK_FILES: RookFiles = { white: { K: 7, Q: 0 }, black: { K: 7, Q: 0 } };
+
+const LABELS: Record<ChessColor, Record<string, string>> = {
+  white: { K: '♔', Q: '♕', R: '♖', B: '♗', N: '♘', P: '♙' },
+  black: { K: '♚', Q: '♛', R: '♜', B: '♝', N: '♞', P: '♟' }
+};
+
+const DIRECTIONS: Record<string, number[][]> = {
+  R: [[0, 1], [0, -1], [1, 0], [-1, 0]],
+  B: [[1, 1], [1, -1], [-1, 1], [-1, -1]],
+  N: [[1, 2], [1, -2], [-1, 2], [-1, -2], [2, 1], [2, -1], [-2, 1], [-2, -1]],
+  Q: [[0, 1], [0, -1], [1, 0], [-1, 0], [1, 1], [1, -1], [-1, 1], [-1, -1]],
+  K: [[0, 1], [0, -1], [1, 0], [-1, 0], [1, 1], [1, -1], [-1, 1], [-1, -1]],
+};
+
+export const makePiece = (type: string, color: ChessColor): ChessPiece => ({ type, color, label: LABELS[color][type] });
+
+export const opponentOf = (color: ChessColor): ChessColor => color === 'white' ? 'black' : 'white';
+
+export const isValidPos = (r: number, c: number) => r >= 0 && r < 8 && c >= 0 && c < 8;
+
+// Chess960 back rank: bishops on opposite colours, king between the rooks, otherwise random
+export const randomChess960BackRank = (): string[] => {
+  const rank: (string | null)[] = Array(8).fill(null);
+  const free = () => rank.map((p, i) => p ? -1 : i).filter(i => i >= 0);
+  const pick = (files: number[]) => files[Math.floor(Math.random() * files.length)];
+
+  rank[pick([0, 2, 4, 6])] = 'B';
+  rank[pick([1, 3, 5, 7])] = 'B';
+  rank[pick(free())] = 'Q';
+  rank[pick(free())] = 'N';
+  rank[pick(free())] = 'N';
+  // The three files left get R, K, R from left to right
+  const [a, b, c] = free();
+  rank[a] = 'R';
+  rank[b] = 'K';
+  rank[c] = 'R';
+  return rank as string[];
+};
+
+export const createInitialBoard = (backRank = ['R', 'N', 'B', 'Q', 'K', 'B', 'N', 'R']): ChessBoard => {
+  const board: ChessBoard = Array(8).fill(null).map(() => Array(8).fill(null));
+  backRank.forEach((type, c) => {
+    board[0][c] = makePiece(type, 'black');
+    board[1][c] = makePiece('P', 'black');
+    board[6][c] = makePiece('P', 'white');
+    board[7][c] = makePiece(type, 'white');
+  });
+  return board;
+};
+
+export const createInitialPosition = (variant: ChessVariant = 'STANDARD'): ChessPosition => {
+  const backRank = variant === 'CHESS960' ? randomChess960BackRank() : undefined;
+  const board = createInitialBoard(backRank);
+  return {
+    board,
+    turn: 'white',
+    castling: { whiteKingSide: true, whiteQueenSide: true, blackKingSide: true, blackQueenSide: true },
+    enPassant: null,
+    halfmoveClock: 0,
+    fullmoveNumber: 1,
+    variant,
+    rookFiles: backRank ? findRookFiles(board) : STANDARD_ROOK_FILES,
+    checksGiven: { white: 0, black: 0 }
+  };
+};
+
+// Outermost rooks on either side of each king on its home rank
+export const findRookFiles = (board: ChessBoard): RookFiles => {
+  const files = (color: ChessColor) => {
+    const row = color === 'white' ? 7 : 0;
+    const king = board[row].findIndex(p => p?.type === 'K' && p.color === color);
+    const isRook = (c: number) => board[row][c]?.type === 'R' && board[row][c]?.color === color;
+    if (king < 0) return { ...STANDARD_ROOK_FILES[color] };
+    let K = 7;
+    while (K > king && !isRook(K)) K--;
+    let Q = 0;
+    while (Q < king && !isRook(Q)) Q++;
+    return { K: K > king ? K : 7, Q: Q < king ? Q : 0 };
+  };
+  return { white: files('white'), black: files('black') };
+};
+
+export const findKing = (board: ChessBoard, color: ChessColor): Square | null => {
+  for (let r = 0; r < 8; r++) {
+    for (let c = 0; c < 8; c++) {
+      const p = board[r][c];
+      if (p && p.type === 'K' && p.color === color) return { r, c };
+    }
+  }
+  return null;
+};
+
+// Whether a square is attacked by any piece of the given color
+export const isSquareAttacked = (board: ChessBoard, r: number, c: number, by: ChessColor): boolean => {
+  // Pawns attack diagonally forward, so look one rank "behind" the target from their side
+  const pawnRow = by === 'white' ? r + 1 : r - 1;
+  for (const dc of [-1, 1]) {
+    if (isValidPos(pawnRow, c + dc)) {
+      const p = board[pawnRow][c + dc];
+      if (p && p.color === by && p.type === 'P') return true;
+    }
+  }
+
+  for (const [dr, dc] of DIRECTIONS.N) {
+    const nr = r + dr, nc = c + dc;
+    if (isValidPos(nr, nc)) {
+      const p = board[nr][nc];
+      if (p && p.color === by && p.type === 'N') return true;
+    }
+  }
+
+  for (const [dr, dc] of DIRECTIONS.K) {
+    const nr = r + dr, nc = c + dc;
+    if (isValidPos(nr, nc)) {
+      const p = board[nr][nc];
+      if (p && p.color === by && p.type === 'K') return true;
+    }
+  }
+
+  const sliders: [number[][], string[]][] = [[DIRECTIONS.R, ['R', 'Q']], [DIRECTIONS.B, ['B', 'Q']]];
+  for (const [dirs, types] of sliders) {
+    for (const [dr, dc] of dirs) {
+      let nr = r + dr, nc = c + dc;
+      while (isValidPos(nr, nc)) {
+        const p = board[nr][nc];
+        if (p) {
+          if (p.color === by && types.includes(p.type)) return true;
+          break;
+        }
+        nr += dr;
+        nc += dc;
+      }
+    }
+  }
+  return false;
+};
+
+export const isInCheck = (board: ChessBoard, color: ChessColor): boolean => {
+  const king = findKing(board, color);
+  return king ? isSquareAttacked(board, king.r, king.c, opponentOf(color)) : false;
+};
+
+// Moves obeying piece movement only; may leave the own king in check
+const getPseudoLegalMoves = (pos: ChessPosition, r: number, c: number): ChessMove[] => {
+  const { board } = pos;
+  const piece = board[r][c];
+  if (!piece) return [];
+  const color = piece.color as ChessColor;
+  const moves: ChessMove[] = [];
+  const from = { r, c };
+
+  if (piece.type === 'P') {
+    const direction = color === 'white' ? -1 : 1;
+    const startRow = color === 'white' ? 6 : 1;
+    const lastRow = color === 'white' ? 0 : 7;
+    const push = (to: Square) => {
+      if (to.r === lastRow) {
+        (['Q', 'R', 'B', 'N'] as PromotionType[]).forEach(promotion => moves.push({ from, to, promotion }));
+      } else {
+        moves.push({ from, to });
+      }
+    };
+
+    // Forward 1 / Forward 2
+    if (isValidPos(r + direction, c) && !board[r + direction][c]) {
+      push({ r: r + direction, c });
+      if (r === startRow && !board[r + direction * 2][c]) {
+        moves.push({ from, to: { r: r + direction * 2, c } });
+      }
+    }
+    // Captures (including en passant)
+    [-1, 1].forEach(offset => {
+      const nr = r + direction, nc = c + offset;
+      if (!isValidPos(nr, nc)) return;
+      const target = board[nr][nc];
+      if (target && target.color !== color) {
+        push({ r: nr, c: nc });
+      } else if (!target && pos.enPassant && pos.enPassant.r === nr && pos.enPassant.c === nc) {
+        moves.push({ from, to: { r: nr, c: nc }, enPassant: true });
+      }
+    });
+    return moves;
+  }
+
+  const isSliding = ['R', 'B', 'Q'].includes(piece.type);
+  DIRECTIONS[piece.type].forEach(([dr, dc]) => {
+    let nr = r + dr;
+    let nc = c + dc;
+    while (isValidPos(nr, nc)) {
+      const target = board[nr][nc];
+      if (!target || target.color !== color) {
+        moves.push({ from, to: { r: nr, c: nc } });
+      }
+      if (target || !isSliding) break;
+      nr += dr;
+      nc += dc;
+    }
+  });
+
+  // Castling: king and rook unmoved, squares between empty, king not passing through check.
+  // The king always ends on the g/c-file and the rook on the f/d-file, wherever they started (Chess960)
+  if (piece.type === 'K') {
+    const homeRow = color === 'white' ? 7 : 0;
+    const enemy = opponentOf(color);
+    const rights = color === 'white'
+      ? { K: pos.castling.whiteKingSide, Q: pos.castling.whiteQueenSide }
+      : { K: pos.castling.blackKingSide, Q: pos.castling.blackQueenSide };
+    const is960 = pos.variant === 'CHESS960';
+
+    if (r === homeRow && (is960 || c === 4) && !isSquareAttacked(board, r, c, enemy)) {
+      (['K', 'Q'] as const).forEach(side => {
+        const rookFile = pos.rookFiles[color][side];
+        const rook = board[homeRow][rookFile];
+        if (!rights[side] || rook?.type !== 'R' || rook.color !== color) return;
+        if (!is960 && rookFile !== STANDARD_ROOK_FILES[color][side]) return;
+
+        const kingTo = side === 'K' ? 6 : 2;
+        const rookTo = side === 'K' ? 5 : 3;
+        const lo = Math.min(c, kingTo, rookFile, rookTo);
+        const hi = Math.max(c, kingTo, rookFile, rookTo);
+        for (let f = lo; f <= hi; f++) {
+          if (f !== c && f !== rookFile && board[homeRow][f]) return;
+        }
+        for (let f = Math.min(c, kingTo); f <= Math.max(c, kingTo); f++) {
+          if (f !== c && isSquareAttacked(board, homeRow, f, enemy)) return;
+        }
+        moves.push({ from, to: { r: homeRow, c: is960 ? rookFile : kingTo }, castle: side });
+      });
+    }
+  }
+
+  return moves;
+};
+
+export const applyMove = (pos: ChessPosition, move: ChessMove): ChessPosition => {
+  const board = pos.board.map(row => [...row]);
+  const piece = board[move.from.r][move.from.c]!;
+  const color = piece.color as ChessColor;
+  const castling = { ...pos.castling };
+  const isCapture = (!!board[move.to.r][move.to.c] && !move.castle) || !!move.enPassant;
+
+  if (move.castle) {
+    // Lift both pieces first: in Chess960 either may land on the other's square
+    const row = move.from.r;
+    const rookFrom = pos.rookFiles[color][move.castle];
+    const rook = board[row][rookFrom];
+    board[row][move.from.c] = null;
+    board[row][rookFrom] = null;
+    board[row][move.castle === 'K' ? 6 : 2] = piece;
+    board[row][move.castle === 'K' ? 5 : 3] = rook;
+  } else {
+    board[move.to.r][move.to.c] = move.promotion ? makePiece(move.promotion, color) : piece;
+    board[move.from.r][move.from.c] = null;
+  }
+
+  if (move.enPassant) {
+    board[move.from.r][move.to.c] = null;
+  }
+
+  // Update castling rights when kings or rooks move, or rooks are captured on their home squares
+  if (piece.type === 'K') {
+    if (color === 'white') { castling.whiteKingSide = false; castling.whiteQueenSide = false; }
+    else { castling.blackKingSide = false; castling.blackQueenSide = false; }
+  }
+  const { white: wr, black: br } = pos.rookFiles;
+  [move.from, move.to].forEach(({ r, c }) => {
+    if (r === 7 && c === wr.K) castling.whiteKingSide = false;
+    if (r === 7 && c === wr.Q) castling.whiteQueenSide = false;
+    if (r === 0 && c === br.K) castling.blackKingSide = false;
+    if (r === 0 && c === br.Q) castling.blackQueenSide = false;
+  });
+
+  const isDoublePush = piece.type === 'P' && Math.abs(move.to.r - move.from.r) === 2;
+  const checksGiven = pos.variant === 'THREE_CHECK' && isInCheck(board, opponentOf(color))
+    ? { ...pos.checksGiven, [color]: pos.checksGiven[color] + 1 }
+    : pos.checksGiven;
+
+  return {
+    board,
+    turn: opponentOf(color),
+    castling,
+    enPassant: isDoublePush ? { r: (move.from.r + move.to.r) / 2, c: move.from.c } : null,
+    halfmoveClock: piece.type === 'P' || isCapture ? 0 : pos.halfmoveClock + 1,
+    fullmoveNumber: color === 'black' ? pos.fullmoveNumber + 1 : pos.fullmoveNumber,
+    variant: pos.variant,
+    rookFiles: pos.rookFiles,
+    checksGiven
+  };
+};
+
+// Fully legal moves for the piece on (r, c): pseudo-legal moves that do not leave the own king in check
+export const getLegalMoves = (pos: ChessPosition, r: number, c: number): ChessMove[] => {
+  const piece = pos.board[r][c];
+  if (!piece) return [];
+  return getPseudoLegalMoves(pos, r, c).filter(move => !isInCheck(applyMove(pos, move).board, piece.color as ChessColor));
+};
+
+export const getAllLegalMoves = (pos: ChessPosition): ChessMove[] => {
+  const moves: ChessMove[] = [];
+  for (let r = 0; r < 8; r++) {
+    for (let c = 0; c < 8; c++) {
+      if (pos.board[r][c]?.color === pos.turn) moves.push(...getLegalMoves(pos, r, c));
+    }
+  }
+  return moves;
+};
+
+// Variant rule the side to move has already lost by: the enemy king reached the centre, or gave the third check
+export const getVariantLoss = (pos: ChessPosition): 'KING_OF_THE_HILL' | 'THREE_CHECK' | null => {
+  const enemy = opponentOf(pos.turn);
+  if (pos.variant === 'KING_OF_THE_HILL') {
+    const king = findKing(pos.board, enemy);
+    if (king && HILL.some(sq => sq.r === king.r && sq.c === king.c)) return 'KING_OF_THE_HILL';
+  }
+  if (pos.variant === 'THREE_CHECK' && pos.checksGiven[enemy] >= 3) return 'THREE_CHECK';
+  return null;
+};
+
+// Outcome for the side to move: lost by a variant rule, checkmate, stalemate or still playing
+export const getGameStatus = (pos: ChessPosition): 'PLAYING' | 'CHECKMATE' | 'STALEMATE' | 'KING_OF_THE_HILL' | 'THREE_CHECK' => {
+  const variantLoss = getVariantLoss(pos);
+  if (variantLoss) return variantLoss;
+  if (getAllLegalMoves(pos).length > 0) return 'PLAYING';
+  return isInCheck(pos.board, pos.turn) ? 'CHECKMATE' : 'STALEMATE';
+};
+
+const squareName = (sq: Square) => `${String.fromCharCode(97 + sq.c)}${8 - sq.r}`;
+
+// Standard Algebraic Notation for a legal move in the given position, e.g. Nf3, exd5, O-O, e8=Q+
+export const moveToSan = (pos: ChessPosition, move: ChessMove): string => {
+  const piece = pos.board[move.from.r][move.from.c];
+  if (!piece) return '';
+
+  let san: string;
+  if (move.castle) {
+    san = move.castle === 'K' ? 'O-O' : 'O-O-O';
+  } else {
+    const isCapture = !!pos.board[move.to.r][move.to.c] || !!move.enPassant;
+    if (piece.type === 'P') {
+      san = (isCapture ? `${String.fromCharCode(97 + move.from.c)}x` : '') + squareName(move.to);
+      if (move.promotion) san += `=${move.promotion}`;
+    } else {
+      // Disambiguate when another piece of the same type can reach the same square
+      const rivals = getAllLegalMoves(pos).filter(m =>
+        m.to.r === move.to.r && m.to.c === move.to.c &&
+        (m.from.r !== move.from.r || m.from.c !== move.from.c) &&
+        pos.board[m.from.r][m.from.c]?.type === piece.type
+      );
+      let disambiguation = '';
+      if (rivals.length > 0) {
+        const sameFile = rivals.some(m => m.from.c === move.from.c);
+        const sameRank = rivals.some(m => m.from.r === move.from.r);
+        if (!sameFile) disambiguation = squareName(move.from)[0];
+        else if (!sameRank) disambiguation = squareName(move.from)[1];
+        else disambiguation = squareName(move.from);
+      }
+      san = piece.type + disambiguation + (isCapture ? 'x' : '') + squareName(move.to);
+    }
+  }
+
+  const next = applyMove(pos, move);
+  const status = getGameStatus(next);
+  if (status === 'CHECKMATE') san += '#';
+  else if (isInCheck(next.board, next.turn)) san += '+';
+  return san;
+};
+
+const normalizeSan = (san: string) => san.replace(/[+#!?]/g, '').replace(/0/g, 'O');
+
+// Finds the legal move matching a SAN token, or null if it is illegal in this position
+export const moveFromSan = (pos: ChessPosition, san: string): ChessMove | null => {
+  const target = normalizeSan(san);
+  return getAllLegalMoves(pos).find(m => normalizeSan(moveToSan(pos, m)) === target) || null;
+};
+
+const FEN_PIECES = 'KQRBNP';
+
+export const positionToFen = (pos: ChessPosition): string => {
+  const rows = pos.board.map(row => {
+    let out = '';
+    let empty = 0;
+    row.forEach(p => {
+      if (!p) {
+        empty++;
+        return;
+      }
+      if (empty) out += empty;
+      empty = 0;
+      out += p.color === 'white' ? p.type : p.type.toLowerCase();
+    });
+    return empty ? out + empty : out;
+  });
+
+  // Chess960 names the rook files instead (Shredder-FEN), e.g. "HBhb"
+  const { castling, rookFiles } = pos;
+  const is960 = pos.variant === 'CHESS960';
+  const flag = (has: boolean, letter: string, file: number) =>
+    has ? (is960 ? String.fromCharCode((letter === letter.toUpperCase() ? 65 : 97) + file) : letter) : '';
+  const rights = flag(castling.whiteKingSide, 'K', rookFiles.white.K) + flag(castling.whiteQueenSide, 'Q', rookFiles.white.Q)
+    + flag(castling.blackKingSide, 'k', rookFiles.black.K) + flag(castling.blackQueenSide, 'q', rookFiles.black.Q);
+
+  const fields: (string | number)[] = [
+    rows.join('/'),
+    pos.turn === 'white' ? 'w' : 'b',
+    rights || '-',
+    pos.enPassant ? squareName(pos.enPassant) : '-',
+    pos.halfmoveClock,
+    pos.fullmoveNumber
+  ];
+  // Three-check appends the checks each side has given, e.g. "+1+0"
+  if (pos.variant === 'THREE_CHECK') fields.push(`+${pos.checksGiven.white}+${pos.checksGiven.black}`);
+  return fields.join(' ');
+};
+
+// Parses a FEN string; throws with a readable message when it is malformed.
+// Castling may be given as KQkq or as rook files (Shredder-FEN), as Chess960 needs
+export const parseFen = (fen: string, variant: ChessVariant = 'STANDARD'): ChessPosition => {
+  const fields = fen.trim().split(/\s+/);
+  if (fields.length < 2) throw new Error('FEN 格式错误: 缺少走子方');
+
+  const rows = fields[0].split('/');
+  if (rows.length !== 8) throw new Error('FEN 格式错误: 需要 8 行');
+
+  const board: ChessBoard = rows.map((row, r) => {
+    const out: (ChessPiece | null)[] = [];
+    for (const ch of row) {
+      if (/[1-8]/.test(ch)) {
+        for (let i = 0; i < parseInt(ch, 10); i++) out.push(null);
+      } else if (FEN_PIECES.includes(ch.toUpperCase())) {
+        out.push(makePiece(ch.toUpperCase(), ch === ch.toUpperCase() ? 'white' : 'black'));
+      } else {
+        throw new Error(`FEN 格式错误: 无效字符 "${ch}"`);
+      }
+    }
+    if (out.length !== 8) throw new Error(`FEN 格式错误: 第 ${8 - r} 行不是 8 格`);
+    return out;
+  });
+
+  if (fields[1] !== 'w' && fields[1] !== 'b') throw new Error('FEN 格式错误: 走子方必须是 w 或 b');
+
+  const rights = fields[2] || '-';
+  if (!/^(-|[KQkqA-Ha-h]+)$/.test(rights)) throw new Error('FEN 格式错误: 易位权无效');
+  const ep = fields[3] && fields[3] !== '-' ? fields[3] : null;
+  if (ep && !/^[a-h][36]$/.test(ep)) throw new Error('FEN 格式错误: 吃过路兵格无效');
+
+  const castling = {
+    whiteKingSide: rights.includes('K'),
+    whiteQueenSide: rights.includes('Q'),
+    blackKingSide: rights.includes('k'),
+    blackQueenSide: rights.includes('q')
+  };
+  const rookFiles = findRookFiles(board);
+  // A file letter names the rook; it is king side when it lies right of the king
+  for (const ch of rights.replace(/[KQkq-]/g, '')) {
+    const color: ChessColor = ch === ch.toUpperCase() ? 'white' : 'black';
+    const file = ch.toLowerCase().charCodeAt(0) - 97;
+    const king = findKing(board, color);
+    const side = king && file > king.c ? 'K' : 'Q';
+    rookFiles[color][side] = file;
+    if (color === 'white') castling[side === 'K' ? 'whiteKingSide' : 'whiteQueenSide'] = true;
+    else castling[side === 'K' ? 'blackKingSide' : 'blackQueenSide'] = true;
+  }
+
+  const checks = (fields[6] || '').match(/^\+(\d)\+(\d)$/);
+
+  return {
+    board,
+    turn: fields[1] === 'w' ? 'white' : 'black',
+    castling,
+    enPassant: ep ? { r: 8 - parseInt(ep[1], 10), c: ep.charCodeAt(0) - 97 } : null,
+    halfmoveClock: parseInt(fields[4] || '0', 10) || 0,
+    fullmoveNumber: parseInt(fields[5] || '1', 10) || 1,
+    variant,
+    rookFiles,
+    checksGiven: checks ? { white: parseInt(checks[1], 10), black: parseInt(checks[2], 10) } : { white: 0, black: 0 }
+  };
+};
+
+// Castling rights the placement allows: the king on e1/e8 and the rook on the a/h-file, or in Chess960 the king
+// anywhere on its back rank with the outermost rook on that side of it (the rooks findRookFiles picks)
+export const deriveCastlingRights = (board: ChessBoard, variant: ChessVariant = 'STANDARD'): CastlingRights => {
+  const rookFiles = variant === 'CHESS960' ? findRookFiles(board) : STANDARD_ROOK_FILES;
+  const can = (color: ChessColor, side: 'K' | 'Q') => {
+    const row = color === 'white' ? 7 : 0;
+    const king = board[row].findIndex(p => p?.type === 'K' && p.color === color);
+    const file = rookFiles[color][side];
+    const rook = board[row][file];
+    if (king < 0 || (variant !== 'CHESS960' && king !== 4)) return false;
+    return rook?.type === 'R' && rook.color === color && (side === 'K' ? file > king : file < king);
+  };
+  return {
+    whiteKingSide: can('white', 'K'),
+    whiteQueenSide: can('white', 'Q'),
+    blackKingSide: can('black', 'K'),
+    blackQueenSide: can('black', 'Q')
+  };
+};
+
+// Returns a reason why the position cannot be played from, or null when it is playable
+export const validatePosition = (pos: ChessPosition): string | null => {
+  const count = (type: string, color: ChessColor) =>
+    pos.board.flat().filter(p => p?.type === type && p.color === color).length;
+
+  if (count('K', 'white') !== 1 || count('K', 'black') !== 1) return '双方必须各有且仅有一个王';
+  if ([0, 7].some(r => pos.board[r].some(p => p?.type === 'P'))) return '兵不能位于第一或第八横排';
+  const allowed = deriveCastlingRights(pos.board, pos.variant);
+  if ((Object.keys(pos.castling) as (keyof CastlingRights)[]).some(right => pos.castling[right] && !allowed[right])) {
+    return '王或车不在原位, 不能保留对应的易位权';
+  }
+  if (isInCheck(pos.board, opponentOf(pos.turn))) return '非走子方的王正被将军';
+  if (getGameStatus(pos) !== 'PLAYING') return '该局面已经是将杀或逼和';
+  return null;
+};
+
+// Identity of a position for repetition: placement, side to move, castling rights and en-passant square
+// (plus the checks given in Three-check). The en-passant square only counts when the capture is actually legal,
+// so the position after a double push still repeats the same position reached without one
+export const positionKey = (pos: ChessPosition) => {
+  const fields = positionToFen(pos).split(' ');
+  if (pos.enPassant && !getAllLegalMoves(pos).some(m => m.enPassant)) fields[3] = '-';
+  return [...fields.slice(0, 4), ...fields.slice(6)].join(' ');
+};
+
+// Pieces other than kings left for one side
+const materialOf = (board: ChessBoard, color: ChessColor) => {
+  const pieces: { type: string, squareColor: number }[] = [];
+  board.forEach((row, r) => row.forEach((p, c) => {
+    if (p && p.color === color && p.type !== 'K') pieces.push({ type: p.type, squareColor: (r + c) % 2 });
+  }));
+  return pieces;
+};
+
+// Variants decided by checkmate alone; in the others even a lone king may still win
+export const isMateOnlyVariant = (variant: ChessVariant) => variant === 'STANDARD' || variant === 'CHESS960';
+
+// A lone king, or a king with a single minor piece, can never deliver mate
+export const canStillMate = (board: ChessBoard, color: ChessColor): boolean => {
+  const pieces = materialOf(board, color);
+  return !(pieces.length === 0 || (pieces.length === 1 && ['B', 'N'].includes(pieces[0].type)));
+};
+
+// K v K, K+minor v K, and K+B v K+B with bishops on the same square colour
+export const isInsufficientMaterial = (board: ChessBoard): boolean => {
+  const white = materialOf(board, 'white');
+  const black = materialOf(board, 'black');
+  if (!canStillMate(board, 'white') && !canStillMate(board, 'black')) {
+    if (white.length === 1 && black.length === 1 && white[0].type === 'B' && black[0].type === 'B') {
+      return white[0].squareColor === black[0].squareColor;
+    }
+    return white.length + black.length <= 1;
+  }
+  return false;
+};
+
+export type DrawReason = 'THREEFOLD' | 'FIFTY_MOVES' | 'INSUFFICIENT_MATERIAL';
+
+// Automatic draw for the position, given the keys of all earlier positions in the game
+export const getDrawReason = (pos: ChessPosition, previousKeys: string[]): DrawReason | null => {
+  if (isMateOnlyVariant(pos.variant) && isInsufficientMaterial(pos.board)) return 'INSUFFICIENT_MATERIAL';
+  if (pos.halfmoveClock >= 100) return 'FIFTY_MOVES';
+  const key = positionKey(pos);
+  if (previousKeys.filter(k => k === key).length >= 2) return 'THREEFOLD';
+  return null;
+};
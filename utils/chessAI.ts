@@ -0,0 +1,192 @@
+import { ChessPosition, ChessMove, ChessBoard, getAllLegalMoves, applyMove, isInCheck, getVariantLoss } from './chess';
+
+export interface ChessBotLevel {
+  id: string;
+  name: string;
+  depth: number;
+  noise: number; // Random centipawn noise added to root scores, makes weaker bots blunder
+  pointsMultiplier: number;
+}
+
+export const CHESS_BOT_LEVELS: ChessBotLevel[] = [
+  { id: 'novice', name: '入门', depth: 1, noise: 300, pointsMultiplier: 0.5 },
+  { id: 'easy', name: '简单', depth: 2, noise: 120, pointsMultiplier: 1 },
+  { id: 'medium', name: '中等', depth: 3, noise: 30, pointsMultiplier: 1.5 },
+  { id: 'hard', name: '困难', depth: 4, noise: 0, pointsMultiplier: 2 }
+];
+
+export interface ChessSearchRequest {
+  id: number;
+  position: ChessPosition;
+  depth: number;
+  noise: number;
+}
+
+export interface ChessSearchResponse {
+  id: number;
+  move: ChessMove | null;
+  score: number;
+}
+
+const MATE_SCORE = 100000;
+
+const PIECE_VALUES: Record<string, number> = { P: 100, N: 320, B: 330, R: 500, Q: 900, K: 0 };
+
+// Piece-square tables from white's point of view (row 0 = rank 8)
+const PST: Record<string, number[][]> = {
+  P: [
+    [0, 0, 0, 0, 0, 0, 0, 0],
+    [50, 50, 50, 50, 50, 50, 50, 50],
+    [10, 10, 20, 30, 30, 20, 10, 10],
+    [5, 5, 10, 25, 25, 10, 5, 5],
+    [0, 0, 0, 20, 20, 0, 0, 0],
+    [5, -5, -10, 0, 0, -10, -5, 5],
+    [5, 10, 10, -20, -20, 10, 10, 5],
+    [0, 0, 0, 0, 0, 0, 0, 0]
+  ],
+  N: [
+    [-50, -40, -30, -30, -30, -30, -40, -50],
+    [-40, -20, 0, 0, 0, 0, -20, -40],
+    [-30, 0, 10, 15, 15, 10, 0, -30],
+    [-30, 5, 15, 20, 20, 15, 5, -30],
+    [-30, 0, 15, 20, 20, 15, 0, -30],
+    [-30, 5, 10, 15, 15, 10, 5, -30],
+    [-40, -20, 0, 5, 5, 0, -20, -40],
+    [-50, -40, -30, -30, -30, -30, -40, -50]
+  ],
+  B: [
+    [-20, -10, -10, -10, -10, -10, -10, -20],
+    [-10, 0, 0, 0, 0, 0, 0, -10],
+    [-10, 0, 5, 10, 10, 5, 0, -10],
+    [-10, 5, 5, 10, 10, 5, 5, -10],
+    [-10, 0, 10, 10, 10, 10, 0, -10],
+    [-10, 10, 10, 10, 10, 10, 10, -10],
+    [-10, 5, 0, 0, 0, 0, 5, -10],
+    [-20, -10, -10, -10, -10, -10, -10, -20]
+  ],
+  R: [
+    [0, 0, 0, 0, 0, 0, 0, 0],
+    [5, 10, 10, 10, 10, 10, 10, 5],
+    [-5, 0, 0, 0, 0, 0, 0, -5],
+    [-5, 0, 0, 0, 0, 0, 0, -5],
+    [-5, 0, 0, 0, 0, 0, 0, -5],
+    [-5, 0, 0, 0, 0, 0, 0, -5],
+    [-5, 0, 0, 0, 0, 0, 0, -5],
+    [0, 0, 0, 5, 5, 0, 0, 0]
+  ],
+  Q: [
+    [-20, -10, -10, -5, -5, -10, -10, -20],
+    [-10, 0, 0, 0, 0, 0, 0, -10],
+    [-10, 0, 5, 5, 5, 5, 0, -10],
+    [-5, 0, 5, 5, 5, 5, 0, -5],
+    [0, 0, 5, 5, 5, 5, 0, -5],
+    [-10, 5, 5, 5, 5, 5, 0, -10],
+    [-10, 0, 5, 0, 0, 0, 0, -10],
+    [-20, -10, -10, -5, -5, -10, -10, -20]
+  ],
+  K: [
+    [-30, -40, -40, -50, -50, -40, -40, -30],
+    [-30, -40, -40, -50, -50, -40, -40, -30],
+    [-30, -40, -40, -50, -50, -40, -40, -30],
+    [-30, -40, -40, -50, -50, -40, -40, -30],
+    [-20, -30, -30, -40, -40, -30, -30, -20],
+    [-10, -20, -20, -20, -20, -20, -20, -10],
+    [20, 20, 0, 0, 0, 0, 20, 20],
+    [20, 30, 10, 0, 0, 10, 30, 20]
+  ]
+};
+
+// Static evaluation in centipawns, positive = good for white
+export const evaluateBoard = (board: ChessBoard): number => {
+  let score = 0;
+  for (let r = 0; r < 8; r++) {
+    for (let c = 0; c < 8; c++) {
+      const p = board[r][c];
+      if (!p) continue;
+      const value = PIECE_VALUES[p.type] + (p.color === 'white' ? PST[p.type][r][c] : PST[p.type][7 - r][c]);
+      score += p.color === 'white' ? value : -value;
+    }
+  }
+  return score;
+};
+
+const captureValue = (pos: ChessPosition, move: ChessMove) => {
+  const victim = move.enPassant ? pos.board[move.from.r][move.to.c] : pos.board[move.to.r][move.to.c];
+  const attacker = pos.board[move.from.r][move.from.c];
+  const promo = move.promotion ? PIECE_VALUES[move.promotion] : 0;
+  if (!victim) return promo;
+  // MVV-LVA: most valuable victim first, least valuable attacker breaks ties
+  return PIECE_VALUES[victim.type] * 10 - (attacker ? PIECE_VALUES[attacker.type] : 0) / 10 + promo;
+};
+
+const orderMoves = (pos: ChessPosition, moves: ChessMove[]) =>
+  moves
+    .map(move => ({ move, key: captureValue(pos, move) }))
+    .sort((a, b) => b.key - a.key)
+    .map(m => m.move);
+
+const sideScore = (pos: ChessPosition) => pos.turn === 'white' ? evaluateBoard(pos.board) : -evaluateBoard(pos.board);
+
+// Capture-only search at the horizon so the bot does not stop in the middle of an exchange
+const quiesce = (pos: ChessPosition, alpha: number, beta: number, depth: number, ply: number): number => {
+  if (getVariantLoss(pos)) return -MATE_SCORE + ply;
+  const moves = getAllLegalMoves(pos);
+  if (moves.length === 0) {
+    return isInCheck(pos.board, pos.turn) ? -MATE_SCORE + ply : 0;
+  }
+
+  const standPat = sideScore(pos);
+  if (standPat >= beta) return beta;
+  if (alpha < standPat) alpha = standPat;
+  if (depth <= 0) return alpha;
+
+  const captures = orderMoves(pos, moves.filter(m =>
+    m.promotion || m.enPassant || pos.board[m.to.r][m.to.c]
+  ));
+  for (const move of captures) {
+    const score = -quiesce(applyMove(pos, move), -beta, -alpha, depth - 1, ply + 1);
+    if (score >= beta) return beta;
+    if (score > alpha) alpha = score;
+  }
+  return alpha;
+};
+
+// Negamax alpha-beta; scores are from the side to move's perspective
+const negamax = (pos: ChessPosition, depth: number, alpha: number, beta: number, ply: number): number => {
+  if (depth === 0) return quiesce(pos, alpha, beta, 2, ply);
+  if (getVariantLoss(pos)) return -MATE_SCORE + ply;
+
+  const moves = getAllLegalMoves(pos);
+  if (moves.length === 0) {
+    return isInCheck(pos.board, pos.turn) ? -MATE_SCORE + ply : 0;
+  }
+
+  let best = -Infinity;
+  for (const move of orderMoves(pos, moves)) {
+    const score = -negamax(applyMove(pos, move), depth - 1, -beta, -alpha, ply + 1);
+    if (score > best) best = score;
+    if (score > alpha) alpha = score;
+    if (alpha >= beta) break;
+  }
+  return best;
+};
+
+export const searchBestMove = (pos: ChessPosition, depth: number, noise = 0): { move: ChessMove | null, score: number } => {
+  const moves = orderMoves(pos, getAllLegalMoves(pos));
+  let bestMove: ChessMove | null = null;
+  let bestScore = -Infinity;
+  let alpha = -Infinity;
+
+  for (const move of moves) {
+    // Full window when adding noise so every root move gets a comparable score
+    const window = noise > 0 ? -Infinity : alpha;
+    let score = -negamax(applyMove(pos, move), depth - 1, -Infinity, -window, 1);
+    if (noise > 0) score += (Math.random() * 2 - 1) * noise;
+    if (score > bestScore) {
+      bestScore = score;
+      bestMove = move;
+    }
+    if (score > alpha) alpha = score;
+  }
+  return { move: bestMove, score: bestScore };
+};
@@ -0,0 +1,11 @@
+import { searchBestMove, ChessSearchRequest, ChessSearchResponse } from './chessAI';
+
+// Runs the chess search off the main thread so the board stays responsive while the bot thinks
+const ctx = self as unknown as Worker;
+
+ctx.onmessage = (e: MessageEvent<ChessSearchRequest>) => {
+  const { id, position, depth, noise } = e.data;
+  const { move, score } = searchBestMove(position, depth, noise);
+  const response: ChessSearchResponse = { id, move, score };
+  ctx.postMessage(response);
+};
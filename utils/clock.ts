@@ -0,0 +1,80 @@
+export type ClockSide = 'p1' | 'p2';
+
+export interface TimeControl {
+  id: string;
+  label: string; // Also used as the match tag, e.g. "3+2"
+  initialMs: number;
+  incrementMs: number; // Fischer increment added after each move
+  byoyomi?: { periods: number; periodMs: number }; // Overtime periods once main time runs out
+}
+
+export interface SideClock {
+  mainMs: number;
+  periods: number; // Byo-yomi periods left
+  periodMs: number; // Time left in the current byo-yomi period
+}
+
+export type ClockState = Record<ClockSide, SideClock>;
+
+const MIN = 60 * 1000;
+const SEC = 1000;
+
+export const TIME_CONTROLS: TimeControl[] = [
+  { id: '3+2', label: '3+2', initialMs: 3 * MIN, incrementMs: 2 * SEC },
+  { id: '10+0', label: '10+0', initialMs: 10 * MIN, incrementMs: 0 },
+  { id: '30+0', label: '30+0', initialMs: 30 * MIN, incrementMs: 0 },
+  { id: '10+5', label: '10+5', initialMs: 10 * MIN, incrementMs: 5 * SEC },
+  { id: 'byo-5-3x30', label: '5分+3×30秒读秒', initialMs: 5 * MIN, incrementMs: 0, byoyomi: { periods: 3, periodMs: 30 * SEC } }
+];
+
+export const createClock = (tc: TimeControl): ClockState => {
+  const side: SideClock = {
+    mainMs: tc.initialMs,
+    periods: tc.byoyomi?.periods || 0,
+    periodMs: tc.byoyomi?.periodMs || 0
+  };
+  return { p1: { ...side }, p2: { ...side } };
+};
+
+// Runs the given side's clock down; flagged is true once all main time and byo-yomi periods are used up
+export const tickClock = (clock: ClockState, side: ClockSide, elapsedMs: number, tc: TimeControl): { clock: ClockState, flagged: boolean } => {
+  let { mainMs, periods, periodMs } = clock[side];
+  let rest = elapsedMs;
+
+  const fromMain = Math.min(mainMs, rest);
+  mainMs -= fromMain;
+  rest -= fromMain;
+
+  // Each period that fully expires is lost; the next one starts fresh
+  while (rest > 0 && periods > 0 && tc.byoyomi) {
+    if (rest < periodMs) {
+      periodMs -= rest;
+      rest = 0;
+    } else {
+      rest -= periodMs;
+      periods -= 1;
+      periodMs = periods > 0 ? tc.byoyomi.periodMs : 0;
+    }
+  }
+
+  const flagged = mainMs <= 0 && periods <= 0;
+  return { clock: { ...clock, [side]: { mainMs, periods, periodMs } }, flagged };
+};
+
+// Applied after the side completes a move: Fischer increment, or a fresh byo-yomi period
+export const completeMove = (clock: ClockState, side: ClockSide, tc: TimeControl): ClockState => {
+  const current = clock[side];
+  if (current.mainMs <= 0 && tc.byoyomi) {
+    return { ...clock, [side]: { ...current, periodMs: tc.byoyomi.periodMs } };
+  }
+  return { ...clock, [side]: { ...current, mainMs: current.mainMs + tc.incrementMs } };
+};
+
+export const formatClock = (ms: number) => {
+  const total = Math.max(0, ms);
+  const minutes = Math.floor(total / MIN);
+  const seconds = Math.floor((total % MIN) / SEC);
+  // Tenths of a second once time gets critical
+  if (total < 10 * SEC) return `${seconds}.${Math.floor((total % SEC) / 100)}`;
+  return `${minutes}:${String(seconds).padStart(2, '0')}`;
+};
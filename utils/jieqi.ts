@@ -0,0 +1,148 @@
+import { ChessPiece } from '../types';
+import { XiangqiColor, XiangqiMove, createInitialXiangqiBoard, getValidMoves, isValidPos, findGeneral, makeXiangqiPiece, moveToChinese, xiangqiPositionKey } from './xiangqi';
+
+// 揭棋: every piece but the general starts face down on a random square of its own side,
+// moves as the piece that stands on that square in the opening position, and is turned up by its first move
+
+export interface JieqiPiece extends ChessPiece {
+  hidden: boolean;
+}
+
+export type JieqiBoard = (JieqiPiece | null)[][];
+
+interface Point {
+  r: number;
+  c: number;
+}
+
+const STANDARD_BOARD = createInitialXiangqiBoard();
+
+const shuffle = <T,>(items: T[], random: () => number): T[] => {
+  const result = [...items];
+  for (let i = result.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [result[i], result[j]] = [result[j], result[i]];
+  }
+  return result;
+};
+
+export const createJieqiBoard = (random: () => number = Math.random): JieqiBoard => {
+  const board: JieqiBoard = STANDARD_BOARD.map(row => row.map(p => p ? { ...p, hidden: p.type !== 'K' } : null));
+  (['red', 'black'] as XiangqiColor[]).forEach(color => {
+    const squares: Point[] = [];
+    board.forEach((row, r) => row.forEach((p, c) => {
+      if (p && p.color === color && p.hidden) squares.push({ r, c });
+    }));
+    const pieces = shuffle(squares.map(({ r, c }) => board[r][c]!), random);
+    squares.forEach(({ r, c }, i) => board[r][c] = pieces[i]);
+  });
+  return board;
+};
+
+// A face-down piece has never moved, so the opening position on its square tells how it moves
+export const jieqiMoverType = (board: JieqiBoard, r: number, c: number): string => {
+  const piece = board[r][c];
+  if (!piece) return '';
+  return piece.hidden ? STANDARD_BOARD[r][c]?.type || piece.type : piece.type;
+};
+
+// The board as both players see it: face-down pieces shown as the piece they move as
+export const visibleJieqiBoard = (board: JieqiBoard) =>
+  board.map((row, r) => row.map((p, c) => p ? makeXiangqiPiece(jieqiMoverType(board, r, c), p.color as XiangqiColor) : null));
+
+const getJieqiPieceMoves = (board: JieqiBoard, r: number, c: number): Point[] => {
+  const piece = board[r][c];
+  if (!piece) return [];
+
+  // Turned-up advisors and elephants may leave the palace and cross the river
+  if (!piece.hidden && (piece.type === 'A' || piece.type === 'E')) {
+    const step = piece.type === 'A' ? 1 : 2;
+    const moves: Point[] = [];
+    for (const [dr, dc] of [[1, 1], [1, -1], [-1, 1], [-1, -1]]) {
+      const nr = r + dr * step;
+      const nc = c + dc * step;
+      if (!isValidPos(nr, nc)) continue;
+      if (step === 2 && board[r + dr][c + dc]) continue; // Blocked elephant eye
+      const target = board[nr][nc];
+      if (!target || target.color !== piece.color) moves.push({ r: nr, c: nc });
+    }
+    return moves;
+  }
+  return getValidMoves(board, { ...piece, type: jieqiMoverType(board, r, c) }, r, c);
+};
+
+export const applyJieqiMove = (board: JieqiBoard, move: XiangqiMove): JieqiBoard => {
+  const next = board.map(row => [...row]);
+  const piece = next[move.from.r][move.from.c];
+  next[move.to.r][move.to.c] = piece ? { ...piece, hidden: false } : null;
+  next[move.from.r][move.from.c] = null;
+  return next;
+};
+
+// Any enemy piece reaching the general gives check, including a free advisor or elephant; so do facing generals
+export const isJieqiGeneralInCheck = (board: JieqiBoard, color: XiangqiColor): boolean => {
+  const general = findGeneral(board, color);
+  if (!general) return false;
+  const enemy = color === 'red' ? 'black' : 'red';
+
+  const other = findGeneral(board, enemy);
+  if (other && other.c === general.c) {
+    const [top, bottom] = other.r < general.r ? [other.r, general.r] : [general.r, other.r];
+    let open = true;
+    for (let r = top + 1; r < bottom; r++) {
+      if (board[r][general.c]) open = false;
+    }
+    if (open) return true;
+  }
+
+  for (let r = 0; r < 10; r++) {
+    for (let c = 0; c < 9; c++) {
+      const p = board[r][c];
+      if (p && p.color === enemy && getJieqiPieceMoves(board, r, c).some(m => m.r === general.r && m.c === general.c)) {
+        return true;
+      }
+    }
+  }
+  return false;
+};
+
+export const getLegalJieqiMoves = (board: JieqiBoard, r: number, c: number): Point[] => {
+  const piece = board[r][c];
+  if (!piece) return [];
+  const color = piece.color as XiangqiColor;
+  return getJieqiPieceMoves(board, r, c).filter(to =>
+    !isJieqiGeneralInCheck(applyJieqiMove(board, { from: { r, c }, to }), color)
+  );
+};
+
+export const getAllLegalJieqiMoves = (board: JieqiBoard, color: XiangqiColor): XiangqiMove[] => {
+  const moves: XiangqiMove[] = [];
+  board.forEach((row, r) => row.forEach((p, c) => {
+    if (p && p.color === color) {
+      getLegalJieqiMoves(board, r, c).forEach(to => moves.push({ from: { r, c }, to }));
+    }
+  }));
+  return moves;
+};
+
+// As in xiangqi, a side without legal moves loses whether it is in check or not
+export const getJieqiStatus = (board: JieqiBoard, turn: XiangqiColor): 'PLAYING' | 'CHECKMATE' | 'STALEMATE' => {
+  if (getAllLegalJieqiMoves(board, turn).length > 0) return 'PLAYING';
+  return isJieqiGeneralInCheck(board, turn) ? 'CHECKMATE' : 'STALEMATE';
+};
+
+// A round goes drawn after this many moves (60 per side) without a capture or a piece turned up
+export const JIEQI_QUIET_MOVE_LIMIT = 120;
+
+// A capture or a reveal can never be undone, so only positions since the last one can repeat, and their
+// face-down pieces all stay where they are; placement plus side to move is enough to identify them.
+// Unlike xiangqi, perpetual check and chase are not judged: a threefold repetition is always a draw
+export const jieqiPositionKey = (board: JieqiBoard, turn: XiangqiColor) => xiangqiPositionKey(board, turn);
+
+// Chinese notation as seen before the move; turning a piece up adds what it was, e.g. 车九进一(揭马)
+export const jieqiMoveToChinese = (board: JieqiBoard, from: Point, to: Point): string => {
+  const piece = board[from.r][from.c];
+  if (!piece) return '';
+  const text = moveToChinese(visibleJieqiBoard(board), from, to);
+  return piece.hidden ? `${text}(揭${piece.label})` : text;
+};
@@ -0,0 +1,135 @@
+import { ChessPosition, ChessMove, createInitialPosition, applyMove, moveFromSan } from './chess';
+
+export type PgnResult = '1-0' | '0-1' | '1/2-1/2' | '*';
+
+export interface PgnGame {
+  tags: Record<string, string>;
+  moves: string[]; // SAN tokens
+  result: PgnResult;
+  comments?: string[]; // Written as {...} after the move with the same index
+}
+
+// Seven Tag Roster first, in the order the PGN standard requires; xiangqi records name the first player Red
+const TAG_ORDER = ['Game', 'Event', 'Site', 'Date', 'Round', 'White', 'Red', 'Black', 'Result'];
+
+export const formatPgnDate = (timestamp: number) => {
+  const d = new Date(timestamp);
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${d.getFullYear()}.${pad(d.getMonth() + 1)}.${pad(d.getDate())}`;
+};
+
+const escapeTag = (value: string) => value.replace(/\\/g, '\\\\').replace(/"/g, '\\"');
+
+export const buildPgn = (game: PgnGame): string => {
+  const tags: Record<string, string> = { ...game.tags, Result: game.result };
+  const keys = [
+    ...TAG_ORDER.filter(k => k in tags),
+    ...Object.keys(tags).filter(k => !TAG_ORDER.includes(k))
+  ];
+  const header = keys.map(k => `[${k} "${escapeTag(tags[k])}"]`).join('\n');
+
+  // Games set up from a FEN may start with black to move or at a later move number
+  const fenFields = (tags.FEN || '').split(' ');
+  const blackFirst = fenFields[1] === 'b';
+  const firstNumber = parseInt(fenFields[5] || '1', 10) || 1;
+  const tokens: string[] = [];
+  game.moves.forEach((san, i) => {
+    const ply = i + (blackFirst ? 1 : 0);
+    const number = firstNumber + Math.floor(ply / 2);
+    if (ply % 2 === 0) tokens.push(`${number}.`);
+    else if (i === 0) tokens.push(`${number}...`);
+    tokens.push(san);
+    if (game.comments?.[i]) tokens.push(`{${game.comments[i]}}`);
+  });
+  tokens.push(game.result);
+
+  // Wrap movetext at 80 columns
+  const lines: string[] = [];
+  let line = '';
+  tokens.forEach(t => {
+    if (line && line.length + t.length + 1 > 80) {
+      lines.push(line);
+      line = t;
+    } else {
+      line = line ? `${line} ${t}` : t;
+    }
+  });
+  if (line) lines.push(line);
+
+  return `${header}\n\n${lines.join('\n')}\n`;
+};
+
+// Parses one or more games from PGN text; comments, variations and NAGs are skipped
+export const parsePgn = (text: string): PgnGame[] => {
+  const games: PgnGame[] = [];
+  let current: PgnGame | null = null;
+  let movetext = '';
+
+  const flush = () => {
+    if (!current) return;
+    const cleaned = movetext.replace(/\{[^}]*\}/g, ' ');
+    // Strip (nested) variations
+    let depth = 0;
+    let flat = '';
+    for (const ch of cleaned) {
+      if (ch === '(') depth++;
+      else if (ch === ')') depth = Math.max(0, depth - 1);
+      else if (depth === 0) flat += ch;
+    }
+    flat.split(/\s+/).forEach(token => {
+      if (!token) return;
+      if (['1-0', '0-1', '1/2-1/2', '*'].includes(token)) {
+        current!.result = token as PgnResult;
+        return;
+      }
+      if (/^\$\d+$/.test(token)) return;
+      const san = token.replace(/^\d+\.+/, '');
+      if (san) current!.moves.push(san);
+    });
+    games.push(current);
+    current = null;
+    movetext = '';
+  };
+
+  text.replace(/\r/g, '').split('\n').forEach(rawLine => {
+    const line = rawLine.trim();
+    const tag = line.match(/^\[(\w+)\s+"((?:[^"\\]|\\.)*)"\]$/);
+    if (tag) {
+      // A tag after movetext starts a new game
+      if (current && movetext.trim()) flush();
+      if (!current) current = { tags: {}, moves: [], result: '*' };
+      current.tags[tag[1]] = tag[2].replace(/\\(.)/g, '$1');
+      return;
+    }
+    if (line && !line.startsWith('%')) {
+      if (!current) current = { tags: {}, moves: [], result: '*' };
+      // Rest-of-line comments; a ';' inside a {...} comment is rare enough to ignore
+      movetext += ` ${line.replace(/;.*$/, '')}`;
+    }
+  });
+  flush();
+
+  return games;
+};
+
+export interface ReplayedGame {
+  positions: ChessPosition[]; // positions[0] is the start, positions[i] follows moves[i - 1]
+  moves: ChessMove[];
+}
+
+// Plays the SAN moves from the start position, throwing on the first illegal move
+export const replayPgnMoves = (sans: string[], start: ChessPosition = createInitialPosition()): ReplayedGame => {
+  const positions = [start];
+  const moves: ChessMove[] = [];
+  sans.forEach(san => {
+    const pos = positions[positions.length - 1];
+    const move = moveFromSan(pos, san);
+    if (!move) {
+      // Numbered as in the game, which may start from a FEN at any move and with black to move
+      throw new Error(`第 ${pos.fullmoveNumber} 回合${pos.turn === 'white' ? '白方' : '黑方'}着法无效: ${san}`);
+    }
+    moves.push(move);
+    positions.push(applyMove(pos, move));
+  });
+  return { positions, moves };
+};
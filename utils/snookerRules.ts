@@ -0,0 +1,154 @@
+import { Ball, ShotResult, SNOOKER_TABLE, SNOOKER_SPOTS, SNOOKER_BAULK_X, SNOOKER_D_RADIUS, isValidPlacement, isPathClear, spotBall } from './billiardsEngine';
+import { Player } from './billiardsRules';
+
+// What the striker must hit first: any red, any colour after a red, or one colour in order once the reds are gone
+export type SnookerOn = 'RED' | 'COLOUR' | number;
+
+export interface SnookerState {
+  scores: { 1: number, 2: number };
+  on: SnookerOn;
+  breakScore: number; // Points of the current visit
+  freeBall: boolean; // Snookered after a foul: any ball may be nominated as the ball on
+}
+
+export interface SnookerVerdict {
+  foul: string | null;
+  penalty: number; // Awarded to the opponent on a foul
+  miss: boolean; // The ball on was not hit while it could be: the opponent may have the shot replayed
+  ballInHand: boolean; // The cue ball was potted: the incoming player plays from the D
+  nextTurn: Player;
+  state: SnookerState;
+  respot: number[]; // Colours to put back on their spots, highest value first
+  winner: Player | null;
+}
+
+export const SNOOKER_COLOUR_NAMES: Record<number, string> = { 16: '黄球', 17: '绿球', 18: '咖啡球', 19: '蓝球', 20: '粉球', 21: '黑球' };
+
+export const isRed = (id: number) => id >= 1 && id <= 15;
+
+export const snookerBallValue = (id: number) => isRed(id) ? 1 : id - 14;
+
+export const createSnookerState = (): SnookerState => ({ scores: { 1: 0, 2: 0 }, on: 'RED', breakScore: 0, freeBall: false });
+
+export const snookerOnLabel = (on: SnookerOn) => on === 'RED' ? '红球' : on === 'COLOUR' ? '彩球' : SNOOKER_COLOUR_NAMES[on];
+
+// Points still on the table for the player to move, counting a colour after every red
+export const snookerPointsRemaining = (balls: Ball[], on: SnookerOn) => {
+  const reds = balls.filter(b => b.active && isRed(b.id)).length;
+  const colours = balls.filter(b => b.active && b.id >= 16).reduce((sum, b) => sum + snookerBallValue(b.id), 0);
+  return reds * 8 + (on === 'COLOUR' ? 7 : 0) + colours;
+};
+
+export const isInSnookerD = (x: number, y: number) => {
+  const dx = x - SNOOKER_BAULK_X; const dy = y - SNOOKER_TABLE.height / 2;
+  return x <= SNOOKER_BAULK_X && dx * dx + dy * dy <= SNOOKER_D_RADIUS * SNOOKER_D_RADIUS;
+};
+
+const other = (player: Player): Player => player === 1 ? 2 : 1;
+
+// Ball on for a player coming to the table: a red while any are left, otherwise the lowest colour
+const openingOn = (balls: Ball[]): SnookerOn => {
+  if (balls.some(b => b.active && isRed(b.id))) return 'RED';
+  const colours = balls.filter(b => b.active && b.id >= 16).map(b => b.id);
+  return colours.length > 0 ? Math.min(...colours) : 21;
+};
+
+const isBallOn = (id: number, on: SnookerOn) => on === 'RED' ? isRed(id) : on === 'COLOUR' ? id >= 16 : id === on;
+
+// Snookered: no ball on can be hit straight, centre to centre, without another ball in the way
+export const isSnookered = (balls: Ball[], on: SnookerOn) => {
+  const cue = balls.find(b => b.id === 0);
+  if (!cue || !cue.active) return false;
+  return !balls.some(b => b.active && isBallOn(b.id, on) && isPathClear(balls, cue, b, [0, b.id], SNOOKER_TABLE));
+};
+
+// Back on its own spot; if that is taken, the highest free spot; failing both, as near behind its own spot as possible
+export const respotSnookerBall = (balls: Ball[], id: number): Ball[] => {
+  const spots = [id, 21, 20, 19, 18, 17, 16].map(c => SNOOKER_SPOTS[c]);
+  const free = spots.find(s => isValidPlacement(balls, id, s.x, s.y, SNOOKER_TABLE));
+  if (free) return balls.map(b => b.id === id ? { ...b, x: free.x, y: free.y, vx: 0, vy: 0, wx: 0, wy: 0, wz: 0, active: true } : b);
+  return spotBall(balls, id, SNOOKER_SPOTS[id], SNOOKER_TABLE);
+};
+
+// Scores, fouls and the next ball on after a snooker shot. `before` is the table as it was struck
+export const judgeSnookerShot = (turn: Player, state: SnookerState, before: Ball[], result: ShotResult): SnookerVerdict => {
+  const { on, freeBall } = state;
+  const first = result.firstHitId;
+  const objectPotted = result.potted.filter(id => id !== 0);
+  const cuePotted = result.potted.includes(0);
+
+  // The first ball hit is the nominated one: the colour after a red, or the free ball
+  const nominated = first !== null && (freeBall || on === 'COLOUR') ? first : null;
+  const legalFirst = first !== null && (freeBall || isBallOn(first, on));
+  const mayPot = (id: number) => id === nominated || (on !== 'COLOUR' && isBallOn(id, on));
+  // On a colour with none nominated (a red or nothing hit first) the foul is valued by the balls involved, at least 4
+  const onValue = on === 'RED' ? 1 : on === 'COLOUR' ? (nominated !== null && nominated >= 16 ? snookerBallValue(nominated) : 4) : snookerBallValue(on);
+
+  let foul: string | null = null;
+  if (cuePotted) foul = '母球落袋';
+  else if (first === null) foul = '未击中任何球';
+  else if (!legalFirst) foul = `未先击中${snookerOnLabel(on)}`;
+  else if (objectPotted.some(id => !mayPot(id))) foul = '击落非目标球';
+
+  const scores = { ...state.scores };
+  const respot: number[] = [];
+
+  if (foul) {
+    const penalty = Math.max(4, onValue, first !== null ? snookerBallValue(first) : 0, ...objectPotted.map(snookerBallValue));
+    scores[other(turn)] += penalty;
+    // Reds stay down, every potted colour comes back, except a foul on the last black which ends the frame
+    const blackDecides = on === 21 && objectPotted.includes(21);
+    if (!blackDecides) objectPotted.filter(id => id >= 16).sort((a, b) => b - a).forEach(id => respot.push(id));
+    const verdict: SnookerVerdict = {
+      foul, penalty, ballInHand: cuePotted, nextTurn: other(turn), respot, winner: null,
+      miss: !legalFirst && !isSnookered(before, on),
+      state: { scores, on, breakScore: 0, freeBall: false }
+    };
+    if (blackDecides) return endOfFrame(verdict, turn);
+
+    // The incoming player gets a free ball when the table, colours back on their spots, leaves them snookered
+    let table = result.balls;
+    respot.forEach(id => { table = respotSnookerBall(table, id); });
+    verdict.state.on = openingOn(table);
+    verdict.state.freeBall = !cuePotted && isSnookered(table, verdict.state.on);
+    return verdict;
+  }
+
+  // Potted balls score at the value of the ball on (a free ball counts as the ball it replaces)
+  const points = objectPotted.reduce((sum, id) => sum + (isRed(id) ? 1 : freeBall && id === nominated && on !== 'COLOUR' ? onValue : snookerBallValue(id)), 0);
+  scores[turn] += points;
+  const verdict: SnookerVerdict = {
+    foul: null, penalty: 0, miss: false, ballInHand: false, nextTurn: turn, respot, winner: null,
+    state: { scores, on, breakScore: state.breakScore + points, freeBall: false }
+  };
+
+  // Colours return to their spots, except the colour on during the clearance
+  objectPotted.filter(id => id >= 16 && id !== on).forEach(id => respot.push(id));
+  respot.sort((a, b) => b - a);
+  const redsLeft = result.balls.some(b => b.active && isRed(b.id));
+
+  if (points === 0) {
+    verdict.nextTurn = other(turn);
+    verdict.state.breakScore = 0;
+    verdict.state.on = on === 'COLOUR' ? (redsLeft ? 'RED' : 16) : on;
+    return verdict;
+  }
+
+  if (on === 'RED') verdict.state.on = 'COLOUR';
+  else if (on === 'COLOUR') verdict.state.on = redsLeft ? 'RED' : 16;
+  else if (objectPotted.includes(on)) {
+    if (on === 21) return endOfFrame(verdict, turn);
+    verdict.state.on = on + 1;
+  }
+  return verdict;
+};
+
+// The black is down: the higher score wins, or on a tie the black is respotted and played from the D
+const endOfFrame = (verdict: SnookerVerdict, turn: Player): SnookerVerdict => {
+  const { scores } = verdict.state;
+  if (scores[1] !== scores[2]) return { ...verdict, winner: scores[1] > scores[2] ? 1 : 2 };
+  return {
+    ...verdict, respot: [21], ballInHand: true, nextTurn: other(turn), miss: false,
+    state: { ...verdict.state, on: 21, breakScore: 0, freeBall: false }
+  };
+};
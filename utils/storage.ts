@@ -12,6 +12,8 @@ interface StoredUser {
   stats?: Record<string, GameStats>;
   history?: GameHistoryItem[];
   achievements?: string[];
+  puzzles?: Record<string, string[]>;
+  drills?: Record<string, string[]>; // 每个游戏保存的练习布局 (分享码)
 }
 
 // 初始化测试数据
@@ -29,7 +31,8 @@ const createTestUser = () => {
         avatar: '🧪',
         stats: {},
         history: [],
-        achievements: []
+        achievements: [],
+        puzzles: {}
     };
     localStorage.setItem(USERS_KEY, JSON.stringify(users));
     return users['测试玩家'];
@@ -47,7 +50,8 @@ export const storage = {
           avatar: u.avatar,
           stats: u.stats,
           history: u.history,
-          achievements: u.achievements
+          achievements: u.achievements,
+          puzzles: u.puzzles || {}
       };
   },
 
@@ -92,7 +96,8 @@ export const storage = {
             avatar: user.avatar || '👤',
             stats: user.stats || {},
             history: user.history || [],
-            achievements: user.achievements || []
+            achievements: user.achievements || [],
+            puzzles: user.puzzles || {}
         } 
       };
     }
@@ -133,7 +138,8 @@ export const storage = {
               avatar: newAvatar, 
               stats: currentUserData.stats,
               history: currentUserData.history || [],
-              achievements: currentUserData.achievements || []
+              achievements: currentUserData.achievements || [],
+              puzzles: currentUserData.puzzles || {}
             } 
         };
     }
@@ -164,13 +170,14 @@ export const storage = {
           avatar: newAvatar, 
           stats: users[newUsername].stats,
           history: users[newUsername].history || [],
-          achievements: users[newUsername].achievements || []
+          achievements: users[newUsername].achievements || [],
+          puzzles: users[newUsername].puzzles || {}
         } 
     };
   },
 
   // 更新游戏统计数据 (通用)
-  updateGameStats: (username: string, gameType: GameType, isWin: boolean, points: number, details?: MatchDetails): { user: User, newAchievements: Achievement[] } | null => {
+  updateGameStats: (username: string, gameType: GameType, isWin: boolean, points: number, details?: MatchDetails, isDraw: boolean = false): { user: User, newAchievements: Achievement[] } | null => {
       const users = storage.getUsers();
       const userStore = users[username];
       
@@ -186,16 +193,26 @@ export const storage = {
       }
 
       const stats = userStore.stats[gameType];
+      const puzzleId = details?.puzzleId;
       
-      // Update Stats
-      stats.played += 1;
-      if (isWin) {
-          stats.wins += 1;
-          stats.streak += 1;
-          stats.maxStreak = Math.max(stats.streak, stats.maxStreak);
+      // Update Stats; a solved puzzle only adds to the puzzle progress, not to the match record
+      if (puzzleId) {
+          if (!userStore.puzzles) userStore.puzzles = {};
+          const solved = userStore.puzzles[gameType] || [];
+          if (!solved.includes(puzzleId)) userStore.puzzles[gameType] = [...solved, puzzleId];
       } else {
-          // Only reset streak on explicit loss. 
-          stats.streak = 0;
+          stats.played += 1;
+      }
+      // Puzzles and draws neither extend nor break the streak
+      if (!puzzleId && !isDraw) {
+          if (isWin) {
+              stats.wins += 1;
+              stats.streak += 1;
+              stats.maxStreak = Math.max(stats.streak, stats.maxStreak);
+          } else {
+              // Only reset streak on explicit loss. 
+              stats.streak = 0;
+          }
       }
 
       // Update History
@@ -203,7 +220,7 @@ export const storage = {
       userStore.history.unshift({
         gameType,
         points,
-        result: isWin ? 'WIN' : 'LOSS',
+        result: isDraw ? 'DRAW' : (isWin ? 'WIN' : 'LOSS'),
         timestamp: Date.now(),
         details
       });
@@ -216,10 +233,11 @@ export const storage = {
           totalScore: userStore.score,
           avatar: userStore.avatar,
           stats: userStore.stats,
-          achievements: userStore.achievements
+          achievements: userStore.achievements,
+          puzzles: userStore.puzzles
       };
       
-      const unlocked = checkAchievements(tempUserObj, gameType, isWin);
+      const unlocked = checkAchievements(tempUserObj, gameType, isWin && !isDraw && !puzzleId);
       
       if (unlocked.length > 0) {
           unlocked.forEach(a => {
@@ -238,12 +256,27 @@ export const storage = {
             avatar: userStore.avatar || '👤',
             stats: userStore.stats,
             history: userStore.history,
-            achievements: userStore.achievements
+            achievements: userStore.achievements,
+            puzzles: userStore.puzzles || {}
           },
           newAchievements: unlocked
       };
   },
 
+  // 获取用户保存的练习布局
+  getDrills: (username: string, gameType: GameType): string[] => {
+      return storage.getUsers()[username]?.drills?.[gameType] || [];
+  },
+
+  // 保存用户的练习布局
+  saveDrills: (username: string, gameType: GameType, drills: string[]) => {
+      const users = storage.getUsers();
+      const userStore = users[username];
+      if (!userStore) return;
+      userStore.drills = { ...userStore.drills, [gameType]: drills };
+      localStorage.setItem(USERS_KEY, JSON.stringify(users));
+  },
+
   // 获取最近登录用户列表
   getRecent: (): string[] => {
     try {
@@ -0,0 +1,491 @@
+import { ChessPiece } from '../types';
+
+export type XiangqiColor = 'red' | 'black';
+export type XiangqiBoard = (ChessPiece | null)[][];
+
+interface Point {
+  r: number;
+  c: number;
+}
+
+// Helper: Check bounds
+export const isValidPos = (r: number, c: number) => r >= 0 && r < 10 && c >= 0 && c < 9;
+
+// Xiangqi Rules Logic
+export const getValidMoves = (board: XiangqiBoard, piece: ChessPiece, r: number, c: number) => {
+  const moves: { r: number, c: number }[] = [];
+  const isRed = piece.color === 'red';
+  
+  const addIfValid = (nr: number, nc: number) => {
+    if (isValidPos(nr, nc)) {
+      const target = board[nr][nc];
+      if (!target || target.color !== piece.color) {
+        moves.push({ r: nr, c: nc });
+      }
+    }
+  };
+
+  const addLineMoves = (dirs: number[][]) => {
+    dirs.forEach(([dr, dc]) => {
+      let nr = r + dr;
+      let nc = c + dc;
+      while (isValidPos(nr, nc)) {
+        const target = board[nr][nc];
+        if (!target) {
+          moves.push({ r: nr, c: nc });
+        } else {
+          if (target.color !== piece.color) {
+            moves.push({ r: nr, c: nc });
+          }
+          break; // Blocked
+        }
+        nr += dr;
+        nc += dc;
+      }
+    });
+  };
+
+  switch (piece.type) {
+    case 'K': // General/King
+      const kDirs = [[0, 1], [0, -1], [1, 0], [-1, 0]];
+      kDirs.forEach(([dr, dc]) => {
+        const nr = r + dr;
+        const nc = c + dc;
+        if (nc >= 3 && nc <= 5) {
+          if (isRed ? (nr >= 7 && nr <= 9) : (nr >= 0 && nr <= 2)) {
+            addIfValid(nr, nc);
+          }
+        }
+      });
+      break;
+
+    case 'A': // Advisor
+      const aDirs = [[1, 1], [1, -1], [-1, 1], [-1, -1]];
+      aDirs.forEach(([dr, dc]) => {
+        const nr = r + dr;
+        const nc = c + dc;
+        if (nc >= 3 && nc <= 5) {
+          if (isRed ? (nr >= 7 && nr <= 9) : (nr >= 0 && nr <= 2)) {
+            addIfValid(nr, nc);
+          }
+        }
+      });
+      break;
+
+    case 'E': // Elephant
+      const eDirs = [
+        { dr: -2, dc: -2, er: -1, ec: -1 }, { dr: -2, dc: 2, er: -1, ec: 1 },
+        { dr: 2, dc: -2, er: 1, ec: -1 }, { dr: 2, dc: 2, er: 1, ec: 1 },
+      ];
+      eDirs.forEach(({ dr, dc, er, ec }) => {
+        const nr = r + dr;
+        const nc = c + dc;
+        if (isRed ? nr >= 5 : nr <= 4) {
+          if (isValidPos(r + er, c + ec) && !board[r + er][c + ec]) {
+             addIfValid(nr, nc);
+          }
+        }
+      });
+      break;
+
+    case 'N': // Horse
+      const nDirs = [
+        { dr: -2, dc: -1, lr: -1, lc: 0 }, { dr: -2, dc: 1, lr: -1, lc: 0 },
+        { dr: 2, dc: -1, lr: 1, lc: 0 }, { dr: 2, dc: 1, lr: 1, lc: 0 },
+        { dr: -1, dc: -2, lr: 0, lc: -1 }, { dr: 1, dc: -2, lr: 0, lc: -1 },
+        { dr: -1, dc: 2, lr: 0, lc: 1 }, { dr: 1, dc: 2, lr: 0, lc: 1 },
+      ];
+      nDirs.forEach(({ dr, dc, lr, lc }) => {
+        if (isValidPos(r + lr, c + lc) && !board[r + lr][c + lc]) {
+          addIfValid(r + dr, c + dc);
+        }
+      });
+      break;
+
+    case 'R': // Rook
+      addLineMoves([[0, 1], [0, -1], [1, 0], [-1, 0]]);
+      break;
+
+    case 'C': // Cannon
+      const cDirs = [[0, 1], [0, -1], [1, 0], [-1, 0]];
+      cDirs.forEach(([dr, dc]) => {
+        let nr = r + dr;
+        let nc = c + dc;
+        let screenFound = false;
+        while (isValidPos(nr, nc)) {
+          const target = board[nr][nc];
+          if (!screenFound) {
+            if (!target) {
+              moves.push({ r: nr, c: nc }); 
+            } else {
+              screenFound = true; 
+            }
+          } else {
+            if (target) {
+              if (target.color !== piece.color) {
+                moves.push({ r: nr, c: nc });
+              }
+              break; 
+            }
+          }
+          nr += dr;
+          nc += dc;
+        }
+      });
+      break;
+
+    case 'P': // Soldier
+      const forward = isRed ? -1 : 1;
+      addIfValid(r + forward, c);
+      const crossedRiver = isRed ? r <= 4 : r >= 5;
+      if (crossedRiver) {
+        addIfValid(r, c - 1);
+        addIfValid(r, c + 1);
+      }
+      break;
+  }
+  return moves;
+};
+
+const PIECE_LABELS: Record<XiangqiColor, Record<string, string>> = {
+  red: { R: '车', N: '马', E: '相', A: '仕', K: '帅', C: '炮', P: '兵' },
+  black: { R: '车', N: '马', E: '象', A: '士', K: '将', C: '炮', P: '卒' }
+};
+
+export const makeXiangqiPiece = (type: string, color: XiangqiColor): ChessPiece => ({ type, color, label: PIECE_LABELS[color][type] });
+
+export interface XiangqiHandicap {
+  id: string;
+  name: string; // e.g. 让单马
+  removed: { type: string, file: number }[]; // Pieces taken off the giver's back rank; file 0 is the giver's own left
+  pointsMultiplier: number; // Applied to the points for beating the side that gives the handicap
+}
+
+export const XIANGQI_HANDICAPS: XiangqiHandicap[] = [
+  { id: 'one_horse', name: '让单马', removed: [{ type: 'N', file: 1 }], pointsMultiplier: 0.7 },
+  { id: 'two_horses', name: '让双马', removed: [{ type: 'N', file: 1 }, { type: 'N', file: 7 }], pointsMultiplier: 0.5 },
+  { id: 'one_rook', name: '让单车', removed: [{ type: 'R', file: 0 }], pointsMultiplier: 0.5 },
+  { id: 'rook_horse', name: '让车马', removed: [{ type: 'R', file: 0 }, { type: 'N', file: 1 }], pointsMultiplier: 0.35 },
+  { id: 'two_rooks', name: '让双车', removed: [{ type: 'R', file: 0 }, { type: 'R', file: 8 }], pointsMultiplier: 0.2 }
+];
+
+// The standard opening position, optionally with the handicap giver's pieces removed (让子)
+export const createInitialXiangqiBoard = (handicap?: { config: XiangqiHandicap, side: XiangqiColor } | null): XiangqiBoard => {
+  const board = Array(10).fill(null).map(() => Array(9).fill(null));
+
+  const setupRow = (row: number, color: XiangqiColor, types: string[]) => {
+    types.forEach((type, col) => {
+      board[row][col] = makeXiangqiPiece(type, color);
+    });
+  };
+
+  setupRow(0, 'black', ['R', 'N', 'E', 'A', 'K', 'A', 'E', 'N', 'R']);
+  board[2][1] = makeXiangqiPiece('C', 'black');
+  board[2][7] = makeXiangqiPiece('C', 'black');
+  [0, 2, 4, 6, 8].forEach(c => board[3][c] = makeXiangqiPiece('P', 'black'));
+
+  setupRow(9, 'red', ['R', 'N', 'E', 'A', 'K', 'A', 'E', 'N', 'R']);
+  board[7][1] = makeXiangqiPiece('C', 'red');
+  board[7][7] = makeXiangqiPiece('C', 'red');
+  [0, 2, 4, 6, 8].forEach(c => board[6][c] = makeXiangqiPiece('P', 'red'));
+
+  if (handicap) {
+    // Black faces the board from the other side, so its own left is column 8
+    const row = handicap.side === 'red' ? 9 : 0;
+    handicap.config.removed.forEach(({ type, file }) => {
+      const c = handicap.side === 'red' ? file : 8 - file;
+      if (board[row][c]?.type === type) board[row][c] = null;
+    });
+  }
+
+  return board;
+};
+
+// FEN letters; red is upper case and the elephant is written B as in the common xiangqi FEN
+const FEN_LETTERS: Record<string, string> = { R: 'R', N: 'N', E: 'B', A: 'A', K: 'K', C: 'C', P: 'P' };
+const FEN_TYPES: Record<string, string> = { R: 'R', N: 'N', B: 'E', E: 'E', A: 'A', K: 'K', C: 'C', P: 'P', H: 'N' };
+
+export const INITIAL_XIANGQI_FEN = 'rnbakabnr/9/1c5c1/p1p1p1p1p/9/9/P1P1P1P1P/1C5C1/9/RNBAKABNR w - - 0 1';
+
+// Rows are written from black's back rank down; 'w' means red to move
+export const xiangqiToFen = (board: XiangqiBoard, turn: XiangqiColor, moveNumber = 1): string => {
+  const rows = board.map(row => {
+    let out = '';
+    let empty = 0;
+    row.forEach(p => {
+      if (!p) {
+        empty++;
+        return;
+      }
+      if (empty) out += empty;
+      empty = 0;
+      const letter = FEN_LETTERS[p.type];
+      out += p.color === 'red' ? letter : letter.toLowerCase();
+    });
+    return empty ? out + empty : out;
+  });
+  return `${rows.join('/')} ${turn === 'red' ? 'w' : 'b'} - - 0 ${moveNumber}`;
+};
+
+export const parseXiangqiFen = (fen: string): { board: XiangqiBoard, turn: XiangqiColor, moveNumber: number } => {
+  const fields = fen.trim().split(/\s+/);
+  const rows = fields[0].split('/');
+  if (rows.length !== 10) throw new Error('FEN 格式错误: 需要 10 行');
+
+  const board: XiangqiBoard = rows.map((row, r) => {
+    const out: (ChessPiece | null)[] = [];
+    for (const ch of row) {
+      if (/[1-9]/.test(ch)) {
+        for (let i = 0; i < parseInt(ch, 10); i++) out.push(null);
+      } else if (FEN_TYPES[ch.toUpperCase()]) {
+        out.push(makeXiangqiPiece(FEN_TYPES[ch.toUpperCase()], ch === ch.toUpperCase() ? 'red' : 'black'));
+      } else {
+        throw new Error(`FEN 格式错误: 无效字符 "${ch}"`);
+      }
+    }
+    if (out.length !== 9) throw new Error(`FEN 格式错误: 第 ${r + 1} 行不是 9 格`);
+    return out;
+  });
+
+  const side = fields[1] || 'w';
+  if (!['w', 'r', 'b'].includes(side)) throw new Error('FEN 格式错误: 走子方必须是 w 或 b');
+  if (!findGeneral(board, 'red') || !findGeneral(board, 'black')) throw new Error('FEN 格式错误: 双方必须各有一个将帅');
+  const turn: XiangqiColor = side === 'b' ? 'black' : 'red';
+  if (isGeneralInCheck(board, turn === 'red' ? 'black' : 'red')) throw new Error('FEN 格式错误: 非走子方正被将军');
+
+  return { board, turn, moveNumber: parseInt(fields[5] || '1', 10) || 1 };
+};
+
+export interface XiangqiMove {
+  from: Point;
+  to: Point;
+}
+
+export const applyXiangqiMove = (board: XiangqiBoard, move: XiangqiMove): XiangqiBoard => {
+  const next = board.map(row => [...row]);
+  next[move.to.r][move.to.c] = next[move.from.r][move.from.c];
+  next[move.from.r][move.from.c] = null;
+  return next;
+};
+
+// Every move of the given side by piece movement alone; may leave the own general in check
+export const getAllXiangqiMoves = (board: XiangqiBoard, color: XiangqiColor): XiangqiMove[] => {
+  const moves: XiangqiMove[] = [];
+  board.forEach((row, r) => row.forEach((piece, c) => {
+    if (piece && piece.color === color) {
+      getValidMoves(board, piece, r, c).forEach(to => moves.push({ from: { r, c }, to }));
+    }
+  }));
+  return moves;
+};
+
+export const hasGeneral = (board: XiangqiBoard, color: XiangqiColor) =>
+  board.some(row => row.some(p => p?.type === 'K' && p.color === color));
+
+export const findGeneral = (board: XiangqiBoard, color: XiangqiColor): Point | null => {
+  for (let r = 0; r < 10; r++) {
+    for (let c = 0; c < 9; c++) {
+      const p = board[r][c];
+      if (p && p.type === 'K' && p.color === color) return { r, c };
+    }
+  }
+  return null;
+};
+
+// Whether the general of the given color is attacked. Facing the enemy general on an open file
+// counts too, which makes moves that expose the generals to each other (flying general) illegal
+export const isGeneralInCheck = (board: XiangqiBoard, color: XiangqiColor): boolean => {
+  const general = findGeneral(board, color);
+  if (!general) return false;
+  const { r, c } = general;
+  const enemy = color === 'red' ? 'black' : 'red';
+  const isEnemy = (nr: number, nc: number, type: string) => {
+    const p = board[nr][nc];
+    return !!p && p.color === enemy && p.type === type;
+  };
+
+  // Chariots, cannons and the facing general along files and ranks
+  for (const [dr, dc] of [[0, 1], [0, -1], [1, 0], [-1, 0]]) {
+    let nr = r + dr;
+    let nc = c + dc;
+    let screens = 0;
+    while (isValidPos(nr, nc)) {
+      if (board[nr][nc]) {
+        if (screens === 0 && (isEnemy(nr, nc, 'R') || (dc === 0 && isEnemy(nr, nc, 'K')))) return true;
+        if (screens === 1 && isEnemy(nr, nc, 'C')) return true;
+        if (++screens > 1) break;
+      }
+      nr += dr;
+      nc += dc;
+    }
+  }
+
+  // Horses: the leg next to the horse (diagonal from the general) must be empty
+  const horses = [
+    { dr: -2, dc: -1, lr: -1, lc: -1 }, { dr: -2, dc: 1, lr: -1, lc: 1 },
+    { dr: 2, dc: -1, lr: 1, lc: -1 }, { dr: 2, dc: 1, lr: 1, lc: 1 },
+    { dr: -1, dc: -2, lr: -1, lc: -1 }, { dr: 1, dc: -2, lr: 1, lc: -1 },
+    { dr: -1, dc: 2, lr: -1, lc: 1 }, { dr: 1, dc: 2, lr: 1, lc: 1 },
+  ];
+  for (const { dr, dc, lr, lc } of horses) {
+    const nr = r + dr, nc = c + dc;
+    if (isValidPos(nr, nc) && isEnemy(nr, nc, 'N') && !board[r + lr][c + lc]) return true;
+  }
+
+  // Soldiers attack forward, and sideways once across the river (always true next to a palace)
+  const enemyForward = enemy === 'red' ? -1 : 1;
+  if (isValidPos(r - enemyForward, c) && isEnemy(r - enemyForward, c, 'P')) return true;
+  for (const dc of [-1, 1]) {
+    if (isValidPos(r, c + dc) && isEnemy(r, c + dc, 'P')) return true;
+  }
+  return false;
+};
+
+// Legal moves for the piece on (r, c): its movement, minus moves that leave the own general in check
+export const getLegalXiangqiMoves = (board: XiangqiBoard, r: number, c: number): Point[] => {
+  const piece = board[r][c];
+  if (!piece) return [];
+  const color = piece.color as XiangqiColor;
+  return getValidMoves(board, piece, r, c).filter(to =>
+    !isGeneralInCheck(applyXiangqiMove(board, { from: { r, c }, to }), color)
+  );
+};
+
+export const getAllLegalXiangqiMoves = (board: XiangqiBoard, color: XiangqiColor): XiangqiMove[] =>
+  getAllXiangqiMoves(board, color).filter(move => !isGeneralInCheck(applyXiangqiMove(board, move), color));
+
+// Outcome for the side to move. Unlike chess, having no legal move while not in check (困毙) also loses
+export const getXiangqiStatus = (board: XiangqiBoard, turn: XiangqiColor): 'PLAYING' | 'CHECKMATE' | 'STALEMATE' => {
+  if (getAllLegalXiangqiMoves(board, turn).length > 0) return 'PLAYING';
+  return isGeneralInCheck(board, turn) ? 'CHECKMATE' : 'STALEMATE';
+};
+
+// Position identity for repetition: placement plus side to move
+export const xiangqiPositionKey = (board: XiangqiBoard, turn: XiangqiColor) => xiangqiToFen(board, turn).split(' ').slice(0, 2).join(' ');
+
+// Rough piece values for deciding whether an attack counts as a chase
+const CHASE_VALUES: Record<string, number> = { R: 9, C: 4.5, N: 4, A: 2, E: 2, P: 1, K: 0 };
+
+// Enemy pieces the given side threatens to win: attacked by a legal capture and either unprotected or worth
+// more than the attacker. Generals and soldiers never chase, and soldiers that have not crossed the river
+// may be attacked freely, as in the Asian rules
+const chasedTargets = (board: XiangqiBoard, color: XiangqiColor): Set<string> => {
+  const enemy = color === 'red' ? 'black' : 'red';
+  const targets = new Set<string>();
+  board.forEach((row, r) => row.forEach((attacker, c) => {
+    if (!attacker || attacker.color !== color || attacker.type === 'K' || attacker.type === 'P') return;
+    getLegalXiangqiMoves(board, r, c).forEach(to => {
+      const victim = board[to.r][to.c];
+      if (!victim || victim.type === 'K') return;
+      if (victim.type === 'P' && (enemy === 'red' ? to.r >= 5 : to.r <= 4)) return;
+      const key = `${to.r},${to.c}`;
+      if (targets.has(key)) return;
+      if (CHASE_VALUES[victim.type] > CHASE_VALUES[attacker.type]) {
+        targets.add(key);
+        return;
+      }
+      const after = applyXiangqiMove(board, { from: { r, c }, to });
+      const recapture = getAllLegalXiangqiMoves(after, enemy).some(m => m.to.r === to.r && m.to.c === to.c);
+      if (!recapture) targets.add(key);
+    });
+  }));
+  return targets;
+};
+
+export type RepetitionVerdict =
+  | { kind: 'PERPETUAL_CHECK' | 'PERPETUAL_CHASE', loser: XiangqiColor }
+  | { kind: 'DRAW' };
+
+// Adjudicates a threefold repetition. boards[i + 1] follows a move by turns[i]; the last board is the
+// current position. Inside the repeated cycle, a side that checks with every move (长将) or threatens a
+// check or a chase with every move (长捉) loses; perpetual check is the heavier offence, and equal
+// offences or harmless repetition are a draw. Returns null while no position has occurred three times
+export const adjudicateRepetition = (boards: XiangqiBoard[], turns: XiangqiColor[]): RepetitionVerdict | null => {
+  const last = boards.length - 1;
+  const key = xiangqiPositionKey(boards[last], turns[last]);
+  const occurrences = boards.map((b, i) => i).filter(i => xiangqiPositionKey(boards[i], turns[i]) === key);
+  if (occurrences.length < 3) return null;
+
+  const start = occurrences[occurrences.length - 3];
+  const offence: Record<XiangqiColor, { checks: boolean, chases: boolean }> = {
+    red: { checks: true, chases: true },
+    black: { checks: true, chases: true }
+  };
+  for (let i = start; i < last; i++) {
+    const mover = turns[i];
+    const enemy = mover === 'red' ? 'black' : 'red';
+    const check = isGeneralInCheck(boards[i + 1], enemy);
+    if (!check) {
+      offence[mover].checks = false;
+      // A chase threatens something that was not already under threat before the move
+      const before = chasedTargets(boards[i], mover);
+      const after = chasedTargets(boards[i + 1], mover);
+      if (![...after].some(t => !before.has(t))) offence[mover].chases = false;
+    }
+  }
+
+  const rank = (o: { checks: boolean, chases: boolean }) => o.checks ? 2 : o.chases ? 1 : 0;
+  const red = rank(offence.red);
+  const black = rank(offence.black);
+  if (red === black) return { kind: 'DRAW' };
+  const loser: XiangqiColor = red > black ? 'red' : 'black';
+  return { kind: Math.max(red, black) === 2 ? 'PERPETUAL_CHECK' : 'PERPETUAL_CHASE', loser };
+};
+
+// ICCS coordinates: files a-i from red's left, ranks 0-9 from red's side, e.g. h2e2
+const iccsSquare = ({ r, c }: Point) => `${String.fromCharCode(97 + c)}${9 - r}`;
+
+export const moveToIccs = (move: XiangqiMove) => `${iccsSquare(move.from)}${iccsSquare(move.to)}`;
+
+export const moveFromIccs = (iccs: string): XiangqiMove | null => {
+  const m = iccs.trim().toLowerCase().match(/^([a-i])(\d)-?([a-i])(\d)$/);
+  if (!m) return null;
+  return {
+    from: { r: 9 - parseInt(m[2], 10), c: m[1].charCodeAt(0) - 97 },
+    to: { r: 9 - parseInt(m[4], 10), c: m[3].charCodeAt(0) - 97 }
+  };
+};
+
+// Red counts files and steps in Chinese numerals, black in Arabic digits
+const RED_NUMERALS = ['一', '二', '三', '四', '五', '六', '七', '八', '九'];
+
+const numeral = (color: XiangqiColor, n: number) => color === 'red' ? RED_NUMERALS[n - 1] : String(n);
+
+// Files are counted from each side's own right: red's file 1 is the rightmost column as seen from the red side
+const fileOf = (color: XiangqiColor, c: number) => color === 'red' ? 9 - c : c + 1;
+
+// Pieces that only move along files and ranks count steps; the others name the destination file
+const LINE_MOVERS = ['K', 'R', 'C', 'P'];
+
+// Chinese notation of a move on the board before it is played, e.g. 炮二平五 or 马8进7.
+// Two or more like pieces on one file are told apart by 前/中/后 (or 一二三... from the front)
+export const moveToChinese = (board: XiangqiBoard, from: Point, to: Point): string => {
+  const piece = board[from.r][from.c];
+  if (!piece) return '';
+  const color = piece.color as XiangqiColor;
+  const forward = color === 'red' ? -1 : 1;
+
+  // Same pieces on this file, front-most first
+  const sameFile: number[] = [];
+  for (let r = 0; r < 10; r++) {
+    const other = board[r][from.c];
+    if (other && other.color === color && other.type === piece.type) sameFile.push(r);
+  }
+  sameFile.sort((a, b) => (b - a) * forward);
+
+  let prefix: string;
+  if (sameFile.length < 2) {
+    prefix = `${piece.label}${numeral(color, fileOf(color, from.c))}`;
+  } else {
+    const rank = sameFile.indexOf(from.r);
+    const names = sameFile.length === 2 ? ['前', '后'] : sameFile.length === 3 ? ['前', '中', '后'] : sameFile.map((_, i) => numeral(color, i + 1));
+    prefix = `${names[rank]}${piece.label}`;
+  }
+
+  if (from.r === to.r) {
+    return `${prefix}平${numeral(color, fileOf(color, to.c))}`;
+  }
+  const action = (to.r - from.r) * forward > 0 ? '进' : '退';
+  const amount = LINE_MOVERS.includes(piece.type) ? Math.abs(to.r - from.r) : fileOf(color, to.c);
+  return `${prefix}${action}${numeral(color, amount)}`;
+};
@@ -0,0 +1,142 @@
+import { XiangqiBoard, XiangqiColor, XiangqiMove, applyXiangqiMove, getAllXiangqiMoves, getAllLegalXiangqiMoves, hasGeneral } from './xiangqi';
+
+export interface XiangqiBotLevel {
+  id: string;
+  name: string;
+  depth: number;
+  noise: number; // Random score noise added at the root, makes weaker bots blunder
+  pointsMultiplier: number;
+}
+
+export const XIANGQI_BOT_LEVELS: XiangqiBotLevel[] = [
+  { id: 'novice', name: '入门', depth: 1, noise: 300, pointsMultiplier: 0.5 },
+  { id: 'easy', name: '简单', depth: 2, noise: 120, pointsMultiplier: 1 },
+  { id: 'medium', name: '中等', depth: 3, noise: 30, pointsMultiplier: 1.5 },
+  { id: 'hard', name: '困难', depth: 4, noise: 0, pointsMultiplier: 2 }
+];
+
+export interface XiangqiSearchRequest {
+  id: number;
+  board: XiangqiBoard;
+  turn: XiangqiColor;
+  depth: number;
+  noise: number;
+}
+
+export interface XiangqiSearchResponse {
+  id: number;
+  move: XiangqiMove | null;
+  score: number;
+}
+
+const MATE_SCORE = 100000;
+
+// On the same scale as chess centipawns: a soldier that has not crossed the river is 100
+const PIECE_VALUES: Record<string, number> = { R: 900, C: 450, N: 400, A: 200, E: 200, P: 100, K: 0 };
+
+const opponent = (color: XiangqiColor): XiangqiColor => color === 'red' ? 'black' : 'red';
+
+// Positional bonus; rows counted from the piece's own side (0 = own back rank)
+const positionBonus = (type: string, ownRow: number, c: number) => {
+  const central = 4 - Math.abs(c - 4);
+  switch (type) {
+    case 'P':
+      // Soldiers gain sideways moves after the river and are worth most a few ranks in
+      if (ownRow < 5) return 0;
+      return 80 + (ownRow <= 7 ? 20 * (ownRow - 5) : 20) + central * 10;
+    case 'N':
+      return central * 8 + Math.min(ownRow, 6) * 6;
+    case 'C':
+      return c === 4 ? 20 : 0;
+    case 'R':
+      return central * 4 + (ownRow >= 5 ? 20 : 0);
+    default:
+      return 0;
+  }
+};
+
+// Static evaluation, positive = good for red
+export const evaluateXiangqiBoard = (board: XiangqiBoard): number => {
+  let score = 0;
+  board.forEach((row, r) => row.forEach((p, c) => {
+    if (!p) return;
+    const ownRow = p.color === 'red' ? 9 - r : r;
+    const value = PIECE_VALUES[p.type] + positionBonus(p.type, ownRow, c);
+    score += p.color === 'red' ? value : -value;
+  }));
+  return score;
+};
+
+const captureValue = (board: XiangqiBoard, move: XiangqiMove) => {
+  const victim = board[move.to.r][move.to.c];
+  if (!victim) return 0;
+  const attacker = board[move.from.r][move.from.c];
+  // Taking the general outranks everything; otherwise MVV-LVA
+  if (victim.type === 'K') return MATE_SCORE;
+  return PIECE_VALUES[victim.type] * 10 - (attacker ? PIECE_VALUES[attacker.type] : 0) / 10;
+};
+
+const orderMoves = (board: XiangqiBoard, moves: XiangqiMove[]) =>
+  moves
+    .map(move => ({ move, key: captureValue(board, move) }))
+    .sort((a, b) => b.key - a.key)
+    .map(m => m.move);
+
+const sideScore = (board: XiangqiBoard, turn: XiangqiColor) =>
+  turn === 'red' ? evaluateXiangqiBoard(board) : -evaluateXiangqiBoard(board);
+
+// Capture-only search at the horizon; moves here are not checked for legality, an exposed general is simply taken
+const quiesce = (board: XiangqiBoard, turn: XiangqiColor, alpha: number, beta: number, depth: number, ply: number): number => {
+  if (!hasGeneral(board, turn)) return -MATE_SCORE + ply;
+
+  const standPat = sideScore(board, turn);
+  if (standPat >= beta) return beta;
+  if (alpha < standPat) alpha = standPat;
+  if (depth <= 0) return alpha;
+
+  const captures = orderMoves(board, getAllXiangqiMoves(board, turn).filter(m => board[m.to.r][m.to.c]));
+  for (const move of captures) {
+    const score = -quiesce(applyXiangqiMove(board, move), opponent(turn), -beta, -alpha, depth - 1, ply + 1);
+    if (score >= beta) return beta;
+    if (score > alpha) alpha = score;
+  }
+  return alpha;
+};
+
+// Negamax alpha-beta; having no legal move loses, whether checkmated or stalemated (困毙)
+const negamax = (board: XiangqiBoard, turn: XiangqiColor, depth: number, alpha: number, beta: number, ply: number): number => {
+  if (!hasGeneral(board, turn)) return -MATE_SCORE + ply;
+  if (depth === 0) return quiesce(board, turn, alpha, beta, 2, ply);
+
+  const moves = getAllLegalXiangqiMoves(board, turn);
+  if (moves.length === 0) return -MATE_SCORE + ply;
+
+  let best = -Infinity;
+  for (const move of orderMoves(board, moves)) {
+    const score = -negamax(applyXiangqiMove(board, move), opponent(turn), depth - 1, -beta, -alpha, ply + 1);
+    if (score > best) best = score;
+    if (score > alpha) alpha = score;
+    if (alpha >= beta) break;
+  }
+  return best;
+};
+
+export const searchXiangqiMove = (board: XiangqiBoard, turn: XiangqiColor, depth: number, noise = 0): { move: XiangqiMove | null, score: number } => {
+  const moves = orderMoves(board, getAllLegalXiangqiMoves(board, turn));
+  let bestMove: XiangqiMove | null = null;
+  let bestScore = -Infinity;
+  let alpha = -Infinity;
+
+  for (const move of moves) {
+    // Full window when adding noise so every root move gets a comparable score
+    const window = noise > 0 ? -Infinity : alpha;
+    let score = -negamax(applyXiangqiMove(board, move), opponent(turn), depth - 1, -Infinity, -window, 1);
+    if (noise > 0) score += (Math.random() * 2 - 1) * noise;
+    if (score > bestScore) {
+      bestScore = score;
+      bestMove = move;
+    }
+    if (score > alpha) alpha = score;
+  }
+  return { move: bestMove, score: bestScore };
+};
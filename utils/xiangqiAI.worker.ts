@@ -0,0 +1,11 @@
+import { searchXiangqiMove, XiangqiSearchRequest, XiangqiSearchResponse } from './xiangqiAI';
+
+// Runs the xiangqi search off the main thread so the page stays responsive during analysis
+const ctx = self as unknown as Worker;
+
+ctx.onmessage = (e: MessageEvent<XiangqiSearchRequest>) => {
+  const { id, board, turn, depth, noise } = e.data;
+  const { move, score } = searchXiangqiMove(board, turn, depth, noise);
+  const response: XiangqiSearchResponse = { id, move, score };
+  ctx.postMessage(response);
+};
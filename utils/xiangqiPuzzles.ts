@@ -0,0 +1,90 @@
+// Bundled xiangqi endgame puzzles (残局). Red always moves first and must win within mateIn moves;
+// the defender is played by the engine, so any winning line counts, not only the book solution
+
+export interface XiangqiPuzzle {
+  id: string;
+  name: string;
+  fen: string;
+  mateIn: number; // Red moves allowed to checkmate or stalemate (困毙) black
+  points: number;
+  description: string;
+}
+
+export const XIANGQI_PUZZLES: XiangqiPuzzle[] = [
+  {
+    id: 'ma_hou_pao',
+    name: '马后炮',
+    fen: '4k4/9/4N4/9/9/C8/9/9/9/3K5 w - - 0 1',
+    mateIn: 1,
+    points: 10,
+    description: '马控将门, 炮在马后照将'
+  },
+  {
+    id: 'zhong_pao',
+    name: '重炮',
+    fen: '2bakab2/9/9/9/9/9/9/4C4/C8/3K5 w - - 0 1',
+    mateIn: 1,
+    points: 10,
+    description: '双炮同线, 前炮作炮架'
+  },
+  {
+    id: 'bai_lian_jiang',
+    name: '白脸将',
+    fen: '3k5/9/R8/9/9/9/9/9/9/4K4 w - - 0 1',
+    mateIn: 1,
+    points: 10,
+    description: '帅控中路, 车沉底或横将'
+  },
+  {
+    id: 'kun_bi',
+    name: '困毙',
+    fen: '4ka3/4a4/9/9/9/9/9/9/9/3K1R3 w - - 0 1',
+    mateIn: 1,
+    points: 10,
+    description: '无需将军, 让对方无子可动同样取胜'
+  },
+  {
+    id: 'yu_jia_qin_zheng',
+    name: '御驾亲征',
+    fen: '3ak4/4a4/4b4/9/9/9/9/4C4/9/3RK4 w - - 0 1',
+    mateIn: 1,
+    points: 10,
+    description: '帅也能助攻'
+  },
+  {
+    id: 'che_ma_leng_zhao',
+    name: '车马冷着',
+    fen: '3aka3/9/9/2N6/9/9/9/9/R8/3K5 w - - 0 1',
+    mateIn: 2,
+    points: 20,
+    description: '先封住将的去路, 再一击致命'
+  },
+  {
+    id: 'shuang_che_xie_shi',
+    name: '双车胁士',
+    fen: '4k4/4a4/3a5/9/9/9/9/9/9/3K1RR2 w - - 0 1',
+    mateIn: 3,
+    points: 30,
+    description: '双车配合, 逼士离位'
+  },
+  {
+    id: 'shuang_che_cuo',
+    name: '双车错',
+    fen: '3ak4/4a4/9/9/9/R8/8R/9/9/3K5 w - - 0 1',
+    mateIn: 3,
+    points: 30,
+    description: '两车交替照将'
+  },
+  {
+    id: 'shuang_pao',
+    name: '双炮连环',
+    fen: '3akab2/9/4b4/9/9/9/2C6/9/C8/3K5 w - - 0 1',
+    mateIn: 3,
+    points: 30,
+    description: '双炮借象作架'
+  }
+];
+
+const CHINESE_COUNTS = ['一', '二', '三', '四', '五'];
+
+export const puzzleGoal = (puzzle: XiangqiPuzzle) => `红先 ${CHINESE_COUNTS[puzzle.mateIn - 1] || puzzle.mateIn} 步胜`;
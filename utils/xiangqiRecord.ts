@@ -0,0 +1,45 @@
+import { XiangqiBoard, XiangqiColor, XiangqiMove, INITIAL_XIANGQI_FEN, parseXiangqiFen, applyXiangqiMove, getLegalXiangqiMoves, moveFromIccs, moveToChinese } from './xiangqi';
+import { PgnGame, PgnResult } from './pgn';
+
+// Xiangqi game records use the PGN layout with ICCS movetext ("H2-E2"), as most xiangqi programs read it,
+// and the Chinese notation of each move as a comment
+
+export const formatIccsMove = (iccs: string) => `${iccs.slice(0, 2)}-${iccs.slice(2)}`.toUpperCase();
+
+export interface ReplayedXiangqiGame {
+  boards: XiangqiBoard[]; // boards[0] is the start, boards[i] follows moves[i - 1]
+  turns: XiangqiColor[];
+  moves: XiangqiMove[];
+  notation: string[]; // Chinese notation of each move
+  moveNumber: number; // Move number of the start position
+}
+
+// Plays ICCS moves from a FEN, throwing on the first illegal move
+export const replayXiangqiMoves = (iccsMoves: string[], startFen: string = INITIAL_XIANGQI_FEN): ReplayedXiangqiGame => {
+  const start = parseXiangqiFen(startFen);
+  const game: ReplayedXiangqiGame = { boards: [start.board], turns: [start.turn], moves: [], notation: [], moveNumber: start.moveNumber };
+  iccsMoves.forEach((iccs, i) => {
+    const board = game.boards[game.boards.length - 1];
+    const turn = game.turns[game.turns.length - 1];
+    const move = moveFromIccs(iccs);
+    const piece = move && board[move.from.r][move.from.c];
+    const legal = move && piece && piece.color === turn && getLegalXiangqiMoves(board, move.from.r, move.from.c)
+      .some(m => m.r === move.to.r && m.c === move.to.c);
+    if (!move || !legal) {
+      throw new Error(`第 ${i + 1} 步着法无效: ${iccs}`);
+    }
+    game.moves.push(move);
+    game.notation.push(moveToChinese(board, move.from, move.to));
+    game.boards.push(applyXiangqiMove(board, move));
+    game.turns.push(turn === 'red' ? 'black' : 'red');
+  });
+  return game;
+};
+
+export const buildXiangqiGame = (tags: Record<string, string>, iccsMoves: string[], result: PgnResult, startFen: string = INITIAL_XIANGQI_FEN): PgnGame => ({
+  tags: { Game: 'Chinese Chess', ...tags, Format: 'ICCS', FEN: startFen },
+  moves: iccsMoves.map(formatIccsMove),
+  result,
+  comments: replayXiangqiMoves(iccsMoves, startFen).notation
+});
+